@@ -0,0 +1,5 @@
+-- Alert tracking support
+-- Adds a window start to fingerprint trackers so spike counts can reset per alert window
+
+ALTER TABLE fingerprint_trackers
+    ADD COLUMN window_start DATETIME(3) NULL AFTER last_alert;
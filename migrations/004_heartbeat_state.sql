@@ -0,0 +1,18 @@
+-- Heartbeat (silence) alert tracking
+-- Records when each project, and optionally each watched source, last sent logs
+
+ALTER TABLE alert_settings
+    ADD COLUMN heartbeat_sources VARCHAR(255) NULL AFTER heartbeat_grace_sec;
+
+CREATE TABLE IF NOT EXISTS heartbeat_state (
+    project_id INT NOT NULL,
+    source VARCHAR(64) NOT NULL DEFAULT '', -- Empty string tracks the project as a whole
+    last_seen DATETIME(3) NOT NULL,
+    silent_since DATETIME(3) NULL, -- Set once a silence alert has been sent, cleared on recovery
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (project_id, source),
+    FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
+    KEY idx_last_seen (last_seen)
+);
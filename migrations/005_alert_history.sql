@@ -0,0 +1,23 @@
+-- Alert cooldowns and delivery history
+-- cooldown_sec suppresses repeat alerts for the same fingerprint or rule
+
+ALTER TABLE alert_settings
+    ADD COLUMN cooldown_sec INT DEFAULT 900 AFTER heartbeat_sources;
+
+CREATE TABLE IF NOT EXISTS alert_history (
+    id BIGINT PRIMARY KEY AUTO_INCREMENT,
+    project_id INT NOT NULL,
+    rule VARCHAR(32) NOT NULL, -- spike, error_rate, heartbeat, recovery, test
+    target VARCHAR(64) NULL, -- Fingerprint, rule key or source the alert refers to
+    channel VARCHAR(32) NOT NULL,
+    payload_json JSON NOT NULL,
+    status ENUM('sent','failed') NOT NULL,
+    response_status INT NULL,
+    response_body VARCHAR(1024) NULL,
+    error VARCHAR(255) NULL,
+    created_at DATETIME(3) NOT NULL,
+
+    FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
+    KEY idx_proj_created (project_id, created_at),
+    KEY idx_created (created_at)
+);
@@ -0,0 +1,22 @@
+-- Known fingerprints per project for "new issue" alerts
+-- Kept independently of log retention so purged issues don't alert again as new
+
+ALTER TABLE alert_settings
+    ADD COLUMN new_issue_enabled TINYINT(1) DEFAULT 1 AFTER cooldown_sec;
+
+CREATE TABLE IF NOT EXISTS project_fingerprints (
+    project_id INT NOT NULL,
+    fingerprint CHAR(40) NOT NULL,
+    first_seen DATETIME(3) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (project_id, fingerprint),
+    FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+);
+
+-- Backfill from stored logs so existing issues aren't reported as new
+INSERT IGNORE INTO project_fingerprints (project_id, fingerprint, first_seen)
+SELECT project_id, fingerprint, MIN(ts)
+FROM logs
+WHERE level IN ('warn', 'error', 'fatal') AND fingerprint IS NOT NULL
+GROUP BY project_id, fingerprint;
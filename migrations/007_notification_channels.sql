@@ -0,0 +1,21 @@
+-- Per-project notification channels (Discord, Slack, generic webhook, email)
+-- alert_settings.discord_webhook keeps working as an implicit Discord channel
+
+CREATE TABLE IF NOT EXISTS notification_channels (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    project_id INT NOT NULL,
+    name VARCHAR(64) NOT NULL,
+    type ENUM('discord', 'slack', 'webhook', 'email') NOT NULL,
+    config_json JSON NOT NULL,
+    min_level ENUM('debug', 'info', 'warn', 'error', 'fatal') NOT NULL DEFAULT 'warn',
+    enabled TINYINT(1) DEFAULT 1,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+    INDEX idx_project (project_id),
+    FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+);
+
+-- NULL for deliveries through the legacy discord_webhook column
+ALTER TABLE alert_history
+    ADD COLUMN channel_id INT NULL AFTER channel;
@@ -0,0 +1,19 @@
+-- Custom per-project alert rules
+-- Window counts live in fingerprint_trackers under the key "rule:custom:<id>"
+
+CREATE TABLE IF NOT EXISTS alert_rules (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    project_id INT NOT NULL,
+    name VARCHAR(64) NOT NULL,
+    enabled TINYINT(1) DEFAULT 1,
+    match_json JSON NOT NULL, -- level, source glob, env, tags, message regex, ctx paths
+    threshold INT NOT NULL DEFAULT 1,
+    window_sec INT NOT NULL DEFAULT 60,
+    channel_id INT NULL, -- NULL delivers to every project channel
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+    INDEX idx_project (project_id),
+    FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
+    FOREIGN KEY (channel_id) REFERENCES notification_channels(id) ON DELETE SET NULL
+);
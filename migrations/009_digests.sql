@@ -0,0 +1,7 @@
+-- Scheduled daily/weekly digest reports, delivered through the alert channels
+-- last_digest_at holds the scheduled time of the last digest, so each period is sent once
+
+ALTER TABLE alert_settings
+    ADD COLUMN digest_frequency ENUM('off', 'daily', 'weekly') NOT NULL DEFAULT 'off' AFTER new_issue_enabled,
+    ADD COLUMN digest_hour TINYINT NOT NULL DEFAULT 8 AFTER digest_frequency,
+    ADD COLUMN last_digest_at DATETIME(3) NULL AFTER digest_hour;
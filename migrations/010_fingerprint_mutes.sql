@@ -0,0 +1,15 @@
+-- Muted fingerprints, kept beside fingerprint_trackers
+-- A mute lapses at muted_until or once seen_count reaches until_count (NULL = no limit)
+
+CREATE TABLE IF NOT EXISTS fingerprint_mutes (
+    project_id INT NOT NULL,
+    fingerprint CHAR(40) NOT NULL,
+    muted_until DATETIME(3) NULL,
+    until_count INT NULL,
+    seen_count INT NOT NULL DEFAULT 0, -- Events seen since the mute was set
+    reason VARCHAR(255) NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (project_id, fingerprint),
+    FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+);
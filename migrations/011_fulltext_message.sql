@@ -0,0 +1,5 @@
+-- Full-text index for message search (boolean-mode MATCH ... AGAINST)
+-- The first FULLTEXT index on an InnoDB table rebuilds it to add FTS_DOC_ID,
+-- so expect this to take a while on a large logs table
+
+ALTER TABLE logs ADD FULLTEXT INDEX ft_message (message);
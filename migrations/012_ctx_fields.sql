@@ -0,0 +1,15 @@
+-- ctx paths promoted to generated columns on logs, configured per project
+-- The columns themselves (ctx_<name>, indexed with project_id) are added and
+-- dropped by the admin API, since their names depend on the configured paths;
+-- projects promoting the same path share one column
+
+CREATE TABLE IF NOT EXISTS ctx_fields (
+    project_id INT NOT NULL,
+    path VARCHAR(128) NOT NULL, -- Dotted path below ctx, e.g. "tenant_id" or "http.route"
+    column_name VARCHAR(64) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (project_id, path),
+    INDEX idx_column (column_name),
+    FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+);
@@ -0,0 +1,3 @@
+-- Follow a request across sources: every event for a request_id, in time order
+
+ALTER TABLE logs ADD INDEX idx_proj_request_ts (project_id, request_id, ts);
@@ -0,0 +1,29 @@
+-- Saved searches: a named query, filter set and time range that can be shared
+-- by short id (/?tab=search&saved=<short_id>), used as the match of an alert
+-- rule or counted in the project's digest
+
+CREATE TABLE IF NOT EXISTS saved_searches (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    short_id CHAR(8) NOT NULL,
+    project_id INT NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    owner VARCHAR(64) NULL, -- Free-form, e.g. the author's name or team
+    query TEXT NULL, -- Query language string
+    filters_json JSON NULL, -- level, source, env, fingerprint, user_id, request_id, tags, q, ctx
+    time_range VARCHAR(16) NULL, -- Relative range such as "24h", or NULL
+    range_from DATETIME(3) NULL, -- Absolute range, exclusive with time_range
+    range_to DATETIME(3) NULL,
+    include_in_digest TINYINT(1) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+    UNIQUE KEY uk_short_id (short_id),
+    INDEX idx_project (project_id),
+    FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+);
+
+-- A rule matches either its own match_json or a saved search of the same project
+ALTER TABLE alert_rules
+    MODIFY match_json JSON NULL,
+    ADD COLUMN saved_search_id INT NULL AFTER match_json,
+    ADD FOREIGN KEY (saved_search_id) REFERENCES saved_searches(id);
@@ -7,6 +7,8 @@ class TeknoLogger {
         this.currentProject = null;
         this.currentPage = 1;
         this.resultsPerPage = 50;
+        this.searchFingerprint = null; // Set from alert links, not exposed in the filter form
+        this.searchExtras = null; // Saved-search filters the form has no field for (message, ctx.*, from, to)
         this.adminToken = localStorage.getItem('tekno-logger-admin-token');
         
         this.init();
@@ -33,6 +35,9 @@ class TeknoLogger {
             console.log('📊 Loading dashboard...');
             await this.loadDashboard();
             
+            // Open a pre-filtered search when arriving from an alert link
+            await this.applyUrlState();
+            
             console.log('✅ TeknoLogger - Ready!');
         } catch (error) {
             console.error('❌ Initialization failed:', error);
@@ -93,6 +98,30 @@ class TeknoLogger {
         }
     }
 
+    // ===== URL STATE =====
+    async applyUrlState() {
+        const params = new URLSearchParams(window.location.search);
+        if (params.get('tab') !== 'search') {
+            return;
+        }
+
+        document.querySelector('.tab-button[data-tab="search"]')?.click();
+        await this.loadSearchProjects();
+
+        if (params.get('saved')) {
+            await this.loadSavedSearch(params.get('saved'));
+            return;
+        }
+
+        document.getElementById('search-project').value = params.get('project_id') || '';
+        this.setFilterValue('search-level', params.get('level') || '');
+        this.setFilterValue('search-env', params.get('env') || '');
+        document.getElementById('search-query').value = params.get('query') || params.get('message') || '';
+        this.searchFingerprint = params.get('fingerprint');
+
+        await this.performSearch();
+    }
+
     // ===== EVENT LISTENERS =====
     setupEventListeners() {
         // Dashboard refresh
@@ -109,6 +138,27 @@ class TeknoLogger {
             this.clearSearch();
         });
 
+        document.getElementById('save-search-btn')?.addEventListener('click', () => {
+            this.saveSearch();
+        });
+
+        document.getElementById('export-csv-btn')?.addEventListener('click', () => {
+            this.exportSearch('csv');
+        });
+
+        document.getElementById('export-ndjson-btn')?.addEventListener('click', () => {
+            this.exportSearch('ndjson');
+        });
+
+        // Dropdown choices follow what the selected project emits
+        document.getElementById('search-project').addEventListener('change', () => {
+            this.loadSearchFacets(this.getSearchParams());
+        });
+
+        document.getElementById('live-tail-btn')?.addEventListener('click', () => {
+            this.toggleLiveTail();
+        });
+
         // Search on Enter key
         document.getElementById('search-query').addEventListener('keypress', (e) => {
             if (e.key === 'Enter') {
@@ -629,6 +679,7 @@ class TeknoLogger {
     }
 
     async performSearch() {
+        this.stopLiveTail();
         try {
             const container = document.getElementById('search-results');
             const countElement = document.getElementById('search-results-count');
@@ -636,19 +687,7 @@ class TeknoLogger {
             container.innerHTML = '<div class="loading">Searching...</div>';
             countElement.textContent = 'Searching...';
             
-            // Gather search parameters
-            const params = new URLSearchParams();
-            
-            const projectId = document.getElementById('search-project').value;
-            const level = document.getElementById('search-level').value;
-            const env = document.getElementById('search-env').value;
-            const query = document.getElementById('search-query').value.trim();
-            
-            if (projectId) params.append('project_id', projectId);
-            if (level) params.append('level', level);
-            if (env) params.append('env', env);
-            if (query) params.append('message', query);
-            
+            const params = this.getSearchParams();
             params.append('limit', '50');
             params.append('offset', '0');
             
@@ -656,6 +695,8 @@ class TeknoLogger {
             const response = await this.apiCall(`/admin/logs/search?${params.toString()}`);
             
             this.renderSearchResults(response);
+            this.loadSearchHistogram(params);
+            this.loadSearchFacets(params);
             
         } catch (error) {
             document.getElementById('search-results').innerHTML = 
@@ -665,6 +706,149 @@ class TeknoLogger {
         }
     }
 
+    // Filters of the search form as admin search parameters
+    getSearchParams() {
+        const params = new URLSearchParams();
+        
+        const projectId = document.getElementById('search-project').value;
+        const level = document.getElementById('search-level').value;
+        const env = document.getElementById('search-env').value;
+        const query = document.getElementById('search-query').value.trim();
+        
+        if (projectId) params.append('project_id', projectId);
+        if (level) params.append('level', level);
+        if (env) params.append('env', env);
+        if (query) params.append('query', query); // Query language; bare words search the message
+        if (this.searchFingerprint) params.append('fingerprint', this.searchFingerprint);
+        Object.entries(this.searchExtras || {}).forEach(([key, value]) => params.append(key, value));
+        
+        return params;
+    }
+
+    // Download every match of the current search; the admin token rules out a plain link
+    async exportSearch(format) {
+        const params = this.getSearchParams();
+        params.append('format', format);
+        
+        try {
+            const response = await fetch(`/admin/logs/export?${params.toString()}`, {
+                headers: { 'X-Admin-Token': this.adminToken || '' }
+            });
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({ error: `HTTP ${response.status}` }));
+                throw new Error(errorData.error);
+            }
+            
+            const disposition = response.headers.get('Content-Disposition') || '';
+            const fileName = (disposition.match(/filename="([^"]+)"/) || [])[1] || `logs.${format}`;
+            const url = URL.createObjectURL(await response.blob());
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = fileName;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            this.showToast('Export failed: ' + error.message, 'error');
+        }
+    }
+
+    async loadSearchHistogram(searchParams) {
+        const container = document.getElementById('search-histogram');
+        const params = new URLSearchParams(searchParams);
+        params.delete('limit');
+        params.delete('offset');
+        
+        try {
+            const histogram = await this.apiCall(`/admin/logs/histogram?${params.toString()}`);
+            const max = Math.max(1, ...histogram.buckets.map(bucket => bucket.total));
+            
+            container.innerHTML = histogram.buckets.map(bucket => {
+                const title = `${new Date(bucket.ts).toLocaleString()}: ${bucket.total} events` +
+                    (bucket.levels.error + bucket.levels.fatal > 0 ? `, ${bucket.levels.error + bucket.levels.fatal} errors` : '');
+                const segments = ['debug', 'info', 'warn', 'error', 'fatal']
+                    .filter(level => bucket.levels[level] > 0)
+                    .map(level => `<span class="${level}" style="height: ${(bucket.levels[level] / max) * 100}%"></span>`)
+                    .join('');
+                return `<div class="histogram-bar" title="${this.escapeHtml(title)}">${segments}</div>`;
+            }).join('');
+            container.style.display = histogram.total > 0 ? 'flex' : 'none';
+        } catch (error) {
+            container.style.display = 'none';
+            console.error('Failed to load histogram:', error);
+        }
+    }
+
+    // Level/env dropdowns and source/tag/user chips from what the current search matches
+    async loadSearchFacets(searchParams) {
+        const container = document.getElementById('search-facets');
+        const params = new URLSearchParams(searchParams);
+        params.delete('limit');
+        params.delete('offset');
+        
+        try {
+            const { facets } = await this.apiCall(`/admin/logs/facets?${params.toString()}`);
+            
+            this.setFilterOptions('search-level', 'All Levels', facets.level);
+            this.setFilterOptions('search-env', 'All Environments', facets.env);
+            
+            const labels = { source: 'Sources', tags: 'Tags', user_id: 'Users' };
+            const groups = Object.entries(labels)
+                .filter(([field]) => facets[field] && facets[field].values.length > 0)
+                .map(([field, label]) => `
+                    <div class="facet-group">
+                        <span class="facet-label">${label}:</span>
+                        ${facets[field].values.map(({ value, count }) => `
+                            <button class="facet-chip" data-field="${field}" data-value="${this.escapeHtml(value)}">
+                                ${this.escapeHtml(value)} <span class="facet-count">${count}</span>
+                            </button>
+                        `).join('')}
+                    </div>
+                `);
+            
+            container.innerHTML = groups.join('');
+            container.style.display = groups.length > 0 ? 'block' : 'none';
+            container.querySelectorAll('.facet-chip').forEach(chip => {
+                chip.addEventListener('click', () => this.applyFacet(chip.dataset.field, chip.dataset.value));
+            });
+        } catch (error) {
+            container.style.display = 'none';
+            console.error('Failed to load facets:', error);
+        }
+    }
+
+    // Narrow the search to a facet value through the query box
+    applyFacet(field, value) {
+        const input = document.getElementById('search-query');
+        const term = this.queryTerm(field === 'tags' ? 'tag' : field, value);
+        input.value = input.value.trim() ? `${input.value.trim()} ${term}` : term;
+        this.performSearch();
+    }
+
+    queryTerm(field, value) {
+        return `${field}:"${String(value).replace(/["\\]/g, '\\$&')}"`;
+    }
+
+    // Replace a filter dropdown's choices with facet values, keeping the current selection
+    setFilterOptions(id, allLabel, facet) {
+        if (!facet) return;
+        const select = document.getElementById(id);
+        const selected = select.value;
+        
+        select.innerHTML = `<option value="">${allLabel}</option>` + facet.values
+            .map(({ value, count }) => `<option value="${this.escapeHtml(value)}">${this.escapeHtml(value)} (${count})</option>`)
+            .join('');
+        this.setFilterValue(id, selected);
+    }
+
+    // Select a value in a filter dropdown, adding it if the dropdown doesn't list it
+    setFilterValue(id, value) {
+        const select = document.getElementById(id);
+        if (value && ![...select.options].some(option => option.value === value)) {
+            select.insertAdjacentHTML('beforeend', `<option value="${this.escapeHtml(value)}">${this.escapeHtml(value)}</option>`);
+        }
+        select.value = value;
+    }
+
     renderSearchResults(response) {
         const container = document.getElementById('search-results');
         const countElement = document.getElementById('search-results-count');
@@ -672,43 +856,244 @@ class TeknoLogger {
         if (response.logs && response.logs.length > 0) {
             countElement.textContent = `Found ${response.logs.length} results`;
             
-            container.innerHTML = response.logs.map(log => {
-                // ctx_json might be already parsed by MySQL or still a string
-                let contextDisplay = '';
-                if (log.ctx_json) {
-                    try {
-                        const ctx = typeof log.ctx_json === 'string' ? JSON.parse(log.ctx_json) : log.ctx_json;
-                        contextDisplay = `<div class="log-context"><pre>${this.escapeHtml(JSON.stringify(ctx, null, 2))}</pre></div>`;
-                    } catch (e) {
-                        // If parsing fails, show raw value
-                        contextDisplay = `<div class="log-context"><pre>${this.escapeHtml(String(log.ctx_json))}</pre></div>`;
-                    }
-                }
-                
-                return `
-                    <div class="log-item">
-                        <div class="log-header">
-                            <span class="log-level ${log.level}">${log.level.toUpperCase()}</span>
-                            <span class="log-time">${new Date(log.ts).toLocaleString()}</span>
-                            <span class="log-source">${this.escapeHtml(log.source)}</span>
-                            <span class="log-env">${this.escapeHtml(log.env)}</span>
-                        </div>
-                        <div class="log-message">${this.escapeHtml(log.message)}</div>
-                        ${contextDisplay}
-                    </div>
-                `;
-            }).join('');
+            container.innerHTML = response.logs.map(log => this.renderLogItem(log)).join('');
         } else {
             countElement.textContent = 'No results found';
             container.innerHTML = '<div class="no-data">No logs match your search criteria</div>';
         }
     }
 
+    // One search result; live tail events carry ctx instead of ctx_json
+    renderLogItem(log) {
+        const rawCtx = log.ctx_json ?? log.ctx;
+        // ctx_json might be already parsed by MySQL or still a string
+        let contextDisplay = '';
+        if (rawCtx) {
+            try {
+                const ctx = typeof rawCtx === 'string' ? JSON.parse(rawCtx) : rawCtx;
+                contextDisplay = `<div class="log-context"><pre>${this.escapeHtml(JSON.stringify(ctx, null, 2))}</pre></div>`;
+            } catch (e) {
+                // If parsing fails, show raw value
+                contextDisplay = `<div class="log-context"><pre>${this.escapeHtml(String(rawCtx))}</pre></div>`;
+            }
+        }
+        
+        return `
+            <div class="log-item">
+                <div class="log-header">
+                    <span class="log-level ${log.level}">${log.level.toUpperCase()}</span>
+                    <span class="log-time">${new Date(log.ts).toLocaleString()}</span>
+                    <span class="log-source">${this.escapeHtml(log.source)}</span>
+                    <span class="log-env">${this.escapeHtml(log.env)}</span>
+                </div>
+                <div class="log-message">${this.escapeHtml(log.message)}</div>
+                ${contextDisplay}
+            </div>
+        `;
+    }
+
+    toggleLiveTail() {
+        if (this.liveTail) {
+            this.stopLiveTail();
+        } else {
+            this.startLiveTail();
+        }
+    }
+
+    // Stream new matches into the results; EventSource can't send the admin token,
+    // so the SSE stream is read through fetch
+    async startLiveTail() {
+        const params = new URLSearchParams();
+        const searchParams = this.getSearchParams();
+        ['project_id', 'level', 'env', 'query'].forEach(key => {
+            if (searchParams.has(key)) params.append(key, searchParams.get(key));
+        });
+        
+        const controller = new AbortController();
+        this.liveTail = controller;
+        this.setLiveTailButton(true);
+        
+        const container = document.getElementById('search-results');
+        const countElement = document.getElementById('search-results-count');
+        container.innerHTML = '<div class="no-data">Waiting for new logs…</div>';
+        countElement.textContent = 'Live: 0 new logs';
+        let received = 0;
+        
+        try {
+            const response = await fetch(`/admin/logs/tail?${params.toString()}`, {
+                headers: { 'X-Admin-Token': this.adminToken || '' },
+                signal: controller.signal
+            });
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({ error: `HTTP ${response.status}` }));
+                throw new Error(errorData.error);
+            }
+            
+            const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+            let buffer = '';
+            while (true) {
+                const { value, done } = await reader.read();
+                if (done) break;
+                buffer += value;
+                
+                const messages = buffer.split('\n\n');
+                buffer = messages.pop();
+                messages.forEach(message => {
+                    const lines = message.split('\n');
+                    const event = (lines.find(line => line.startsWith('event: ')) || '').slice(7);
+                    const data = lines.filter(line => line.startsWith('data: ')).map(line => line.slice(6)).join('\n');
+                    if (event === 'log') {
+                        if (received === 0) container.innerHTML = '';
+                        received++;
+                        container.insertAdjacentHTML('afterbegin', this.renderLogItem(JSON.parse(data)));
+                        while (container.children.length > 200) container.lastElementChild.remove();
+                        countElement.textContent = `Live: ${received} new logs`;
+                    } else if (event === 'dropped') {
+                        countElement.textContent = `Live: ${received} new logs (some skipped, rate limited)`;
+                    }
+                });
+            }
+        } catch (error) {
+            if (error.name !== 'AbortError') {
+                this.showToast('Live tail stopped: ' + error.message, 'error');
+            }
+        } finally {
+            if (this.liveTail === controller) {
+                this.liveTail = null;
+                this.setLiveTailButton(false);
+            }
+        }
+    }
+
+    stopLiveTail() {
+        if (this.liveTail) {
+            this.liveTail.abort();
+            this.liveTail = null;
+        }
+        this.setLiveTailButton(false);
+    }
+
+    setLiveTailButton(active) {
+        const button = document.getElementById('live-tail-btn');
+        if (button) {
+            button.textContent = active ? '■ Stop' : '▶ Live';
+            button.classList.toggle('active', active);
+        }
+    }
+
+    // Fill the search form from a saved search (?saved=<short_id>) and run it
+    async loadSavedSearch(shortId) {
+        try {
+            const { search } = await this.apiCall(`/admin/searches/${encodeURIComponent(shortId)}`);
+            const filters = search.filters || {};
+
+            // The admin search has no source/user/request/tag parameters, so those become query terms
+            const terms = [];
+            ['source', 'user_id', 'request_id'].forEach(field => {
+                if (filters[field]) terms.push(this.queryTerm(field, filters[field]));
+            });
+            (filters.tags || '').split(',').map(tag => tag.trim()).filter(Boolean)
+                .forEach(tag => terms.push(this.queryTerm('tag', tag)));
+            if (search.query) {
+                terms.unshift(terms.length > 0 ? `(${search.query})` : search.query);
+            }
+
+            const extras = {};
+            if (filters.q) extras.message = filters.q;
+            Object.entries(filters.ctx || {}).forEach(([path, value]) => { extras[`ctx.${path}`] = value; });
+
+            const range = this.resolveSavedSearchRange(search);
+            if (range.from) extras.from = range.from;
+            if (range.to) extras.to = range.to;
+
+            document.getElementById('search-project').value = String(search.project_id);
+            this.setFilterValue('search-level', filters.level || '');
+            this.setFilterValue('search-env', filters.env || '');
+            document.getElementById('search-query').value = terms.join(' ');
+            this.searchFingerprint = filters.fingerprint || null;
+            this.searchExtras = extras;
+
+            this.showToast(`Loaded saved search "${search.name}"`, 'info');
+            await this.performSearch();
+        } catch (error) {
+            this.showToast('Failed to load saved search: ' + error.message, 'error');
+        }
+    }
+
+    resolveSavedSearchRange(search) {
+        const units = { m: 60000, h: 3600000, d: 86400000, w: 604800000 };
+        const relative = (search.time_range || '').match(/^(\d+)([mhdw])$/);
+        if (relative) {
+            const now = Date.now();
+            return {
+                from: new Date(now - Number(relative[1]) * units[relative[2]]).toISOString(),
+                to: new Date(now).toISOString()
+            };
+        }
+        return {
+            from: search.from ? new Date(search.from).toISOString() : null,
+            to: search.to ? new Date(search.to).toISOString() : null
+        };
+    }
+
+    async saveSearch() {
+        const projectId = document.getElementById('search-project').value;
+        if (!projectId) {
+            this.showToast('Select a project to save the search for', 'warning');
+            return;
+        }
+
+        const name = prompt('Name for this search:');
+        if (!name || !name.trim()) {
+            return;
+        }
+
+        const filters = {};
+        const level = document.getElementById('search-level').value;
+        const env = document.getElementById('search-env').value;
+        if (level) filters.level = level;
+        if (env) filters.env = env;
+        if (this.searchFingerprint) filters.fingerprint = this.searchFingerprint;
+
+        const extras = this.searchExtras || {};
+        if (extras.message) filters.q = extras.message;
+        const ctx = Object.fromEntries(Object.entries(extras)
+            .filter(([key]) => key.startsWith('ctx.'))
+            .map(([key, value]) => [key.slice(4), value]));
+        if (Object.keys(ctx).length > 0) filters.ctx = ctx;
+
+        const query = document.getElementById('search-query').value.trim();
+
+        try {
+            const { search } = await this.apiCall('/admin/searches', {
+                method: 'POST',
+                body: {
+                    project_id: Number(projectId),
+                    name: name.trim(),
+                    query: query || null,
+                    filters,
+                    from: extras.from || null,
+                    to: extras.to || null
+                }
+            });
+
+            window.history.replaceState(null, '', `/?tab=search&saved=${encodeURIComponent(search.short_id)}`);
+            await navigator.clipboard?.writeText(search.url).catch(() => {});
+            this.showToast(`Saved "${search.name}" - link: ${search.url}`, 'success');
+        } catch (error) {
+            this.showToast('Failed to save search: ' + error.message, 'error');
+        }
+    }
+
     clearSearch() {
         document.getElementById('search-project').value = '';
         document.getElementById('search-level').value = '';
         document.getElementById('search-env').value = '';
         document.getElementById('search-query').value = '';
+        this.searchFingerprint = null;
+        this.searchExtras = null;
+        document.getElementById('search-histogram').style.display = 'none';
+        document.getElementById('search-facets').style.display = 'none';
         
         document.getElementById('search-results').innerHTML = `
             <div class="search-placeholder">
@@ -1,8 +1,7 @@
 import Fastify, { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
 import { resolve } from 'path';
 import { appConfig } from '@/config';
-import { AuthenticationError, ValidationError } from '@/types';
-import authPlugin from '@/middleware/auth';
+import { AuthenticationError, QuerySyntaxError, RateLimitError, ValidationError } from '@/types';
 import rateLimitPlugin from '@/middleware/rateLimit';
 
 // Type definitions for our application
@@ -41,13 +40,7 @@ export async function createApp(options: AppOptions = {}): Promise<FastifyInstan
   // Register built-in plugins
   await registerCorePlugins(app);
 
-  // Register custom middleware
-  await registerMiddleware(app);
-
-  // Register application routes
-  await registerRoutes(app);
-
-  // Global error handler
+  // Global error handler - set before the routes, whose plugins only inherit handlers set earlier
   app.setErrorHandler(async (error, request, reply) => {
     const errorId = `err_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     
@@ -73,7 +66,16 @@ export async function createApp(options: AppOptions = {}): Promise<FastifyInstan
     if (error instanceof ValidationError) {
       return reply.status(400).send({
         error: error.message,
-        code: (error as any).code || 'VALIDATION_ERROR'
+        code: (error as any).code || 'VALIDATION_ERROR',
+        ...(error instanceof QuerySyntaxError ? { position: error.position } : {})
+      });
+    }
+
+    if (error instanceof RateLimitError) {
+      return reply.status(429).header('Retry-After', String(error.retryAfter)).send({
+        error: error.message,
+        code: error.code || 'RATE_LIMIT_EXCEEDED',
+        retryAfter: error.retryAfter
       });
     }
 
@@ -112,6 +114,12 @@ export async function createApp(options: AppOptions = {}): Promise<FastifyInstan
     });
   });
 
+  // Register custom middleware
+  await registerMiddleware(app);
+
+  // Register application routes
+  await registerRoutes(app);
+
   return app;
 }
 
@@ -192,7 +200,7 @@ async function registerMiddleware(app: FastifyInstance): Promise<void> {
   });
 
   // Import and register middleware modules
-  await app.register(authPlugin);
+  // Authentication is a preHandler hook in each route plugin (see middleware/auth)
   await app.register(rateLimitPlugin);
 }
 
@@ -213,8 +221,10 @@ async function registerRoutes(app: FastifyInstance): Promise<void> {
   // API routes
   await app.register(import('@/routes/logs'), { prefix: '/api' });
   await app.register(import('@/routes/system'), { prefix: '/api' });
+  await app.register(import('@/routes/query'), { prefix: '/api' });
   await app.register(import('@/routes/config'), { prefix: '/' }); // Config at root level
   await app.register(import('@/routes/admin'), { prefix: '/admin' });
+  await app.register(import('@/routes/otlp'), { prefix: '/v1' }); // OTLP/HTTP paths
 }
 
 /**
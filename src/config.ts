@@ -38,6 +38,20 @@ const configSchema = z.object({
   DISCORD_WEBHOOK_URL: z.string().url().optional(),
   SENTRY_DSN: z.string().url().optional(),
   
+  // Optional SMTP server for email notification channels
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.string().optional().transform(val => val ? Number(val) : 587).pipe(z.number().int().positive()),
+  SMTP_SECURE: z.enum(['true', 'false']).optional().transform(val => val === 'true'),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASS: z.string().optional(),
+  SMTP_FROM: z.string().optional(),
+  
+  // Optional syslog listeners (disabled unless a port is set)
+  SYSLOG_UDP_PORT: z.string().optional().transform(val => val ? Number(val) : undefined).pipe(z.number().int().min(1).max(65535).optional()),
+  SYSLOG_TCP_PORT: z.string().optional().transform(val => val ? Number(val) : undefined).pipe(z.number().int().min(1).max(65535).optional()),
+  SYSLOG_UDP_PROJECT_KEY: z.string().optional(), // Project for UDP messages without a key in their structured data
+  SYSLOG_TCP_PROJECT_KEY: z.string().optional(),
+  
   // Optional Testing Services
   TEST_SENTRY_DSN: z.string().url().optional(),
   TEST_BETTERSTACK_TOKEN: z.string().optional(),
@@ -124,6 +138,21 @@ export const appConfig = {
   external: {
     discordWebhook: config.DISCORD_WEBHOOK_URL,
     sentryDsn: config.SENTRY_DSN,
+    smtp: {
+      host: config.SMTP_HOST,
+      port: config.SMTP_PORT,
+      secure: config.SMTP_SECURE,
+      username: config.SMTP_USER,
+      password: config.SMTP_PASS,
+      from: config.SMTP_FROM || `${config.SERVICE_NAME} <alerts@localhost>`,
+    },
+  },
+
+  // Syslog listeners
+  syslog: {
+    host: '0.0.0.0',
+    udp: config.SYSLOG_UDP_PORT ? { port: config.SYSLOG_UDP_PORT, projectKey: config.SYSLOG_UDP_PROJECT_KEY } : null,
+    tcp: config.SYSLOG_TCP_PORT ? { port: config.SYSLOG_TCP_PORT, projectKey: config.SYSLOG_TCP_PROJECT_KEY } : null,
   },
 
   // Testing services
@@ -2,13 +2,15 @@ import 'dotenv/config';
 import { appConfig } from '@/config';
 import { initializeDatabase, closeDatabase } from '@/services/database';
 import { createApp, closeApp } from '@/app';
+import { startSyslogServer, type SyslogServer } from '@/syslog';
 
 /**
  * Main server entry point
- * Initializes database, starts the Fastify server, and handles graceful shutdown
+ * Initializes database, starts the Fastify server and any syslog listeners, and handles graceful shutdown
  */
 async function main(): Promise<void> {
   let app: Awaited<ReturnType<typeof createApp>> | null = null;
+  let syslog: SyslogServer | null = null;
 
   try {
     console.log('🚀 Starting Tekno Logger...');
@@ -39,6 +41,13 @@ async function main(): Promise<void> {
     console.log(`📍 Health check: http://${appConfig.server.host}:${appConfig.server.port}/healthz`);
     console.log(`🔗 Public URL: ${appConfig.server.publicUrl}`);
     
+    // Optional syslog listeners
+    if (appConfig.syslog.udp || appConfig.syslog.tcp) {
+      syslog = await startSyslogServer(appConfig.syslog, app.log);
+      if (syslog.udpPort) console.log(`📡 Syslog UDP listening on port ${syslog.udpPort}`);
+      if (syslog.tcpPort) console.log(`📡 Syslog TCP listening on port ${syslog.tcpPort}`);
+    }
+    
     if (appConfig.isDevelopment) {
       console.log('🛠️  Development mode - hot reload enabled');
       console.log(`📝 API endpoint: http://localhost:${appConfig.server.port}/api/log`);
@@ -55,6 +64,12 @@ async function main(): Promise<void> {
     console.log(`\n🛑 Received ${signal}, shutting down gracefully...`);
     
     try {
+      // Stop taking syslog messages and store what is batched
+      if (syslog) {
+        console.log('🔌 Closing syslog listeners...');
+        await syslog.close();
+      }
+      
       // Close Fastify server
       if (app) {
         console.log('🔌 Closing HTTP server...');
@@ -1,5 +1,19 @@
+/**
+ * HMAC Authentication
+ * 
+ * Two-factor authentication:
+ * 1. X-Project-Key header - identifies the project
+ * 2. X-Signature header - HMAC-SHA256 signature of raw request body
+ * 
+ * For admin routes, uses X-Admin-Token instead, and OTLP routes (/v1/) take
+ * X-Project-Key alone. Route plugins install the one they need as a preHandler
+ * hook, which applies to every route in that plugin:
+ * 
+ *   fastify.addHook('preHandler', authenticateAdmin);
+ */
+
 import { createHmac, createHash, timingSafeEqual } from 'crypto';
-import type { FastifyRequest, FastifyReply, FastifyPluginAsync } from 'fastify';
+import type { FastifyRequest, FastifyReply } from 'fastify';
 import { appConfig } from '@/config';
 import { executeQuerySingle } from '@/services/database';
 import { AuthenticationError, ValidationError } from '@/types';
@@ -10,50 +24,10 @@ interface AuthHeaders {
   'x-admin-token'?: string;
 }
 
-/**
- * HMAC Authentication Plugin
- * 
- * Two-factor authentication:
- * 1. X-Project-Key header - identifies the project
- * 2. X-Signature header - HMAC-SHA256 signature of raw request body
- * 
- * For admin routes, uses X-Admin-Token instead
- */
-export const authPlugin: FastifyPluginAsync = async (fastify) => {
-  // Add authentication hooks to specific routes
-  fastify.addHook('preHandler', async (request, reply) => {
-    const isApiRoute = request.url.startsWith('/api/');
-    const isAdminRoute = request.url.startsWith('/admin/');
-    const isHealthCheck = request.url === '/healthz';
-    
-    // Skip auth for public routes
-    if (!isApiRoute && !isAdminRoute) {
-      return;
-    }
-    
-    // Skip auth for health check
-    if (isHealthCheck) {
-      return;
-    }
-    
-    // Handle admin authentication
-    if (isAdminRoute) {
-      await authenticateAdmin(request, reply);
-      return;
-    }
-    
-    // Handle API authentication
-    if (isApiRoute) {
-      await authenticateProject(request, reply);
-      return;
-    }
-  });
-};
-
 /**
  * Authenticate admin requests using admin token
  */
-async function authenticateAdmin(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+export async function authenticateAdmin(request: FastifyRequest, reply: FastifyReply): Promise<void> {
   const headers = request.headers as AuthHeaders;
   const adminToken = headers['x-admin-token'];
   
@@ -61,10 +35,11 @@ async function authenticateAdmin(request: FastifyRequest, reply: FastifyReply):
     throw new AuthenticationError('Admin token required', 'ADMIN_TOKEN_MISSING');
   }
   
-  if (!timingSafeEqual(
-    Buffer.from(adminToken, 'utf8'),
-    Buffer.from(appConfig.security.adminToken, 'utf8')
-  )) {
+  const provided = Buffer.from(adminToken, 'utf8');
+  const expected = Buffer.from(appConfig.security.adminToken, 'utf8');
+  
+  // timingSafeEqual throws on buffers of different lengths
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
     throw new AuthenticationError('Invalid admin token', 'ADMIN_TOKEN_INVALID');
   }
   
@@ -72,10 +47,31 @@ async function authenticateAdmin(request: FastifyRequest, reply: FastifyReply):
   request.log.info({ ip: request.clientIp }, 'Admin authenticated');
 }
 
+/**
+ * Authenticate OTLP requests by project key alone
+ */
+export async function authenticateProjectKey(request: FastifyRequest): Promise<void> {
+  const projectKey = (request.headers as AuthHeaders)['x-project-key'];
+  
+  if (!projectKey) {
+    throw new AuthenticationError('Project key required', 'PROJECT_KEY_MISSING');
+  }
+  
+  const project = await findProject(request, projectKey);
+  
+  request.project = {
+    id: project.id,
+    key: projectKey,
+    slug: project.slug,
+    name: project.name,
+    isActive: true
+  };
+}
+
 /**
  * Authenticate project requests using project key + HMAC signature
  */
-async function authenticateProject(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+export async function authenticateProject(request: FastifyRequest, reply: FastifyReply): Promise<void> {
   try {
     const headers = request.headers as AuthHeaders;
     const projectKey = headers['x-project-key'];
@@ -90,45 +86,7 @@ async function authenticateProject(request: FastifyRequest, reply: FastifyReply)
       throw new AuthenticationError('Signature required', 'SIGNATURE_MISSING');
     }
     
-    // Look up project in database using API key hash with retry logic
-    const apiKeyHash = createHash('sha256').update(projectKey).digest('hex');
-    
-    request.log.info({ apiKeyHash: apiKeyHash.slice(0, 8) + '...' }, 'Looking up project by API key hash');
-    
-    let project: {
-      id: number;
-      slug: string;
-      name: string;
-      api_key_hash: string;
-    } | null = null;
-    
-    try {
-      // Add timeout and retry logic for database queries
-      const result = await Promise.race([
-        executeQuerySingle<{
-          id: number;
-          slug: string;
-          name: string;
-          api_key_hash: string;
-        }>('SELECT id, slug, name, api_key_hash FROM projects WHERE api_key_hash = ? LIMIT 1', [apiKeyHash]),
-        new Promise<null>((_, reject) => 
-          setTimeout(() => reject(new Error('Database query timeout')), 10000)
-        )
-      ]);
-      project = result;
-      
-      request.log.info({ projectFound: !!project, projectId: project?.id }, 'Project lookup result');
-    } catch (error) {
-      request.log.error({ 
-        error: error instanceof Error ? error.message : 'Unknown error',
-        apiKeyHash: apiKeyHash.slice(0, 8) + '...' 
-      }, 'Database query failed during authentication');
-      throw new AuthenticationError('Authentication service unavailable', 'DATABASE_ERROR');
-    }
-    
-    if (!project) {
-      throw new AuthenticationError('Invalid project key', 'PROJECT_NOT_FOUND');
-    }
+    const project = await findProject(request, projectKey);
     
     // Verify HMAC signature against raw request body using the HMAC secret from config
     const rawBody = await getRawRequestBody(request);
@@ -177,6 +135,58 @@ async function authenticateProject(request: FastifyRequest, reply: FastifyReply)
   }
 }
 
+/**
+ * Look up the project for an API key
+ */
+async function findProject(request: FastifyRequest, projectKey: string): Promise<{
+  id: number;
+  slug: string;
+  name: string;
+  api_key_hash: string;
+}> {
+  // Look up project in database using API key hash with retry logic
+  const apiKeyHash = createHash('sha256').update(projectKey).digest('hex');
+  
+  request.log.info({ apiKeyHash: apiKeyHash.slice(0, 8) + '...' }, 'Looking up project by API key hash');
+  
+  let project: {
+    id: number;
+    slug: string;
+    name: string;
+    api_key_hash: string;
+  } | null = null;
+  
+  try {
+    // Add timeout and retry logic for database queries
+    const result = await Promise.race([
+      executeQuerySingle<{
+        id: number;
+        slug: string;
+        name: string;
+        api_key_hash: string;
+      }>('SELECT id, slug, name, api_key_hash FROM projects WHERE api_key_hash = ? LIMIT 1', [apiKeyHash]),
+      new Promise<null>((_, reject) => 
+        setTimeout(() => reject(new Error('Database query timeout')), 10000)
+      )
+    ]);
+    project = result;
+    
+    request.log.info({ projectFound: !!project, projectId: project?.id }, 'Project lookup result');
+  } catch (error) {
+    request.log.error({ 
+      error: error instanceof Error ? error.message : 'Unknown error',
+      apiKeyHash: apiKeyHash.slice(0, 8) + '...' 
+    }, 'Database query failed during authentication');
+    throw new AuthenticationError('Authentication service unavailable', 'DATABASE_ERROR');
+  }
+  
+  if (!project) {
+    throw new AuthenticationError('Invalid project key', 'PROJECT_NOT_FOUND');
+  }
+  
+  return project;
+}
+
 /**
  * Get raw request body for HMAC verification
  * CRITICAL: Must use raw body, not parsed JSON
@@ -235,6 +245,3 @@ export function validateHmacSignature(data: string, signature: string, secret: s
     return false;
   }
 }
-
-// Export plugin as default
-export default authPlugin;
\ No newline at end of file
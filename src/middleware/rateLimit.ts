@@ -105,6 +105,15 @@ async function checkProjectRateLimit(request: FastifyRequest, reply: FastifyRepl
   reply.header('X-RateLimit-Reset-Project', ((minuteUtc + 1) * 60).toString());
 }
 
+/**
+ * Count one request against a project's limit for the current minute, for
+ * ingestion outside of HTTP (syslog batches); false once the limit is exceeded
+ */
+export async function chargeProjectRateLimit(projectId: number): Promise<boolean> {
+  const count = await incrementCounter('project', projectId.toString(), getCurrentMinute());
+  return count <= appConfig.limits.rateLimit.perProject;
+}
+
 /**
  * Increment rate limit counter for given type/key/minute
  * Returns the current count after increment
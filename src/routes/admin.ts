@@ -1,9 +1,63 @@
 import type { FastifyPluginAsync } from 'fastify';
 import { createHash, randomBytes } from 'crypto';
+import { authenticateAdmin } from '@/middleware/auth';
 import { executeQuery, executeQuerySingle, getCurrentTimestamp } from '@/services/database';
 import { runMaintenance, runDailyPurge } from '@/services/maintenance';
 import { forwardToSentry, forwardToBetterStack } from '@/services/forwarding';
-import { projectCreateSchema, type Project, ValidationError, DatabaseError } from '@/types';
+import { getAlertSettings, resolveChannels, sendDigestAlert, sendTestAlert } from '@/services/alerts';
+import { maskChannelConfig, maskWebhookUrl } from '@/services/channels';
+import {
+  buildMessageMatch,
+  decodeCursor,
+  foldCtxParams,
+  getLogContext,
+  groupByExpression,
+  keysetClause,
+  paginate,
+  type PageCursor
+} from '@/services/search';
+import { compileCtxFilter, compileLogQuery, type CompileOptions } from '@/services/queryLanguage';
+import { getLogHistogram, resolveHistogramRange, resolveInterval, type HistogramInterval } from '@/services/histogram';
+import { demoteCtxField, dropUnusedCtxColumns, getCtxColumns, listCtxFields, promoteCtxField } from '@/services/ctxFields';
+import { getRequestTrace } from '@/services/trace';
+import { getIssues } from '@/services/issues';
+import { getLogFacets } from '@/services/facets';
+import { EXPORT_CONTENT_TYPES, exportFileName, parseExportColumns, streamLogExport } from '@/services/export';
+import { openTailStream, resolveLastEventId } from '@/services/tail';
+import {
+  createSavedSearch,
+  getSavedSearch,
+  getSavedSearchById,
+  listSavedSearches,
+  serializeSavedSearch,
+  updateSavedSearch,
+  validateSavedSearch
+} from '@/services/savedSearches';
+import { buildDigestReport, getDigestWindow, type DigestPeriod } from '@/services/digest';
+import {
+  adminTailQuerySchema,
+  alertHistoryQuerySchema,
+  projectCreateSchema,
+  alertSettingsSchema,
+  notificationChannelSchema,
+  alertRuleSchema,
+  fingerprintMuteSchema,
+  ctxFieldSchema,
+  exportOptionsSchema,
+  facetOptionsSchema,
+  issueQuerySchema,
+  logContextQuerySchema,
+  savedSearchSchema,
+  savedSearchUpdateSchema,
+  type AlertSettings,
+  type FingerprintMute,
+  type CustomAlertRule,
+  type NotificationChannel,
+  type Project,
+  QuerySyntaxError,
+  ValidationError,
+  DatabaseError
+} from '@/types';
 import { appConfig } from '@/config';
 
 /**
@@ -11,6 +65,7 @@ import { appConfig } from '@/config';
  * All routes require admin authentication via X-Admin-Token header
  */
 export const adminRoutes: FastifyPluginAsync = async (fastify) => {
+  fastify.addHook('preHandler', authenticateAdmin);
   
   // ===== PROJECT MANAGEMENT =====
   
@@ -238,15 +293,1185 @@ export const adminRoutes: FastifyPluginAsync = async (fastify) => {
       await executeQuery('DELETE FROM logs WHERE project_id = ?', [projectId]);
       await executeQuery('DELETE FROM project_minute_counters WHERE project_id = ?', [projectId]);
       await executeQuery('DELETE FROM fingerprint_trackers WHERE project_id = ?', [projectId]);
+      await executeQuery('DELETE FROM fingerprint_mutes WHERE project_id = ?', [projectId]);
       await executeQuery('DELETE FROM alert_settings WHERE project_id = ?', [projectId]);
+      await executeQuery('DELETE FROM heartbeat_state WHERE project_id = ?', [projectId]);
+      await executeQuery('DELETE FROM alert_history WHERE project_id = ?', [projectId]);
+      await executeQuery('DELETE FROM project_fingerprints WHERE project_id = ?', [projectId]);
+      await executeQuery('DELETE FROM alert_rules WHERE project_id = ?', [projectId]);
+      await executeQuery('DELETE FROM saved_searches WHERE project_id = ?', [projectId]);
+      await executeQuery('DELETE FROM notification_channels WHERE project_id = ?', [projectId]);
+      await executeQuery('DELETE FROM ctx_fields WHERE project_id = ?', [projectId]);
       await executeQuery('DELETE FROM projects WHERE id = ?', [projectId]);
+      // Best effort: columns left behind are dropped by a later deletion
+      await dropUnusedCtxColumns().catch(error => {
+        request.log.warn({ error: error instanceof Error ? error.message : 'Unknown' }, 'Failed to drop unused ctx columns');
+      });
+
+      return { 
+        success: true, 
+        message: `Project "${existingProject.name}" and all its data deleted successfully` 
+      };
+    } catch (error) {
+      throw new DatabaseError('Failed to delete project');
+    }
+  });
+
+  // ===== ALERT SETTINGS =====
+
+  /**
+   * GET /admin/projects/:id/alerts - Get alert settings (webhook masked)
+   * Returns the schema defaults with configured: false when nothing is stored yet
+   */
+  fastify.get<{
+    Params: { id: string }
+  }>('/projects/:id/alerts', async (request, reply) => {
+    const projectId = parseInt(request.params.id);
+    if (isNaN(projectId)) {
+      return reply.code(400).send({ error: 'Invalid project ID' });
+    }
+
+    try {
+      const project = await executeQuerySingle('SELECT id FROM projects WHERE id = ?', [projectId]);
+      if (!project) {
+        return reply.code(404).send({ error: 'Project not found' });
+      }
+
+      const settings = await getAlertSettings(projectId);
+      if (!settings) {
+        return {
+          success: true,
+          configured: false,
+          alerts: {
+            project_id: projectId,
+            ...alertSettingsSchema.parse({ enabled: false }),
+            discord_webhook: null
+          }
+        };
+      }
+
+      return {
+        success: true,
+        configured: true,
+        alerts: serializeAlertSettings(settings)
+      };
+    } catch (error) {
+      request.log.error({ error: error instanceof Error ? error.message : 'Unknown' }, 'Failed to fetch alert settings');
+      throw new DatabaseError('Failed to fetch alert settings');
+    }
+  });
+
+  /**
+   * PUT /admin/projects/:id/alerts - Create or replace alert settings
+   * Omitting discord_webhook keeps the stored webhook, since responses only expose a masked value
+   */
+  fastify.put<{
+    Params: { id: string };
+    Body: Record<string, unknown>;
+  }>('/projects/:id/alerts', async (request, reply) => {
+    const projectId = parseInt(request.params.id);
+    if (isNaN(projectId)) {
+      return reply.code(400).send({ error: 'Invalid project ID' });
+    }
+
+    const parsed = alertSettingsSchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Invalid alert settings',
+        details: parsed.error.flatten().fieldErrors
+      });
+    }
+    const data = parsed.data;
+
+    try {
+      const project = await executeQuerySingle('SELECT id FROM projects WHERE id = ?', [projectId]);
+      if (!project) {
+        return reply.code(404).send({ error: 'Project not found' });
+      }
+
+      await executeQuery(`
+        INSERT INTO alert_settings (
+          project_id, enabled, discord_webhook, spike_n, spike_window_sec,
+          error_rate_n, error_rate_window_sec, heartbeat_grace_sec, heartbeat_sources, cooldown_sec,
+          new_issue_enabled, digest_frequency, digest_hour
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON DUPLICATE KEY UPDATE
+          enabled = VALUES(enabled),
+          discord_webhook = COALESCE(VALUES(discord_webhook), discord_webhook),
+          spike_n = VALUES(spike_n),
+          spike_window_sec = VALUES(spike_window_sec),
+          error_rate_n = VALUES(error_rate_n),
+          error_rate_window_sec = VALUES(error_rate_window_sec),
+          heartbeat_grace_sec = VALUES(heartbeat_grace_sec),
+          heartbeat_sources = VALUES(heartbeat_sources),
+          cooldown_sec = VALUES(cooldown_sec),
+          new_issue_enabled = VALUES(new_issue_enabled),
+          digest_frequency = VALUES(digest_frequency),
+          digest_hour = VALUES(digest_hour)
+      `, [
+        projectId,
+        data.enabled,
+        data.discord_webhook ?? null,
+        data.spike_n,
+        data.spike_window_sec,
+        data.error_rate_n,
+        data.error_rate_window_sec,
+        data.heartbeat_grace_sec,
+        data.heartbeat_sources ?? null,
+        data.cooldown_sec,
+        data.new_issue_enabled,
+        data.digest_frequency,
+        data.digest_hour
+      ]);
+
+      const settings = await getAlertSettings(projectId);
+
+      return {
+        success: true,
+        alerts: settings ? serializeAlertSettings(settings) : null
+      };
+    } catch (error) {
+      request.log.error({ error: error instanceof Error ? error.message : 'Unknown' }, 'Failed to save alert settings');
+      throw new DatabaseError('Failed to save alert settings');
+    }
+  });
+
+  /**
+   * DELETE /admin/projects/:id/alerts - Remove alert settings (disables all alerts)
+   */
+  fastify.delete<{
+    Params: { id: string }
+  }>('/projects/:id/alerts', async (request, reply) => {
+    const projectId = parseInt(request.params.id);
+    if (isNaN(projectId)) {
+      return reply.code(400).send({ error: 'Invalid project ID' });
+    }
+
+    try {
+      const existing = await executeQuerySingle(
+        'SELECT project_id FROM alert_settings WHERE project_id = ?',
+        [projectId]
+      );
+      if (!existing) {
+        return reply.code(404).send({ error: 'Alert settings not found' });
+      }
+
+      await executeQuery('DELETE FROM alert_settings WHERE project_id = ?', [projectId]);
+      await executeQuery('DELETE FROM heartbeat_state WHERE project_id = ?', [projectId]);
+
+      return { success: true, message: 'Alert settings deleted successfully' };
+    } catch (error) {
+      throw new DatabaseError('Failed to delete alert settings');
+    }
+  });
+
+  /**
+   * POST /admin/projects/:id/alerts/test - Send a sample notification to every configured channel
+   */
+  fastify.post<{
+    Params: { id: string }
+  }>('/projects/:id/alerts/test', async (request, reply) => {
+    const projectId = parseInt(request.params.id);
+    if (isNaN(projectId)) {
+      return reply.code(400).send({ error: 'Invalid project ID' });
+    }
+
+    const project = await executeQuerySingle<{ id: number; slug: string; name: string }>(
+      'SELECT id, slug, name FROM projects WHERE id = ?',
+      [projectId]
+    );
+    if (!project) {
+      return reply.code(404).send({ error: 'Project not found' });
+    }
+
+    const settings = await getAlertSettings(projectId);
+    const channels = await resolveChannels(projectId, settings);
+    if (channels.length === 0) {
+      return reply.code(400).send({ error: 'No notification channels configured' });
+    }
+
+    const results = await sendTestAlert(project, channels);
+
+    if (!results.every(result => result.success)) {
+      return reply.code(502).send({
+        success: false,
+        error: 'Test alert delivery failed',
+        details: results
+      });
+    }
+
+    return { success: true, deliveries: results };
+  });
+
+  /**
+   * GET /admin/projects/:id/digest - Preview the digest for the last complete period
+   */
+  fastify.get<{
+    Params: { id: string };
+    Querystring: { period?: string };
+  }>('/projects/:id/digest', async (request, reply) => {
+    const projectId = parseInt(request.params.id);
+    if (isNaN(projectId)) {
+      return reply.code(400).send({ error: 'Invalid project ID' });
+    }
+
+    const period = parseDigestPeriod(request.query.period);
+    if (!period) {
+      return reply.code(400).send({ error: 'Invalid period. Must be "daily" or "weekly"' });
+    }
+
+    const project = await executeQuerySingle<{ id: number; retention_days: number }>(
+      'SELECT id, retention_days FROM projects WHERE id = ?',
+      [projectId]
+    );
+    if (!project) {
+      return reply.code(404).send({ error: 'Project not found' });
+    }
+
+    const settings = await getAlertSettings(projectId);
+    const window = getDigestWindow(period, settings?.digest_hour ?? 8);
+
+    return {
+      success: true,
+      digest: await buildDigestReport(project, period, window)
+    };
+  });
+
+  /**
+   * POST /admin/projects/:id/digest/send - Deliver the digest for the last complete period now
+   * Does not affect the schedule
+   */
+  fastify.post<{
+    Params: { id: string };
+    Body: { period?: string };
+  }>('/projects/:id/digest/send', async (request, reply) => {
+    const projectId = parseInt(request.params.id);
+    if (isNaN(projectId)) {
+      return reply.code(400).send({ error: 'Invalid project ID' });
+    }
+
+    const settings = await getAlertSettings(projectId);
+    const period = parseDigestPeriod(request.body?.period ?? (settings?.digest_frequency !== 'off' ? settings?.digest_frequency : undefined));
+    if (!period) {
+      return reply.code(400).send({ error: 'Invalid period. Must be "daily" or "weekly"' });
+    }
+
+    const project = await executeQuerySingle<{ id: number; slug: string; name: string; retention_days: number }>(
+      'SELECT id, slug, name, retention_days FROM projects WHERE id = ?',
+      [projectId]
+    );
+    if (!project) {
+      return reply.code(404).send({ error: 'Project not found' });
+    }
+
+    const report = await buildDigestReport(project, period, getDigestWindow(period, settings?.digest_hour ?? 8));
+    const results = await sendDigestAlert(
+      { id: project.id, slug: project.slug, name: project.name },
+      { discord_webhook: settings?.discord_webhook ?? null },
+      report
+    );
+
+    if (results.length === 0) {
+      return reply.code(400).send({ error: 'No notification channels configured' });
+    }
+
+    if (!results.every(result => result.success)) {
+      return reply.code(502).send({
+        success: false,
+        error: 'Digest delivery failed',
+        details: results
+      });
+    }
+
+    return { success: true, deliveries: results, digest: report };
+  });
+
+  /**
+   * GET /admin/alerts/history - Delivered and failed alerts, filtered by project and time range
+   */
+  fastify.get('/alerts/history', async (request, reply) => {
+    const parsed = alertHistoryQuerySchema.safeParse(request.query ?? {});
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Invalid alert history query',
+        details: parsed.error.flatten().fieldErrors
+      });
+    }
+    const { project_id, rule, status, from, to, limit, offset } = parsed.data;
+
+    let query = `
+      SELECT
+        h.id,
+        h.project_id,
+        p.slug as project_slug,
+        h.rule,
+        h.target,
+        h.channel,
+        h.channel_id,
+        h.payload_json,
+        h.status,
+        h.response_status,
+        h.response_body,
+        h.error,
+        h.created_at
+      FROM alert_history h
+      LEFT JOIN projects p ON h.project_id = p.id
+      WHERE 1=1
+    `;
+    const params: any[] = [];
+
+    if (project_id) {
+      query += ` AND h.project_id = ?`;
+      params.push(project_id);
+    }
+
+    if (rule) {
+      query += ` AND h.rule = ?`;
+      params.push(rule);
+    }
+
+    if (status) {
+      query += ` AND h.status = ?`;
+      params.push(status);
+    }
+
+    if (from) {
+      query += ` AND h.created_at >= ?`;
+      params.push(new Date(from));
+    }
+
+    if (to) {
+      query += ` AND h.created_at <= ?`;
+      params.push(new Date(to));
+    }
+
+    query += ` ORDER BY h.created_at DESC LIMIT ? OFFSET ?`;
+    params.push(String(limit), String(offset));
+
+    const history = await executeQuery(query, params);
+
+    return {
+      history,
+      count: history.length,
+      limit,
+      offset
+    };
+  });
+
+  // ===== NOTIFICATION CHANNELS =====
+
+  /**
+   * GET /admin/projects/:id/channels - List a project's notification channels (secrets masked)
+   */
+  fastify.get<{
+    Params: { id: string }
+  }>('/projects/:id/channels', async (request, reply) => {
+    const projectId = parseInt(request.params.id);
+    if (isNaN(projectId)) {
+      return reply.code(400).send({ error: 'Invalid project ID' });
+    }
+
+    try {
+      const project = await executeQuerySingle('SELECT id FROM projects WHERE id = ?', [projectId]);
+      if (!project) {
+        return reply.code(404).send({ error: 'Project not found' });
+      }
+
+      const channels = await executeQuery<NotificationChannel>(`
+        SELECT id, project_id, name, type, config_json, min_level, enabled, created_at, updated_at
+        FROM notification_channels
+        WHERE project_id = ?
+        ORDER BY id
+      `, [projectId]);
+
+      return {
+        success: true,
+        channels: channels.map(serializeChannel)
+      };
+    } catch (error) {
+      request.log.error({ error: error instanceof Error ? error.message : 'Unknown' }, 'Failed to fetch notification channels');
+      throw new DatabaseError('Failed to fetch notification channels');
+    }
+  });
+
+  /**
+   * POST /admin/projects/:id/channels - Add a notification channel
+   */
+  fastify.post<{
+    Params: { id: string };
+    Body: Record<string, unknown>;
+  }>('/projects/:id/channels', async (request, reply) => {
+    const projectId = parseInt(request.params.id);
+    if (isNaN(projectId)) {
+      return reply.code(400).send({ error: 'Invalid project ID' });
+    }
+
+    const parsed = notificationChannelSchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Invalid notification channel',
+        details: parsed.error.flatten().fieldErrors
+      });
+    }
+    const data = parsed.data;
+
+    try {
+      const project = await executeQuerySingle('SELECT id FROM projects WHERE id = ?', [projectId]);
+      if (!project) {
+        return reply.code(404).send({ error: 'Project not found' });
+      }
+
+      const result = await executeQuery(`
+        INSERT INTO notification_channels (project_id, name, type, config_json, min_level, enabled)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `, [projectId, data.name, data.type, JSON.stringify(data.config), data.min_level, data.enabled]);
+
+      const channel = await getChannel(projectId, (result as any).insertId);
+
+      return reply.code(201).send({
+        success: true,
+        channel: channel ? serializeChannel(channel) : null
+      });
+    } catch (error) {
+      request.log.error({ error: error instanceof Error ? error.message : 'Unknown' }, 'Failed to create notification channel');
+      throw new DatabaseError('Failed to create notification channel');
+    }
+  });
+
+  /**
+   * PUT /admin/projects/:id/channels/:channelId - Replace a notification channel
+   * The full config must be sent again, since responses only expose masked secrets
+   */
+  fastify.put<{
+    Params: { id: string; channelId: string };
+    Body: Record<string, unknown>;
+  }>('/projects/:id/channels/:channelId', async (request, reply) => {
+    const projectId = parseInt(request.params.id);
+    const channelId = parseInt(request.params.channelId);
+    if (isNaN(projectId) || isNaN(channelId)) {
+      return reply.code(400).send({ error: 'Invalid project or channel ID' });
+    }
+
+    const parsed = notificationChannelSchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Invalid notification channel',
+        details: parsed.error.flatten().fieldErrors
+      });
+    }
+    const data = parsed.data;
+
+    try {
+      const result = await executeQuery(`
+        UPDATE notification_channels
+        SET name = ?, type = ?, config_json = ?, min_level = ?, enabled = ?
+        WHERE id = ? AND project_id = ?
+      `, [data.name, data.type, JSON.stringify(data.config), data.min_level, data.enabled, channelId, projectId]);
+
+      if (((result as any).affectedRows ?? 0) === 0) {
+        return reply.code(404).send({ error: 'Notification channel not found' });
+      }
+
+      const channel = await getChannel(projectId, channelId);
+
+      return {
+        success: true,
+        channel: channel ? serializeChannel(channel) : null
+      };
+    } catch (error) {
+      request.log.error({ error: error instanceof Error ? error.message : 'Unknown' }, 'Failed to update notification channel');
+      throw new DatabaseError('Failed to update notification channel');
+    }
+  });
+
+  /**
+   * DELETE /admin/projects/:id/channels/:channelId - Remove a notification channel
+   */
+  fastify.delete<{
+    Params: { id: string; channelId: string }
+  }>('/projects/:id/channels/:channelId', async (request, reply) => {
+    const projectId = parseInt(request.params.id);
+    const channelId = parseInt(request.params.channelId);
+    if (isNaN(projectId) || isNaN(channelId)) {
+      return reply.code(400).send({ error: 'Invalid project or channel ID' });
+    }
+
+    try {
+      const result = await executeQuery(
+        'DELETE FROM notification_channels WHERE id = ? AND project_id = ?',
+        [channelId, projectId]
+      );
+
+      if (((result as any).affectedRows ?? 0) === 0) {
+        return reply.code(404).send({ error: 'Notification channel not found' });
+      }
+
+      return { success: true, message: 'Notification channel deleted successfully' };
+    } catch (error) {
+      throw new DatabaseError('Failed to delete notification channel');
+    }
+  });
+
+  /**
+   * POST /admin/projects/:id/channels/:channelId/test - Send a sample notification to one channel
+   * Disabled channels can be tested too, so they can be verified before being switched on
+   */
+  fastify.post<{
+    Params: { id: string; channelId: string }
+  }>('/projects/:id/channels/:channelId/test', async (request, reply) => {
+    const projectId = parseInt(request.params.id);
+    const channelId = parseInt(request.params.channelId);
+    if (isNaN(projectId) || isNaN(channelId)) {
+      return reply.code(400).send({ error: 'Invalid project or channel ID' });
+    }
+
+    const project = await executeQuerySingle<{ id: number; slug: string; name: string }>(
+      'SELECT id, slug, name FROM projects WHERE id = ?',
+      [projectId]
+    );
+    const channel = project ? await getChannel(projectId, channelId) : null;
+    if (!project || !channel) {
+      return reply.code(404).send({ error: 'Notification channel not found' });
+    }
+
+    const [result] = await sendTestAlert(project, [{
+      id: channel.id,
+      name: channel.name,
+      type: channel.type,
+      config: parseChannelConfig(channel.config_json),
+      min_level: channel.min_level
+    }]);
+
+    if (!result?.success) {
+      return reply.code(502).send({
+        success: false,
+        error: 'Test alert delivery failed',
+        details: result
+      });
+    }
+
+    return { success: true, delivery: result };
+  });
+
+  // ===== ALERT RULES =====
+
+  /**
+   * GET /admin/projects/:id/rules - List a project's custom alert rules
+   */
+  fastify.get<{
+    Params: { id: string }
+  }>('/projects/:id/rules', async (request, reply) => {
+    const projectId = parseInt(request.params.id);
+    if (isNaN(projectId)) {
+      return reply.code(400).send({ error: 'Invalid project ID' });
+    }
+
+    try {
+      const project = await executeQuerySingle('SELECT id FROM projects WHERE id = ?', [projectId]);
+      if (!project) {
+        return reply.code(404).send({ error: 'Project not found' });
+      }
+
+      const rules = await executeQuery<CustomAlertRule>(`
+        SELECT id, project_id, name, enabled, match_json, saved_search_id, threshold, window_sec, channel_id, created_at, updated_at
+        FROM alert_rules
+        WHERE project_id = ?
+        ORDER BY id
+      `, [projectId]);
+
+      return {
+        success: true,
+        rules: rules.map(serializeRule)
+      };
+    } catch (error) {
+      request.log.error({ error: error instanceof Error ? error.message : 'Unknown' }, 'Failed to fetch alert rules');
+      throw new DatabaseError('Failed to fetch alert rules');
+    }
+  });
+
+  /**
+   * POST /admin/projects/:id/rules - Add a custom alert rule
+   */
+  fastify.post<{
+    Params: { id: string };
+    Body: Record<string, unknown>;
+  }>('/projects/:id/rules', async (request, reply) => {
+    const projectId = parseInt(request.params.id);
+    if (isNaN(projectId)) {
+      return reply.code(400).send({ error: 'Invalid project ID' });
+    }
+
+    const parsed = alertRuleSchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Invalid alert rule',
+        details: parsed.error.flatten().fieldErrors
+      });
+    }
+    const data = parsed.data;
+
+    try {
+      const project = await executeQuerySingle('SELECT id FROM projects WHERE id = ?', [projectId]);
+      if (!project) {
+        return reply.code(404).send({ error: 'Project not found' });
+      }
+
+      if (data.channel_id && !await getChannel(projectId, data.channel_id)) {
+        return reply.code(400).send({ error: 'Notification channel not found for this project' });
+      }
+
+      if (data.saved_search_id && (await getSavedSearchById(data.saved_search_id))?.project_id !== projectId) {
+        return reply.code(400).send({ error: 'Saved search not found for this project' });
+      }
+
+      const result = await executeQuery(`
+        INSERT INTO alert_rules (project_id, name, enabled, match_json, saved_search_id, threshold, window_sec, channel_id)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        projectId,
+        data.name,
+        data.enabled,
+        data.match ? JSON.stringify(data.match) : null,
+        data.saved_search_id ?? null,
+        data.threshold,
+        data.window_sec,
+        data.channel_id ?? null
+      ]);
+
+      const rule = await getRule(projectId, (result as any).insertId);
+
+      return reply.code(201).send({
+        success: true,
+        rule: rule ? serializeRule(rule) : null
+      });
+    } catch (error) {
+      request.log.error({ error: error instanceof Error ? error.message : 'Unknown' }, 'Failed to create alert rule');
+      throw new DatabaseError('Failed to create alert rule');
+    }
+  });
+
+  /**
+   * PUT /admin/projects/:id/rules/:ruleId - Replace a custom alert rule
+   */
+  fastify.put<{
+    Params: { id: string; ruleId: string };
+    Body: Record<string, unknown>;
+  }>('/projects/:id/rules/:ruleId', async (request, reply) => {
+    const projectId = parseInt(request.params.id);
+    const ruleId = parseInt(request.params.ruleId);
+    if (isNaN(projectId) || isNaN(ruleId)) {
+      return reply.code(400).send({ error: 'Invalid project or rule ID' });
+    }
+
+    const parsed = alertRuleSchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Invalid alert rule',
+        details: parsed.error.flatten().fieldErrors
+      });
+    }
+    const data = parsed.data;
+
+    try {
+      if (data.channel_id && !await getChannel(projectId, data.channel_id)) {
+        return reply.code(400).send({ error: 'Notification channel not found for this project' });
+      }
+
+      if (data.saved_search_id && (await getSavedSearchById(data.saved_search_id))?.project_id !== projectId) {
+        return reply.code(400).send({ error: 'Saved search not found for this project' });
+      }
+
+      const result = await executeQuery(`
+        UPDATE alert_rules
+        SET name = ?, enabled = ?, match_json = ?, saved_search_id = ?, threshold = ?, window_sec = ?, channel_id = ?
+        WHERE id = ? AND project_id = ?
+      `, [
+        data.name,
+        data.enabled,
+        data.match ? JSON.stringify(data.match) : null,
+        data.saved_search_id ?? null,
+        data.threshold,
+        data.window_sec,
+        data.channel_id ?? null,
+        ruleId,
+        projectId
+      ]);
+
+      if (((result as any).affectedRows ?? 0) === 0) {
+        return reply.code(404).send({ error: 'Alert rule not found' });
+      }
+
+      // Start counting afresh under the new definition
+      await executeQuery(
+        'DELETE FROM fingerprint_trackers WHERE project_id = ? AND fingerprint = ?',
+        [projectId, `rule:custom:${ruleId}`]
+      );
+
+      const rule = await getRule(projectId, ruleId);
+
+      return {
+        success: true,
+        rule: rule ? serializeRule(rule) : null
+      };
+    } catch (error) {
+      request.log.error({ error: error instanceof Error ? error.message : 'Unknown' }, 'Failed to update alert rule');
+      throw new DatabaseError('Failed to update alert rule');
+    }
+  });
+
+  /**
+   * DELETE /admin/projects/:id/rules/:ruleId - Remove a custom alert rule
+   */
+  fastify.delete<{
+    Params: { id: string; ruleId: string }
+  }>('/projects/:id/rules/:ruleId', async (request, reply) => {
+    const projectId = parseInt(request.params.id);
+    const ruleId = parseInt(request.params.ruleId);
+    if (isNaN(projectId) || isNaN(ruleId)) {
+      return reply.code(400).send({ error: 'Invalid project or rule ID' });
+    }
+
+    try {
+      const result = await executeQuery(
+        'DELETE FROM alert_rules WHERE id = ? AND project_id = ?',
+        [ruleId, projectId]
+      );
+
+      if (((result as any).affectedRows ?? 0) === 0) {
+        return reply.code(404).send({ error: 'Alert rule not found' });
+      }
+
+      await executeQuery(
+        'DELETE FROM fingerprint_trackers WHERE project_id = ? AND fingerprint = ?',
+        [projectId, `rule:custom:${ruleId}`]
+      );
+
+      return { success: true, message: 'Alert rule deleted successfully' };
+    } catch (error) {
+      throw new DatabaseError('Failed to delete alert rule');
+    }
+  });
+
+  // ===== ISSUES =====
+
+  /**
+   * GET /admin/projects/:id/issues - Logs grouped by fingerprint
+   * ?sort=count|recent, from/to (default the last day) and the search filters
+   */
+  fastify.get<{
+    Params: { id: string }
+  }>('/projects/:id/issues', async (request, reply) => {
+    const projectId = parseInt(request.params.id);
+    if (isNaN(projectId)) {
+      return reply.code(400).send({ error: 'Invalid project ID' });
+    }
+
+    const parsed = issueQuerySchema.safeParse(foldCtxParams(request.query as Record<string, unknown>));
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Invalid issue query',
+        details: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    const project = await executeQuerySingle('SELECT id FROM projects WHERE id = ?', [projectId]);
+    if (!project) {
+      return reply.code(404).send({ error: 'Project not found' });
+    }
+
+    try {
+      const result = await getIssues(projectId, parsed.data);
+      return { success: true, ...result, limit: parsed.data.limit, offset: parsed.data.offset };
+    } catch (error) {
+      const body = filterErrorBody(error);
+      if (body) {
+        return reply.code(400).send(body);
+      }
+      request.log.error({ error: error instanceof Error ? error.message : 'Unknown' }, 'Failed to fetch issues');
+      throw new DatabaseError('Failed to fetch issues');
+    }
+  });
+
+  // ===== FINGERPRINT MUTES =====
+
+  /**
+   * GET /admin/projects/:id/mutes - List muted fingerprints, including lapsed ones not yet pruned
+   */
+  fastify.get<{
+    Params: { id: string }
+  }>('/projects/:id/mutes', async (request, reply) => {
+    const projectId = parseInt(request.params.id);
+    if (isNaN(projectId)) {
+      return reply.code(400).send({ error: 'Invalid project ID' });
+    }
+
+    try {
+      const project = await executeQuerySingle('SELECT id FROM projects WHERE id = ?', [projectId]);
+      if (!project) {
+        return reply.code(404).send({ error: 'Project not found' });
+      }
+
+      const mutes = await executeQuery<FingerprintMute & { message: string | null }>(`
+        SELECT
+          m.project_id, m.fingerprint, m.muted_until, m.until_count, m.seen_count, m.reason, m.created_at,
+          (SELECT l.message FROM logs l WHERE l.project_id = m.project_id AND l.fingerprint = m.fingerprint LIMIT 1) as message
+        FROM fingerprint_mutes m
+        WHERE m.project_id = ?
+        ORDER BY m.created_at DESC
+      `, [projectId]);
+
+      const now = new Date();
+      return {
+        success: true,
+        mutes: mutes.map(mute => ({
+          ...mute,
+          active: (!mute.muted_until || new Date(mute.muted_until) > now)
+            && (!mute.until_count || mute.seen_count < mute.until_count)
+        }))
+      };
+    } catch (error) {
+      request.log.error({ error: error instanceof Error ? error.message : 'Unknown' }, 'Failed to fetch mutes');
+      throw new DatabaseError('Failed to fetch mutes');
+    }
+  });
+
+  /**
+   * POST /admin/projects/:id/mutes - Mute a fingerprint
+   * Muting an already muted fingerprint replaces the mute and restarts its count
+   */
+  fastify.post<{
+    Params: { id: string };
+    Body: Record<string, unknown>;
+  }>('/projects/:id/mutes', async (request, reply) => {
+    const projectId = parseInt(request.params.id);
+    if (isNaN(projectId)) {
+      return reply.code(400).send({ error: 'Invalid project ID' });
+    }
+
+    const parsed = fingerprintMuteSchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Invalid mute',
+        details: parsed.error.flatten().fieldErrors
+      });
+    }
+    const data = parsed.data;
+
+    const mutedUntil = data.duration_sec
+      ? new Date(Date.now() + data.duration_sec * 1000)
+      : data.until ? new Date(data.until) : null;
+
+    if (mutedUntil && mutedUntil <= new Date()) {
+      return reply.code(400).send({ error: 'Mute end must be in the future' });
+    }
+
+    try {
+      const project = await executeQuerySingle('SELECT id FROM projects WHERE id = ?', [projectId]);
+      if (!project) {
+        return reply.code(404).send({ error: 'Project not found' });
+      }
+
+      await executeQuery(`
+        INSERT INTO fingerprint_mutes (project_id, fingerprint, muted_until, until_count, seen_count, reason)
+        VALUES (?, ?, ?, ?, 0, ?)
+        ON DUPLICATE KEY UPDATE
+          muted_until = VALUES(muted_until),
+          until_count = VALUES(until_count),
+          seen_count = 0,
+          reason = VALUES(reason),
+          created_at = CURRENT_TIMESTAMP
+      `, [projectId, data.fingerprint, mutedUntil, data.until_count ?? null, data.reason ?? null]);
+
+      const mute = await executeQuerySingle<FingerprintMute>(`
+        SELECT project_id, fingerprint, muted_until, until_count, seen_count, reason, created_at
+        FROM fingerprint_mutes
+        WHERE project_id = ? AND fingerprint = ?
+      `, [projectId, data.fingerprint]);
+
+      return reply.code(201).send({ success: true, mute });
+    } catch (error) {
+      request.log.error({ error: error instanceof Error ? error.message : 'Unknown' }, 'Failed to mute fingerprint');
+      throw new DatabaseError('Failed to mute fingerprint');
+    }
+  });
+
+  /**
+   * DELETE /admin/projects/:id/mutes/:fingerprint - Unmute a fingerprint
+   */
+  fastify.delete<{
+    Params: { id: string; fingerprint: string }
+  }>('/projects/:id/mutes/:fingerprint', async (request, reply) => {
+    const projectId = parseInt(request.params.id);
+    if (isNaN(projectId)) {
+      return reply.code(400).send({ error: 'Invalid project ID' });
+    }
+
+    try {
+      const result = await executeQuery(
+        'DELETE FROM fingerprint_mutes WHERE project_id = ? AND fingerprint = ?',
+        [projectId, request.params.fingerprint]
+      );
+
+      if (((result as any).affectedRows ?? 0) === 0) {
+        return reply.code(404).send({ error: 'Mute not found' });
+      }
+
+      return { success: true, message: 'Fingerprint unmuted successfully' };
+    } catch (error) {
+      throw new DatabaseError('Failed to unmute fingerprint');
+    }
+  });
+
+  // ===== PROMOTED CTX FIELDS =====
+
+  /**
+   * GET /admin/projects/:id/ctx-fields - ctx paths backed by generated columns
+   */
+  fastify.get<{
+    Params: { id: string }
+  }>('/projects/:id/ctx-fields', async (request, reply) => {
+    const projectId = parseInt(request.params.id);
+    if (isNaN(projectId)) {
+      return reply.code(400).send({ error: 'Invalid project ID' });
+    }
+
+    try {
+      const project = await executeQuerySingle('SELECT id FROM projects WHERE id = ?', [projectId]);
+      if (!project) {
+        return reply.code(404).send({ error: 'Project not found' });
+      }
 
-      return { 
-        success: true, 
-        message: `Project "${existingProject.name}" and all its data deleted successfully` 
-      };
+      return { success: true, fields: await listCtxFields(projectId) };
     } catch (error) {
-      throw new DatabaseError('Failed to delete project');
+      request.log.error({ error: error instanceof Error ? error.message : 'Unknown' }, 'Failed to fetch ctx fields');
+      throw new DatabaseError('Failed to fetch ctx fields');
+    }
+  });
+
+  /**
+   * POST /admin/projects/:id/ctx-fields - Promote a ctx path to an indexed column
+   * Adding the first column for a path alters the logs table and builds its index;
+   * the request blocks until that is done, and changes run one at a time (409 when busy)
+   */
+  fastify.post<{
+    Params: { id: string };
+    Body: Record<string, unknown>;
+  }>('/projects/:id/ctx-fields', async (request, reply) => {
+    const projectId = parseInt(request.params.id);
+    if (isNaN(projectId)) {
+      return reply.code(400).send({ error: 'Invalid project ID' });
+    }
+
+    const parsed = ctxFieldSchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Invalid ctx field',
+        details: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    try {
+      const project = await executeQuerySingle('SELECT id FROM projects WHERE id = ?', [projectId]);
+      if (!project) {
+        return reply.code(404).send({ error: 'Project not found' });
+      }
+
+      const field = await promoteCtxField(projectId, parsed.data.path);
+      return reply.code(201).send({ success: true, field });
+    } catch (error) {
+      if (isLockTimeout(error)) {
+        return reply.code(409).send({ error: 'Another ctx field change is in progress, try again shortly', code: 'CTX_FIELDS_BUSY' });
+      }
+      request.log.error({ error: error instanceof Error ? error.message : 'Unknown' }, 'Failed to promote ctx field');
+      throw new DatabaseError('Failed to promote ctx field');
+    }
+  });
+
+  /**
+   * DELETE /admin/projects/:id/ctx-fields/:path - Stop promoting a ctx path
+   */
+  fastify.delete<{
+    Params: { id: string; path: string }
+  }>('/projects/:id/ctx-fields/:path', async (request, reply) => {
+    const projectId = parseInt(request.params.id);
+    if (isNaN(projectId)) {
+      return reply.code(400).send({ error: 'Invalid project ID' });
+    }
+
+    try {
+      if (!await demoteCtxField(projectId, request.params.path)) {
+        return reply.code(404).send({ error: 'ctx field not found' });
+      }
+
+      return { success: true, message: 'ctx field removed successfully' };
+    } catch (error) {
+      if (isLockTimeout(error)) {
+        return reply.code(409).send({ error: 'Another ctx field change is in progress, try again shortly', code: 'CTX_FIELDS_BUSY' });
+      }
+      request.log.error({ error: error instanceof Error ? error.message : 'Unknown' }, 'Failed to remove ctx field');
+      throw new DatabaseError('Failed to remove ctx field');
+    }
+  });
+
+  // ===== SAVED SEARCHES =====
+
+  /**
+   * GET /admin/searches - List saved searches, optionally for one project
+   */
+  fastify.get<{
+    Querystring: { project_id?: string }
+  }>('/searches', async (request, reply) => {
+    const projectId = request.query.project_id ? parseInt(request.query.project_id) : undefined;
+    if (projectId !== undefined && isNaN(projectId)) {
+      return reply.code(400).send({ error: 'Invalid project ID' });
+    }
+
+    try {
+      const searches = await listSavedSearches(projectId);
+      return { success: true, searches: searches.map(serializeSavedSearch) };
+    } catch (error) {
+      request.log.error({ error: error instanceof Error ? error.message : 'Unknown' }, 'Failed to fetch saved searches');
+      throw new DatabaseError('Failed to fetch saved searches');
+    }
+  });
+
+  /**
+   * POST /admin/searches - Save a search; the response carries its short id and link
+   */
+  fastify.post<{
+    Body: Record<string, unknown>
+  }>('/searches', async (request, reply) => {
+    const parsed = savedSearchSchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Invalid saved search',
+        details: parsed.error.flatten().fieldErrors
+      });
+    }
+    const { project_id: projectId, ...data } = parsed.data;
+
+    try {
+      validateSavedSearch(projectId, data);
+    } catch (error) {
+      const body = filterErrorBody(error);
+      if (body) {
+        return reply.code(400).send(body);
+      }
+      throw error;
+    }
+
+    try {
+      const project = await executeQuerySingle('SELECT id FROM projects WHERE id = ?', [projectId]);
+      if (!project) {
+        return reply.code(404).send({ error: 'Project not found' });
+      }
+
+      const search = await createSavedSearch(projectId, data);
+      return reply.code(201).send({ success: true, search: serializeSavedSearch(search) });
+    } catch (error) {
+      request.log.error({ error: error instanceof Error ? error.message : 'Unknown' }, 'Failed to create saved search');
+      throw new DatabaseError('Failed to create saved search');
+    }
+  });
+
+  /**
+   * GET /admin/searches/:shortId - Resolve a shared search link
+   */
+  fastify.get<{
+    Params: { shortId: string }
+  }>('/searches/:shortId', async (request, reply) => {
+    try {
+      const search = await getSavedSearch(request.params.shortId);
+      if (!search) {
+        return reply.code(404).send({ error: 'Saved search not found' });
+      }
+
+      return { success: true, search: serializeSavedSearch(search) };
+    } catch (error) {
+      request.log.error({ error: error instanceof Error ? error.message : 'Unknown' }, 'Failed to fetch saved search');
+      throw new DatabaseError('Failed to fetch saved search');
+    }
+  });
+
+  /**
+   * PUT /admin/searches/:shortId - Replace a saved search; the project cannot change
+   */
+  fastify.put<{
+    Params: { shortId: string };
+    Body: Record<string, unknown>;
+  }>('/searches/:shortId', async (request, reply) => {
+    const parsed = savedSearchUpdateSchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Invalid saved search',
+        details: parsed.error.flatten().fieldErrors
+      });
+    }
+
+    try {
+      const existing = await getSavedSearch(request.params.shortId);
+      if (!existing) {
+        return reply.code(404).send({ error: 'Saved search not found' });
+      }
+
+      try {
+        validateSavedSearch(existing.project_id, parsed.data);
+      } catch (error) {
+        const body = filterErrorBody(error);
+        if (body) {
+          return reply.code(400).send(body);
+        }
+        throw error;
+      }
+
+      const search = await updateSavedSearch(request.params.shortId, parsed.data);
+      if (!search) {
+        return reply.code(404).send({ error: 'Saved search not found' });
+      }
+
+      // Rules following the search start counting afresh under the new definition
+      await executeQuery(`
+        DELETE t FROM fingerprint_trackers t
+        JOIN alert_rules r ON r.project_id = t.project_id AND t.fingerprint = CONCAT('rule:custom:', r.id)
+        WHERE r.saved_search_id = ?
+      `, [search.id]);
+
+      return { success: true, search: serializeSavedSearch(search) };
+    } catch (error) {
+      request.log.error({ error: error instanceof Error ? error.message : 'Unknown' }, 'Failed to update saved search');
+      throw new DatabaseError('Failed to update saved search');
+    }
+  });
+
+  /**
+   * DELETE /admin/searches/:shortId - Remove a saved search no alert rule uses
+   */
+  fastify.delete<{
+    Params: { shortId: string }
+  }>('/searches/:shortId', async (request, reply) => {
+    try {
+      const search = await getSavedSearch(request.params.shortId);
+      if (!search) {
+        return reply.code(404).send({ error: 'Saved search not found' });
+      }
+
+      const rules = await executeQuery<{ id: number; name: string }>(
+        'SELECT id, name FROM alert_rules WHERE saved_search_id = ? ORDER BY id',
+        [search.id]
+      );
+      if (rules.length > 0) {
+        return reply.code(409).send({
+          error: 'Saved search is used by alert rules',
+          rules
+        });
+      }
+
+      await executeQuery('DELETE FROM saved_searches WHERE id = ?', [search.id]);
+      return { success: true, message: 'Saved search deleted successfully' };
+    } catch (error) {
+      request.log.error({ error: error instanceof Error ? error.message : 'Unknown' }, 'Failed to delete saved search');
+      throw new DatabaseError('Failed to delete saved search');
     }
   });
 
@@ -455,15 +1680,55 @@ export const adminRoutes: FastifyPluginAsync = async (fastify) => {
    * GET /admin/logs/search - Search logs across all projects (admin-level)
    */
   fastify.get('/logs/search', async (request, reply) => {
-    const { 
-      project_id, 
-      level, 
-      env, 
-      message, 
-      limit = 50, 
-      offset = 0,
-      since 
-    } = request.query as any;
+    const search = foldCtxParams(request.query as Record<string, unknown>) as any;
+    const { group_by: groupBy, limit = 50, offset = 0, cursor: cursorParam } = search;
+    
+    let cursor: PageCursor | null = null;
+    if (cursorParam) {
+      try {
+        cursor = decodeCursor(cursorParam);
+      } catch {
+        return reply.code(400).send({ error: 'Invalid cursor' });
+      }
+    }
+    
+    let filter: { where: string; params: any[]; options: CompileOptions };
+    let group: { sql: string; params: any[] } | null = null;
+    try {
+      filter = await buildAdminLogFilter(search);
+      if (groupBy) {
+        group = groupByExpression(String(groupBy), filter.options);
+      }
+    } catch (error) {
+      const body = filterErrorBody(error);
+      if (!body) {
+        throw error;
+      }
+      return reply.code(400).send(body);
+    }
+    
+    const where = `WHERE ${filter.where}`;
+    const params = [...filter.params];
+    
+    const pageSize = Math.min(Number(limit) || 50, 1000);
+    
+    if (group) {
+      const groups = await executeQuery<{ value: string | null; count: number }>(`
+        SELECT ${group.sql} AS \`value\`, COUNT(*) AS count
+        FROM logs l
+        ${where}
+        GROUP BY \`value\`
+        ORDER BY count DESC, \`value\`
+        LIMIT ?
+      `, [...group.params, ...params, String(pageSize)]);
+      
+      return {
+        group_by: groupBy,
+        groups: groups.map(row => ({ value: row.value === null ? null : String(row.value), count: Number(row.count) })),
+        count: groups.length,
+        limit: pageSize
+      };
+    }
     
     let query = `
       SELECT 
@@ -485,47 +1750,380 @@ export const adminRoutes: FastifyPluginAsync = async (fastify) => {
         l.day_id
       FROM logs l
       LEFT JOIN projects p ON l.project_id = p.id
-      WHERE 1=1
+      ${where}
     `;
-    const params: any[] = [];
     
-    if (project_id) {
-      query += ` AND l.project_id = ?`;
-      params.push(project_id);
+    // Keyset pagination on (ts, id); a cursor takes precedence over offset
+    const pageOffset = cursor ? 0 : Number(offset) || 0;
+    const keyset = keysetClause(cursor, 'l.');
+    query += ` ${keyset.condition} ORDER BY ${keyset.order} LIMIT ? OFFSET ?`;
+    params.push(...keyset.params, String(pageSize + 1), String(pageOffset));
+    
+    const rows = await executeQuery<{ id: number; ts: Date }>(query, params);
+    const page = paginate(rows, pageSize, cursor, pageOffset > 0);
+    
+    return {
+      logs: page.rows,
+      count: page.rows.length,
+      limit: pageSize,
+      offset: pageOffset,
+      next_cursor: page.next_cursor,
+      prev_cursor: page.prev_cursor
+    };
+  });
+
+  /**
+   * GET /admin/logs/:id/context - Events just before and after a log in its project
+   */
+  fastify.get<{
+    Params: { id: string }
+  }>('/logs/:id/context', async (request, reply) => {
+    const logId = parseInt(request.params.id);
+    if (isNaN(logId)) {
+      return reply.code(400).send({ error: 'Invalid log ID' });
+    }
+
+    const parsed = logContextQuerySchema.safeParse(request.query ?? {});
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Invalid context query',
+        details: parsed.error.flatten().fieldErrors
+      });
     }
+
+    try {
+      const log = await executeQuerySingle<{ project_id: number }>('SELECT project_id FROM logs WHERE id = ?', [logId]);
+      const context = log ? await getLogContext(log.project_id, logId, parsed.data) : null;
+      if (!context) {
+        return reply.code(404).send({ error: 'Log not found' });
+      }
+
+      return { success: true, ...context };
+    } catch (error) {
+      request.log.error({ error: error instanceof Error ? error.message : 'Unknown' }, 'Failed to fetch log context');
+      throw new DatabaseError('Failed to fetch log context');
+    }
+  });
+
+  /**
+   * GET /admin/logs/histogram - Event counts per time bucket and level
+   * Takes the /admin/logs/search filters plus from, to and interval
+   */
+  fastify.get('/logs/histogram', async (request, reply) => {
+    const search = foldCtxParams(request.query as Record<string, unknown>) as any;
     
-    if (level) {
-      query += ` AND l.level = ?`;
-      params.push(level);
+    let filter: { where: string; params: any[] };
+    let range: { from: Date; to: Date };
+    let interval: HistogramInterval;
+    try {
+      if (search.interval !== undefined && !['auto', '1m', '5m', '1h', '1d'].includes(search.interval)) {
+        throw new ValidationError('Invalid interval: use auto, 1m, 5m, 1h or 1d', 'interval', 'INVALID_INTERVAL');
+      }
+      range = resolveHistogramRange(search.from ?? search.since, search.to);
+      interval = resolveInterval(search.interval ?? 'auto', range);
+      filter = await buildAdminLogFilter({
+        ...search,
+        since: undefined,
+        from: range.from.toISOString(),
+        to: range.to.toISOString()
+      });
+    } catch (error) {
+      const body = filterErrorBody(error);
+      if (!body) {
+        throw error;
+      }
+      return reply.code(400).send(body);
     }
     
-    if (env) {
-      query += ` AND l.env = ?`;
-      params.push(env);
+    return getLogHistogram(filter, range, interval, 'l');
+  });
+
+  /**
+   * GET /admin/logs/facets - Top levels, envs, sources, tags and users
+   * Takes the /admin/logs/search filters plus from, to, fields and limit; the
+   * range defaults to the last day
+   */
+  fastify.get('/logs/facets', async (request, reply) => {
+    const search = foldCtxParams(request.query as Record<string, unknown>) as any;
+    
+    const parsed = facetOptionsSchema.safeParse(search);
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Invalid facet options',
+        details: parsed.error.flatten().fieldErrors
+      });
     }
+    const { fields, limit } = parsed.data;
     
-    if (message) {
-      query += ` AND l.message LIKE ?`;
-      params.push(`%${message}%`);
+    let facetSearch: Record<string, any>;
+    try {
+      const range = resolveHistogramRange(search.from ?? search.since, search.to);
+      facetSearch = { ...search, since: undefined, from: range.from.toISOString(), to: range.to.toISOString() };
+      await buildAdminLogFilter(facetSearch); // Surface filter errors before counting anything
+    } catch (error) {
+      const body = filterErrorBody(error);
+      if (!body) {
+        throw error;
+      }
+      return reply.code(400).send(body);
     }
     
-    if (since) {
-      query += ` AND l.created_at >= ?`;
-      params.push(new Date(since));
+    const facets = await getLogFacets(
+      fields,
+      field => buildAdminLogFilter({ ...facetSearch, [field]: undefined }),
+      limit,
+      'l'
+    );
+    
+    return { from: facetSearch.from, to: facetSearch.to, facets };
+  });
+
+  /**
+   * GET /admin/logs/export - Stream every log matching the search filters as NDJSON or CSV
+   */
+  fastify.get('/logs/export', async (request, reply) => {
+    const search = foldCtxParams(request.query as Record<string, unknown>) as any;
+    
+    const parsed = exportOptionsSchema.safeParse(search);
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Invalid export options',
+        details: parsed.error.flatten().fieldErrors
+      });
     }
+    const { format, order } = parsed.data;
     
-    query += ` ORDER BY l.created_at DESC LIMIT ? OFFSET ?`;
-    params.push(limit, offset);
+    let filter: { where: string; params: any[] };
+    let columns: string[];
+    try {
+      columns = parseExportColumns(parsed.data.columns);
+      filter = await buildAdminLogFilter(search);
+    } catch (error) {
+      const body = filterErrorBody(error);
+      if (!body) {
+        throw error;
+      }
+      return reply.code(400).send(body);
+    }
     
-    const logs = await executeQuery(query, params);
+    const stream = await streamLogExport(filter, { format, columns, order, scope: 'admin', alias: 'l' });
+    const prefix = search.project_id ? `project-${Number(search.project_id)}` : 'all';
     
-    return {
-      logs,
-      count: logs.length,
-      limit,
-      offset
-    };
+    return reply
+      .type(EXPORT_CONTENT_TYPES[format])
+      .header('Content-Disposition', `attachment; filename="${exportFileName(prefix, format)}"`)
+      .send(stream);
+  });
+
+  /**
+   * GET /admin/logs/tail - Server-Sent Events stream of newly ingested events
+   * Every project unless ?project_id= is given
+   */
+  fastify.get('/logs/tail', async (request, reply) => {
+    const parsed = adminTailQuerySchema.safeParse(request.query ?? {});
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Invalid tail filters',
+        details: parsed.error.flatten().fieldErrors
+      });
+    }
+    const { rate, last_event_id, ...filter } = parsed.data;
+    
+    try {
+      await openTailStream(reply, {
+        filter,
+        rate,
+        lastEventId: resolveLastEventId(request.headers['last-event-id'], last_event_id)
+      });
+    } catch (error) {
+      const body = filterErrorBody(error);
+      if (!body) {
+        throw error;
+      }
+      return reply.code(400).send(body);
+    }
+  });
+
+  /**
+   * GET /admin/trace/:requestId - Follow a request across sources and projects
+   * Limited to one project with ?project_id=
+   */
+  fastify.get<{
+    Params: { requestId: string };
+    Querystring: { project_id?: string; limit?: string };
+  }>('/trace/:requestId', async (request, reply) => {
+    const { requestId } = request.params;
+    if (requestId.length === 0 || requestId.length > 64) {
+      return reply.code(400).send({ error: 'Invalid request ID' });
+    }
+
+    let projectIds: number[];
+    if (request.query.project_id !== undefined) {
+      const projectId = parseInt(request.query.project_id);
+      if (isNaN(projectId)) {
+        return reply.code(400).send({ error: 'Invalid project ID' });
+      }
+      projectIds = [projectId];
+    } else {
+      const projects = await executeQuery<{ id: number }>('SELECT id FROM projects');
+      projectIds = projects.map(project => project.id);
+    }
+
+    const limit = Math.min(Number(request.query.limit) || 1000, 5000);
+
+    try {
+      return await getRequestTrace(requestId, projectIds, limit);
+    } catch (error) {
+      request.log.error({ error: error instanceof Error ? error.message : 'Unknown' }, 'Failed to trace request');
+      throw new DatabaseError('Failed to trace request');
+    }
   });
 };
 
+/**
+ * WHERE condition (without the keyword) shared by the admin log endpoints,
+ * over `logs l`; throws ValidationError for invalid ctx filters or queries
+ */
+async function buildAdminLogFilter(search: Record<string, any>): Promise<{
+  where: string;
+  params: any[];
+  options: CompileOptions;
+}> {
+  const { project_id, level, env, fingerprint, message, query, since, from, to, ctx } = search;
+  let where = '1=1';
+  const params: any[] = [];
+  
+  // Promoted ctx columns are per project, so they only apply within one
+  const ctxColumns = project_id ? await getCtxColumns(Number(project_id)) : undefined;
+  const options: CompileOptions = { alias: 'l.', ...(ctxColumns ? { ctxColumns } : {}) };
+  
+  if (project_id) {
+    where += ` AND l.project_id = ?`;
+    params.push(project_id);
+  }
+  
+  if (level) {
+    where += ` AND l.level = ?`;
+    params.push(level);
+  }
+  
+  if (env) {
+    where += ` AND l.env = ?`;
+    params.push(env);
+  }
+  
+  if (fingerprint) {
+    where += ` AND l.fingerprint = ?`;
+    params.push(fingerprint);
+  }
+  
+  for (const [path, value] of Object.entries<unknown>(ctx ?? {})) {
+    const filter = compileCtxFilter(path, String(value), options);
+    where += ` AND ${filter.condition}`;
+    params.push(...filter.params);
+  }
+  
+  if (query) {
+    const compiled = compileLogQuery(String(query), options);
+    where += ` AND ${compiled.condition}`;
+    params.push(...compiled.params);
+  }
+  
+  if (message) {
+    const match = buildMessageMatch(String(message), 'l.message');
+    where += ` AND ${match.condition}`;
+    params.push(...match.params);
+  }
+  
+  if (since) {
+    where += ` AND l.created_at >= ?`;
+    params.push(new Date(since));
+  }
+  
+  for (const [bound, operator] of [[from, '>='], [to, '<=']] as const) {
+    if (bound) {
+      const date = new Date(bound);
+      if (isNaN(date.getTime())) {
+        throw new ValidationError('Invalid from/to timestamp', 'from', 'INVALID_RANGE');
+      }
+      where += ` AND l.ts ${operator} ?`;
+      params.push(date);
+    }
+  }
+  
+  return { where, params, options };
+}
+
+/**
+ * 400 body for filter errors, or null for anything else
+ */
+function filterErrorBody(error: unknown): { error: string; position?: number } | null {
+  if (error instanceof QuerySyntaxError) {
+    return { error: error.message, position: error.position };
+  }
+  if (error instanceof ValidationError) {
+    return { error: error.message };
+  }
+  return null;
+}
+
+function isLockTimeout(error: unknown): boolean {
+  return error instanceof DatabaseError && error.code === 'LOCK_TIMEOUT';
+}
+
+/**
+ * Shape alert settings for API responses without leaking the webhook URL
+ */
+function serializeAlertSettings(settings: AlertSettings): Record<string, unknown> {
+  return {
+    ...settings,
+    discord_webhook: maskWebhookUrl(settings.discord_webhook)
+  };
+}
+
+async function getChannel(projectId: number, channelId: number): Promise<NotificationChannel | null> {
+  return executeQuerySingle<NotificationChannel>(`
+    SELECT id, project_id, name, type, config_json, min_level, enabled, created_at, updated_at
+    FROM notification_channels
+    WHERE id = ? AND project_id = ?
+  `, [channelId, projectId]);
+}
+
+function parseDigestPeriod(value: string | undefined): DigestPeriod | null {
+  if (value === undefined) {
+    return 'daily';
+  }
+  return value === 'daily' || value === 'weekly' ? value : null;
+}
+
+async function getRule(projectId: number, ruleId: number): Promise<CustomAlertRule | null> {
+  return executeQuerySingle<CustomAlertRule>(`
+    SELECT id, project_id, name, enabled, match_json, saved_search_id, threshold, window_sec, channel_id, created_at, updated_at
+    FROM alert_rules
+    WHERE id = ? AND project_id = ?
+  `, [ruleId, projectId]);
+}
+
+function serializeRule(rule: CustomAlertRule): Record<string, unknown> {
+  const { match_json, ...rest } = rule;
+  return {
+    ...rest,
+    enabled: Boolean(rule.enabled),
+    match: typeof match_json === 'string' ? JSON.parse(match_json) : match_json
+  };
+}
+
+function parseChannelConfig(value: unknown): Record<string, unknown> {
+  return typeof value === 'string' ? JSON.parse(value) : (value as Record<string, unknown>);
+}
+
+function serializeChannel(channel: NotificationChannel): Record<string, unknown> {
+  const { config_json, ...rest } = channel;
+  return {
+    ...rest,
+    enabled: Boolean(channel.enabled),
+    config: maskChannelConfig(channel.type, parseChannelConfig(config_json))
+  };
+}
+
 export default adminRoutes;
\ No newline at end of file
@@ -1,10 +1,16 @@
 import { createHash } from 'crypto';
 import type { FastifyPluginAsync } from 'fastify';
 import { appConfig } from '@/config';
-import { executeInsert, executeBulkInsert, executeQuerySingle, executeQuery } from '@/services/database';
+import { executeInsert, executeBulkInsertReturningIds, executeQuerySingle, executeQuery } from '@/services/database';
 import { cleanupExpiredCounters, purgeOldLogs } from '@/services/database';
+import { authenticateProject } from '@/middleware/auth';
 import { cleanupExpiredRateLimitCounters } from '@/middleware/rateLimit';
-import { logBatchSchema, type LogEvent, ValidationError, AuthenticationError } from '@/types';
+import { checkHeartbeats, pruneAlertHistory, pruneExpiredMutes } from '@/services/maintenance';
+import { processAlerts, type AlertableEvent, type AlertProject } from '@/services/alerts';
+import { decodeCursor, keysetClause, paginate } from '@/services/search';
+import { sendDueDigests } from '@/services/digest';
+import { publishLogs } from '@/services/tail';
+import { logBatchSchema, logEventSchema, MAX_CTX_BYTES, type LogEvent, ValidationError, AuthenticationError } from '@/types';
 import { createHmac, timingSafeEqual } from 'crypto';
 
 // Self-triggering maintenance state
@@ -158,22 +164,7 @@ const logsRoutes: FastifyPluginAsync = async (fastify) => {
       );
     }
     
-    // Process events for bulk insert
-    const processedEvents = await processLogEvents(events, request.project.id, request.project.slug);
-    
-    request.log.info({
-      processedCount: processedEvents.length,
-      firstEvent: processedEvents[0]
-    }, 'Events processed');
-    
-    // Bulk insert logs
-    if (processedEvents.length > 0) {
-      await bulkInsertLogs(processedEvents);
-      request.log.info({ insertedCount: processedEvents.length }, 'Bulk insert completed');
-    }
-    
-    // Self-triggering maintenance (NON-BLOCKING)
-    checkAndTriggerMaintenance(fastify.log);
+    const processed = await ingestLogEvents(request.project, events, request.log);
     
     const processingTime = Date.now() - startTime;
     
@@ -182,20 +173,21 @@ const logsRoutes: FastifyPluginAsync = async (fastify) => {
       projectId: request.project.id,
       projectKey: request.project.key,
       received: events.length,
-      processed: processedEvents.length,
+      processed,
       processingTime,
       ip: request.clientIp
     }, 'Log batch processed');
     
     return {
       received: events.length,
-      processed: processedEvents.length,
+      processed,
       requestId
     };
   });
   
   // GET /api/log - Query logs (basic endpoint for debugging)
   fastify.get('/log', {
+    preHandler: authenticateProject,
     schema: {
       querystring: {
         type: 'object',
@@ -204,6 +196,7 @@ const logsRoutes: FastifyPluginAsync = async (fastify) => {
           offset: { type: 'number', default: 0 },
           level: { type: 'string', enum: ['debug', 'info', 'warn', 'error'] },
           since: { type: 'string' }, // ISO date string
+          cursor: { type: 'string', maxLength: 128 }, // next_cursor/prev_cursor from a previous page
         }
       }
     }
@@ -212,11 +205,12 @@ const logsRoutes: FastifyPluginAsync = async (fastify) => {
       throw new ValidationError('Project authentication required', 'PROJECT_REQUIRED');
     }
     
-    const { limit, offset, level, since } = request.query as any;
+    const { limit, offset, level, since, cursor: cursorParam } = request.query as any;
+    const cursor = cursorParam ? decodeCursor(cursorParam) : null;
     
     // Build query
     let query = `
-      SELECT id, level, message, source, ctx_json as context, fingerprint, created_at, day_id
+      SELECT id, ts, level, message, source, ctx_json as context, fingerprint, created_at, day_id
       FROM logs 
       WHERE project_id = ?
     `;
@@ -232,20 +226,91 @@ const logsRoutes: FastifyPluginAsync = async (fastify) => {
       params.push(new Date(since));
     }
     
-    query += ` ORDER BY created_at DESC LIMIT ? OFFSET ?`;
-    params.push(limit, offset);
+    // Keyset pagination on (ts, id); a cursor takes precedence over offset
+    const keyset = keysetClause(cursor);
+    query += ` ${keyset.condition} ORDER BY ${keyset.order} LIMIT ? OFFSET ?`;
+    params.push(...keyset.params, String(limit + 1), String(cursor ? 0 : offset));
     
-    const logs = await executeQuery(query, params);
+    const rows = await executeQuery<{ id: number; ts: Date }>(query, params);
+    const page = paginate(rows, limit, cursor, offset > 0);
     
     return {
-      logs,
+      logs: page.rows,
       limit,
-      offset,
-      total: logs.length
+      offset: cursor ? 0 : offset,
+      total: page.rows.length,
+      next_cursor: page.next_cursor,
+      prev_cursor: page.prev_cursor
     };
   });
 };
 
+/**
+ * Store a validated batch for a project: bulk insert, hand the events to live
+ * tails, then evaluate alerts and maintenance without delaying the caller
+ * Used by POST /api/log and POST /v1/logs; returns the number stored
+ */
+export async function ingestLogEvents(project: AlertProject, events: LogEvent[], logger: any): Promise<number> {
+  // Process events for bulk insert
+  const processedEvents = await processLogEvents(events, project.id, project.slug);
+  
+  logger.info({
+    processedCount: processedEvents.length,
+    firstEvent: processedEvents[0]
+  }, 'Events processed');
+  
+  // Bulk insert logs
+  if (processedEvents.length > 0) {
+    const ids = await bulkInsertLogs(processedEvents);
+    logger.info({ insertedCount: processedEvents.length }, 'Bulk insert completed');
+    
+    const stored = processedEvents.map((event, index) => ({ ...event, id: ids[index]! }));
+    
+    // Live tail subscribers
+    publishLogs(stored);
+    
+    // Alert evaluation (NON-BLOCKING)
+    triggerAlerts(project, stored, logger);
+  }
+  
+  // Self-triggering maintenance (NON-BLOCKING)
+  checkAndTriggerMaintenance(logger);
+  
+  return processedEvents.length;
+}
+
+/**
+ * Fit an event mapped from another format (OTLP, syslog) to the limits of
+ * POST /api/log: strings are cut to logEventSchema's lengths and an oversized
+ * ctx is replaced by a note, then the event is validated with that schema
+ */
+export function fitLogEvent(event: LogEvent): LogEvent {
+  const shape = logEventSchema.shape;
+  const fitted: LogEvent = { ...event, message: event.message.substring(0, shape.message.maxLength ?? undefined) };
+
+  for (const field of ['source', 'env', 'user_id', 'request_id', 'tags'] as const) {
+    const value = event[field];
+    if (value) {
+      fitted[field] = value.substring(0, shape[field].unwrap().maxLength ?? undefined);
+    } else {
+      delete fitted[field];
+    }
+  }
+
+  if (event.ctx) {
+    const bytes = Buffer.byteLength(JSON.stringify(event.ctx), 'utf8');
+    if (bytes > MAX_CTX_BYTES) {
+      fitted.ctx = { ctx_dropped: `ctx of ${bytes} bytes exceeded the ${MAX_CTX_BYTES} byte limit` };
+    }
+  }
+
+  const parsed = logEventSchema.safeParse(fitted);
+  if (!parsed.success) {
+    throw new ValidationError(`Invalid event data: ${parsed.error.message}`, 'INVALID_EVENT_DATA');
+  }
+  return fitted;
+}
+
 /**
  * Process log events for database insertion
  */
@@ -312,10 +377,10 @@ function getDayId(date: Date): number {
 }
 
 /**
- * Bulk insert processed log events
+ * Bulk insert processed log events, returning their ids in order
  */
-async function bulkInsertLogs(events: any[]): Promise<void> {
-  if (events.length === 0) return;
+async function bulkInsertLogs(events: any[]): Promise<number[]> {
+  if (events.length === 0) return [];
   
   const query = `
     INSERT INTO logs (project_id, ts, level, message, source, env, ctx_json, user_id, request_id, tags, fingerprint, day_id, created_at)
@@ -338,7 +403,22 @@ async function bulkInsertLogs(events: any[]): Promise<void> {
     event.created_at
   ]);
   
-  await executeBulkInsert(query, values);
+  return executeBulkInsertReturningIds('logs', query, values);
+}
+
+/**
+ * Evaluate alert rules for an ingested batch without delaying the response
+ */
+function triggerAlerts(project: AlertProject, events: AlertableEvent[], logger: any): void {
+  setImmediate(async () => {
+    try {
+      await processAlerts({ id: project.id, slug: project.slug, name: project.name }, events);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      logger.error({ error: errorMsg, projectId: project.id }, 'Alert processing failed');
+      // Don't throw - alert failures shouldn't affect log ingestion
+    }
+  });
 }
 
 /**
@@ -386,13 +466,29 @@ async function runMaintenanceTasks(logger: any): Promise<void> {
     // 3. Purge old logs beyond retention period
     const purgedLogs = await purgeOldLogs(appConfig.limits.retentionDays);
     
+    // 4. Alert on projects and sources that have gone quiet
+    const heartbeatAlerts = await checkHeartbeats();
+    
+    // 5. Prune old alert history
+    const prunedAlerts = await pruneAlertHistory();
+    
+    // 6. Send daily/weekly digests that have come due
+    const digestsSent = await sendDueDigests();
+    
+    // 7. Drop lapsed fingerprint mutes
+    const expiredMutes = await pruneExpiredMutes();
+    
     const duration = Date.now() - startTime;
     
     logger.info({
       duration,
       expiredCounters,
       expiredDbCounters,
-      purgedLogs
+      purgedLogs,
+      heartbeatAlerts,
+      prunedAlerts,
+      digestsSent,
+      expiredMutes
     }, 'Maintenance completed successfully');
     
   } catch (error) {
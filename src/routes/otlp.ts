@@ -0,0 +1,73 @@
+import type { FastifyPluginAsync } from 'fastify';
+import { createGunzip } from 'zlib';
+import { appConfig } from '@/config';
+import { authenticateProjectKey } from '@/middleware/auth';
+import { fitLogEvent, ingestLogEvents } from '@/routes/logs';
+import { decodeOtlpLogsProtobuf, otlpToLogEvents, type OtlpLogsRequest } from '@/services/otlp';
+import { ValidationError } from '@/types';
+
+const PROTOBUF_CONTENT_TYPE = 'application/x-protobuf';
+
+/**
+ * OpenTelemetry routes
+ * POST /v1/logs takes OTLP/HTTP log exports, so collectors can point their
+ * otlphttp exporter here with an X-Project-Key header
+ */
+export const otlpRoutes: FastifyPluginAsync = async (fastify) => {
+  fastify.addHook('preHandler', authenticateProjectKey);
+
+  fastify.addContentTypeParser(PROTOBUF_CONTENT_TYPE, { parseAs: 'buffer' }, (request, body, done) => {
+    done(null, body);
+  });
+
+  // Collectors gzip exports by default
+  fastify.addHook('preParsing', async (request, reply, payload) => {
+    const encoding = String(request.headers['content-encoding'] ?? 'identity').toLowerCase();
+    if (encoding === 'gzip') {
+      // Fastify compares receivedEncodedLength, not the inflated size, with Content-Length
+      const inflated = Object.assign(payload.pipe(createGunzip()), { receivedEncodedLength: 0 });
+      payload.on('data', (chunk: Buffer) => {
+        inflated.receivedEncodedLength += chunk.length;
+      });
+      return inflated;
+    }
+    if (encoding !== 'identity') {
+      throw new ValidationError(`Unsupported Content-Encoding: ${encoding}`, 'content-encoding', 'UNSUPPORTED_ENCODING');
+    }
+    return payload;
+  });
+
+  // POST /v1/logs - ExportLogsServiceRequest as protobuf or JSON
+  fastify.post('/logs', async (request, reply) => {
+    if (!request.project) {
+      throw new ValidationError('Project authentication required', 'PROJECT_REQUIRED');
+    }
+
+    const protobuf = Buffer.isBuffer(request.body);
+    const payload: OtlpLogsRequest = protobuf
+      ? decodeOtlpLogsProtobuf(request.body as Buffer)
+      : (request.body ?? {}) as OtlpLogsRequest;
+    const events = otlpToLogEvents(payload).map(fitLogEvent);
+
+    // Exports can exceed the POST /api/log batch size, so they are stored in slices
+    let processed = 0;
+    for (let start = 0; start < events.length; start += appConfig.limits.maxEventsPerPost) {
+      const batch = events.slice(start, start + appConfig.limits.maxEventsPerPost);
+      processed += await ingestLogEvents(request.project, batch, request.log);
+    }
+
+    request.log.info({
+      projectId: request.project.id,
+      received: events.length,
+      processed,
+      encoding: protobuf ? 'protobuf' : 'json'
+    }, 'OTLP log export processed');
+
+    // An empty ExportLogsServiceResponse means everything was accepted
+    return protobuf
+      ? reply.type(PROTOBUF_CONTENT_TYPE).send(Buffer.alloc(0))
+      : reply.send({});
+  });
+};
+
+export default otlpRoutes;
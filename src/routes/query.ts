@@ -1,4 +1,258 @@
-// Log query routes  
-// GET /logs, GET /logs/:id for searching and retrieving log events
+import type { FastifyPluginAsync } from 'fastify';
+import type { ZodError } from 'zod';
+import { authenticateProject } from '@/middleware/auth';
+import { getCtxColumns } from '@/services/ctxFields';
+import { EXPORT_CONTENT_TYPES, exportFileName, parseExportColumns, streamLogExport } from '@/services/export';
+import { getLogFacets } from '@/services/facets';
+import { getIssues } from '@/services/issues';
+import { getLogHistogram, resolveHistogramRange, resolveInterval } from '@/services/histogram';
+import { buildLogFilter, foldCtxParams, getLogById, getLogContext, groupLogs, searchLogs } from '@/services/search';
+import { openTailStream, resolveLastEventId } from '@/services/tail';
+import { getRequestTrace, type RequestTrace } from '@/services/trace';
+import {
+  exportQuerySchema,
+  facetQuerySchema,
+  histogramQuerySchema,
+  issueQuerySchema,
+  logContextQuerySchema,
+  logQuerySchema,
+  tailQuerySchema,
+  ValidationError,
+  type LogFacets,
+  type LogGroupResponse,
+  type LogHistogram,
+  type LogQueryResponse
+} from '@/types';
 
-export {}; // Placeholder - to be implemented
\ No newline at end of file
+/**
+ * Log query routes
+ * Project-scoped lookups for API key holders: GET /api/logs, GET /api/logs/histogram,
+ * GET /api/logs/facets, GET /api/logs/export, GET /api/logs/:id, GET /api/logs/:id/context, GET /api/issues, GET /api/trace/:requestId
+ * and the live GET /api/log/tail stream
+ * All routes require X-Project-Key and an X-Signature of the query string
+ */
+export const queryRoutes: FastifyPluginAsync = async (fastify) => {
+  fastify.addHook('preHandler', authenticateProject);
+
+  // GET /api/logs - Search the project's logs, or count them per group_by value
+  fastify.get('/logs', async (request, reply): Promise<LogQueryResponse | LogGroupResponse> => {
+    if (!request.project) {
+      throw new ValidationError('Project authentication required', 'PROJECT_REQUIRED');
+    }
+
+    const parsed = logQuerySchema.safeParse(foldCtxParams((request.query ?? {}) as Record<string, unknown>));
+    if (!parsed.success) {
+      throw invalidQuery(parsed.error);
+    }
+    const query = parsed.data;
+
+    if (query.group_by) {
+      return groupLogs(request.project.id, { ...query, group_by: query.group_by });
+    }
+
+    const { logs, total, next_cursor, prev_cursor } = await searchLogs(request.project.id, query);
+
+    return {
+      logs,
+      total,
+      limit: query.limit,
+      offset: query.cursor ? 0 : query.offset,
+      next_cursor,
+      prev_cursor
+    };
+  });
+
+  // GET /api/logs/histogram - Event counts per time bucket and level, with the search filters
+  fastify.get('/logs/histogram', async (request, reply): Promise<LogHistogram> => {
+    if (!request.project) {
+      throw new ValidationError('Project authentication required', 'PROJECT_REQUIRED');
+    }
+
+    const parsed = histogramQuerySchema.safeParse(foldCtxParams((request.query ?? {}) as Record<string, unknown>));
+    if (!parsed.success) {
+      throw invalidQuery(parsed.error);
+    }
+
+    const range = resolveHistogramRange(parsed.data.from, parsed.data.to);
+    const interval = resolveInterval(parsed.data.interval, range);
+    const filter = buildLogFilter(
+      request.project.id,
+      { ...parsed.data, from: range.from.toISOString(), to: range.to.toISOString() },
+      await getCtxColumns(request.project.id)
+    );
+
+    return getLogHistogram(filter, range, interval);
+  });
+
+  // GET /api/logs/facets - Top levels, envs, sources, tags and users under the search filters
+  fastify.get('/logs/facets', async (request, reply): Promise<LogFacets> => {
+    if (!request.project) {
+      throw new ValidationError('Project authentication required', 'PROJECT_REQUIRED');
+    }
+    const projectId = request.project.id;
+
+    const parsed = facetQuerySchema.safeParse(foldCtxParams((request.query ?? {}) as Record<string, unknown>));
+    if (!parsed.success) {
+      throw invalidQuery(parsed.error);
+    }
+    const { fields, limit, ...query } = parsed.data;
+
+    const range = resolveHistogramRange(query.from, query.to);
+    const ctxColumns = await getCtxColumns(projectId);
+    const search = { ...query, from: range.from.toISOString(), to: range.to.toISOString() };
+
+    const facets = await getLogFacets(
+      fields,
+      async field => buildLogFilter(projectId, { ...search, [field]: undefined }, ctxColumns),
+      limit
+    );
+
+    return { from: search.from, to: search.to, facets };
+  });
+
+  // GET /api/logs/export - Every matching log as NDJSON or CSV, streamed without a page limit
+  fastify.get('/logs/export', async (request, reply) => {
+    if (!request.project) {
+      throw new ValidationError('Project authentication required', 'PROJECT_REQUIRED');
+    }
+
+    const parsed = exportQuerySchema.safeParse(foldCtxParams((request.query ?? {}) as Record<string, unknown>));
+    if (!parsed.success) {
+      throw invalidQuery(parsed.error);
+    }
+    const { format, order } = parsed.data;
+    const columns = parseExportColumns(parsed.data.columns);
+
+    const filter = buildLogFilter(request.project.id, parsed.data, await getCtxColumns(request.project.id));
+    const stream = await streamLogExport(filter, { format, columns, order, scope: `project:${request.project.id}` });
+
+    return reply
+      .type(EXPORT_CONTENT_TYPES[format])
+      .header('Content-Disposition', `attachment; filename="${exportFileName(request.project.slug, format)}"`)
+      .send(stream);
+  });
+
+  // GET /api/log/tail - Server-Sent Events stream of newly ingested events matching the filters
+  fastify.get('/log/tail', async (request, reply) => {
+    if (!request.project) {
+      throw new ValidationError('Project authentication required', 'PROJECT_REQUIRED');
+    }
+
+    const parsed = tailQuerySchema.safeParse(request.query ?? {});
+    if (!parsed.success) {
+      throw invalidQuery(parsed.error);
+    }
+    const { rate, last_event_id, ...filter } = parsed.data;
+
+    await openTailStream(reply, {
+      filter: { ...filter, project_id: request.project.id },
+      rate,
+      lastEventId: resolveLastEventId(request.headers['last-event-id'], last_event_id)
+    });
+  });
+
+  // GET /api/logs/:id - A single event with its decoded ctx
+  fastify.get<{
+    Params: { id: string }
+  }>('/logs/:id', async (request, reply) => {
+    if (!request.project) {
+      throw new ValidationError('Project authentication required', 'PROJECT_REQUIRED');
+    }
+
+    const id = Number(request.params.id);
+    if (!Number.isSafeInteger(id) || id <= 0) {
+      throw new ValidationError('Invalid log ID', 'id', 'INVALID_LOG_ID');
+    }
+
+    const log = await getLogById(request.project.id, id);
+    if (!log) {
+      return reply.code(404).send({ error: 'Log not found', code: 'NOT_FOUND' });
+    }
+
+    return { log };
+  });
+
+  // GET /api/logs/:id/context - Events just before and after one, like grep -C
+  fastify.get<{
+    Params: { id: string }
+  }>('/logs/:id/context', async (request, reply) => {
+    if (!request.project) {
+      throw new ValidationError('Project authentication required', 'PROJECT_REQUIRED');
+    }
+
+    const id = Number(request.params.id);
+    if (!Number.isSafeInteger(id) || id <= 0) {
+      throw new ValidationError('Invalid log ID', 'id', 'INVALID_LOG_ID');
+    }
+
+    const parsed = logContextQuerySchema.safeParse(request.query ?? {});
+    if (!parsed.success) {
+      throw invalidQuery(parsed.error);
+    }
+
+    const context = await getLogContext(request.project.id, id, parsed.data);
+    if (!context) {
+      return reply.code(404).send({ error: 'Log not found', code: 'NOT_FOUND' });
+    }
+
+    return context;
+  });
+
+  // GET /api/issues - Logs grouped by fingerprint, most frequent or most recent first
+  fastify.get('/issues', async (request, reply) => {
+    if (!request.project) {
+      throw new ValidationError('Project authentication required', 'PROJECT_REQUIRED');
+    }
+
+    const parsed = issueQuerySchema.safeParse(foldCtxParams((request.query ?? {}) as Record<string, unknown>));
+    if (!parsed.success) {
+      throw invalidQuery(parsed.error);
+    }
+
+    const { issues, total, from, to } = await getIssues(request.project.id, parsed.data);
+    return { issues, total, from, to, limit: parsed.data.limit, offset: parsed.data.offset };
+  });
+
+  // GET /api/trace/:requestId - Every event of one request, oldest first
+  fastify.get<{
+    Params: { requestId: string };
+    Querystring: { limit?: string };
+  }>('/trace/:requestId', async (request, reply): Promise<RequestTrace> => {
+    if (!request.project) {
+      throw new ValidationError('Project authentication required', 'PROJECT_REQUIRED');
+    }
+
+    const requestId = request.params.requestId;
+    if (requestId.length === 0 || requestId.length > 64) {
+      throw new ValidationError('Invalid request ID', 'request_id', 'INVALID_REQUEST_ID');
+    }
+
+    const limit = parseTraceLimit(request.query.limit);
+    return getRequestTrace(requestId, [request.project.id], limit);
+  });
+};
+
+function invalidQuery(error: ZodError): ValidationError {
+  const issue = error.errors[0];
+  return new ValidationError(
+    `Invalid query parameter ${issue?.path.join('.') ?? ''}: ${issue?.message ?? 'invalid value'}`,
+    issue?.path.join('.'),
+    'INVALID_QUERY'
+  );
+}
+
+/**
+ * Events returned per trace: default 1000, at most 5000
+ */
+function parseTraceLimit(value: string | undefined): number {
+  if (value === undefined) {
+    return 1000;
+  }
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new ValidationError('Invalid limit', 'limit', 'INVALID_QUERY');
+  }
+  return Math.min(limit, 5000);
+}
+
+export default queryRoutes;
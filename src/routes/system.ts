@@ -1,7 +1,9 @@
 import type { FastifyPluginAsync } from 'fastify';
 import { appConfig } from '@/config';
 import { testConnection, executeQuerySingle } from '@/services/database';
+import { authenticateProject } from '@/middleware/auth';
 import { getRateLimitStatus } from '@/middleware/rateLimit';
+import { getLogTotals } from '@/services/stats';
 
 /**
  * System health and status routes plugin
@@ -78,18 +80,7 @@ const systemRoutes: FastifyPluginAsync = async (fastify) => {
     try {
       // Get total log count (last 24 hours)
       const dayId = getCurrentDayId();
-      const logStats = await executeQuerySingle<{
-        total_logs: number;
-        total_projects: number;
-        total_errors: number;
-      }>(`
-        SELECT 
-          COUNT(*) as total_logs,
-          COUNT(DISTINCT project_id) as total_projects,
-          SUM(CASE WHEN level IN ('error', 'fatal') THEN 1 ELSE 0 END) as total_errors
-        FROM logs 
-        WHERE day_id >= ?
-      `, [dayId]);
+      const logStats = await getLogTotals({ fromDayId: dayId });
 
       stats.logs = {
         last24h: logStats?.total_logs || 0,
@@ -116,7 +107,7 @@ const systemRoutes: FastifyPluginAsync = async (fastify) => {
   });
 
   // GET /api/projects - List projects (authenticated)
-  fastify.get('/projects', async (request, reply) => {
+  fastify.get('/projects', { preHandler: authenticateProject }, async (request, reply) => {
     // Only return current project info for authenticated requests
     if (!request.project) {
       throw new Error('Authentication required');
@@ -1,4 +1,890 @@
-// Discord alert service
-// Handles Discord webhook notifications and alert throttling
+/**
+ * Alert service
+ * Tracks per-fingerprint and per-project activity during ingestion and notifies
+ * the project's channels when its alert thresholds are crossed
+ */
 
-export {}; // Placeholder - to be implemented
\ No newline at end of file
+import { appConfig } from '@/config';
+import { executeQuery, executeQuerySingle } from '@/services/database';
+import {
+  meetsMinLevel,
+  renderPayload,
+  sendToChannel,
+  type AlertNotification,
+  type ChannelDeliveryResult,
+  type ChannelTarget
+} from '@/services/channels';
+import { compileRuleMatch } from '@/services/rules';
+import { getSavedSearchUrl, matchSavedSearchBatch, parseFilters } from '@/services/savedSearches';
+import type { DigestReport } from '@/services/digest';
+import type {
+  AlertRule,
+  AlertRuleMatch,
+  AlertSettings,
+  CustomAlertRule,
+  LogLevel,
+  NotificationChannel,
+  SavedSearch
+} from '@/types';
+
+// Only these levels feed alert tracking - debug/info volume should never page anyone
+const ALERTABLE_LEVELS: LogLevel[] = ['warn', 'error', 'fatal'];
+
+// Levels counted towards the project-wide error rate
+const ERROR_LEVELS: LogLevel[] = ['error', 'fatal'];
+
+const LEVEL_ORDER: LogLevel[] = ['debug', 'info', 'warn', 'error', 'fatal'];
+
+// Silence alerts and the recovery notices that close them
+const SILENCE_ALERT_LEVEL: LogLevel = 'warn';
+
+// Synthetic tracker keys for project-level rules stored alongside fingerprints
+const ERROR_RATE_KEY = 'rule:error_rate';
+const CUSTOM_RULE_KEY_PREFIX = 'rule:custom:';
+
+/**
+ * Processed log event as produced by the ingestion path
+ */
+export interface AlertableEvent {
+  id: number;
+  ts: Date;
+  level: string;
+  message: string;
+  source: string;
+  env: string;
+  tags: string | null;
+  fingerprint: string;
+  context: Record<string, unknown> | null;
+  user_id: string | null;
+  request_id: string | null;
+}
+
+export interface AlertProject {
+  id: number;
+  slug: string;
+  name: string;
+}
+
+type AlertContent = Omit<AlertNotification, 'rule' | 'project'>;
+
+// Only the legacy webhook column is needed to resolve channels
+type ChannelSettings = { discord_webhook?: string | null };
+
+/**
+ * Load alert settings for a project
+ */
+export async function getAlertSettings(projectId: number): Promise<AlertSettings | null> {
+  return executeQuerySingle<AlertSettings>(`
+    SELECT
+      project_id, enabled, discord_webhook, spike_n, spike_window_sec,
+      error_rate_n, error_rate_window_sec, heartbeat_grace_sec, heartbeat_sources,
+      cooldown_sec, new_issue_enabled, digest_frequency, digest_hour, last_digest_at,
+      created_at, updated_at
+    FROM alert_settings
+    WHERE project_id = ?
+  `, [projectId]);
+}
+
+/**
+ * Evaluate alert rules for a freshly ingested batch
+ * Called from the ingestion path after the batch has been stored
+ */
+export async function processAlerts(project: AlertProject, events: AlertableEvent[]): Promise<void> {
+  if (events.length === 0) {
+    return;
+  }
+
+  // Known fingerprints are recorded even while alerts are off, so enabling
+  // alerts later doesn't report every existing issue as new
+  const firstSeen = await registerFingerprints(
+    project,
+    events.filter(event => ALERTABLE_LEVELS.includes(event.level as LogLevel))
+  );
+
+  // Mute counters advance regardless of settings so count-based mutes stay accurate
+  const muted = await applyMutes(project, events);
+
+  const settings = await getAlertSettings(project.id);
+  if (!settings || !settings.enabled) {
+    return;
+  }
+
+  // Every level counts as a sign of life, muted or not
+  await recordHeartbeat(project, settings, events);
+
+  const unmuted = events.filter(event => !muted.has(event.fingerprint));
+  const alertable = unmuted.filter(event => ALERTABLE_LEVELS.includes(event.level as LogLevel));
+
+  // Custom rules pick their own levels, so they see the whole batch
+  await checkCustomRules(project, settings, unmuted);
+
+  if (alertable.length === 0) {
+    return;
+  }
+
+  await checkSpikeAlerts(project, settings, alertable);
+  await checkErrorRateAlert(project, settings, alertable, muted);
+
+  if (settings.new_issue_enabled) {
+    await sendNewIssueAlerts(project, settings, firstSeen.filter(event => !muted.has(event.fingerprint)));
+  }
+}
+
+/**
+ * Advance the counters of muted fingerprints in this batch and return every
+ * fingerprint of the project that is still muted afterwards
+ */
+async function applyMutes(project: AlertProject, events: AlertableEvent[]): Promise<Set<string>> {
+  const now = new Date();
+  const mutes = await executeQuery<{ fingerprint: string; until_count: number | null; seen_count: number }>(`
+    SELECT fingerprint, until_count, seen_count
+    FROM fingerprint_mutes
+    WHERE project_id = ?
+      AND (muted_until IS NULL OR muted_until > ?)
+      AND (until_count IS NULL OR seen_count < until_count)
+  `, [project.id, now]);
+
+  if (mutes.length === 0) {
+    return new Set();
+  }
+
+  const batchCounts = new Map<string, number>();
+  for (const event of events) {
+    batchCounts.set(event.fingerprint, (batchCounts.get(event.fingerprint) ?? 0) + 1);
+  }
+
+  const muted = new Set<string>();
+  for (const mute of mutes) {
+    const added = batchCounts.get(mute.fingerprint) ?? 0;
+    if (added > 0) {
+      await executeQuery(`
+        UPDATE fingerprint_mutes
+        SET seen_count = seen_count + ?
+        WHERE project_id = ? AND fingerprint = ?
+      `, [added, project.id, mute.fingerprint]);
+    }
+
+    // The batch that reaches until_count is the first to alert again
+    if (mute.until_count === null || mute.seen_count + added < mute.until_count) {
+      muted.add(mute.fingerprint);
+    }
+  }
+
+  return muted;
+}
+
+/**
+ * Record warn+ fingerprints in project_fingerprints
+ * Returns the first occurrence of each fingerprint this batch introduced
+ */
+async function registerFingerprints(project: AlertProject, events: AlertableEvent[]): Promise<AlertableEvent[]> {
+  if (events.length === 0) {
+    return [];
+  }
+
+  // First occurrence per fingerprint within the batch
+  const firstByFingerprint = new Map<string, AlertableEvent>();
+  for (const event of events) {
+    const current = firstByFingerprint.get(event.fingerprint);
+    if (!current || event.ts < current.ts) {
+      firstByFingerprint.set(event.fingerprint, event);
+    }
+  }
+
+  const fingerprints = [...firstByFingerprint.keys()];
+  const known = await executeQuery<{ fingerprint: string }>(`
+    SELECT fingerprint FROM project_fingerprints
+    WHERE project_id = ? AND fingerprint IN (${fingerprints.map(() => '?').join(', ')})
+  `, [project.id, ...fingerprints]);
+  const knownSet = new Set(known.map(row => row.fingerprint));
+
+  const firstSeen: AlertableEvent[] = [];
+  for (const [fingerprint, event] of firstByFingerprint) {
+    if (knownSet.has(fingerprint)) {
+      continue;
+    }
+
+    // INSERT IGNORE doubles as the claim - only one concurrent batch gets affectedRows = 1
+    const result = await executeQuery(`
+      INSERT IGNORE INTO project_fingerprints (project_id, fingerprint, first_seen)
+      VALUES (?, ?, ?)
+    `, [project.id, fingerprint, event.ts]);
+
+    if (((result as any).affectedRows ?? 0) > 0) {
+      firstSeen.push(event);
+    }
+  }
+
+  return firstSeen;
+}
+
+/**
+ * "New issue" notification for fingerprints seen for the first time
+ */
+async function sendNewIssueAlerts(
+  project: AlertProject,
+  settings: AlertSettings,
+  events: AlertableEvent[]
+): Promise<void> {
+  for (const event of events) {
+    const searchLink = buildSearchLink(project.id, { fingerprint: event.fingerprint });
+    const fields = [
+      { name: 'Project', value: project.name, inline: true },
+      { name: 'Level', value: event.level.toUpperCase(), inline: true },
+      { name: 'Source', value: event.source, inline: true },
+      { name: 'Env', value: event.env, inline: true },
+      { name: 'Fingerprint', value: event.fingerprint, inline: true }
+    ];
+
+    const ctxSummary = summarizeContext(event.context);
+    if (ctxSummary) {
+      fields.push({ name: 'Context', value: ctxSummary, inline: false });
+    }
+
+    await deliverAlert(project, settings, 'new_issue', event.fingerprint, {
+      level: event.level as LogLevel,
+      title: `🆕 New issue: ${truncate(event.message, 200)}`,
+      description: truncate(event.message, 1024),
+      url: searchLink,
+      fields,
+      timestamp: event.ts.toISOString()
+    });
+  }
+}
+
+/**
+ * Spike detection: one fingerprint reaching spike_n events within spike_window_sec
+ */
+async function checkSpikeAlerts(
+  project: AlertProject,
+  settings: AlertSettings,
+  events: AlertableEvent[]
+): Promise<void> {
+  const now = new Date();
+  const windowCutoff = new Date(now.getTime() - settings.spike_window_sec * 1000);
+  const cooldownCutoff = getCooldownCutoff(settings, now);
+
+  for (const [fingerprint, group] of groupByFingerprint(events)) {
+    const count = await countInWindow(project.id, fingerprint, group.count, now, windowCutoff);
+    if (count < settings.spike_n) {
+      continue;
+    }
+
+    if (!await claimWindowAlert(project.id, fingerprint, now, cooldownCutoff)) {
+      continue; // Already alerted in this window or still cooling down
+    }
+
+    const sample = group.latest;
+    const searchLink = buildSearchLink(project.id, { fingerprint });
+    await deliverAlert(project, settings, 'spike', fingerprint, {
+      level: sample.level as LogLevel,
+      title: `🚨 Spike: ${count} × ${sample.level.toUpperCase()} in ${settings.spike_window_sec}s`,
+      description: truncate(sample.message, 1024),
+      url: searchLink,
+      fields: [
+        { name: 'Project', value: project.name, inline: true },
+        { name: 'Source', value: sample.source, inline: true },
+        { name: 'Env', value: sample.env, inline: true },
+        { name: 'Count', value: `${count} (threshold ${settings.spike_n})`, inline: true },
+        { name: 'Fingerprint', value: fingerprint, inline: true }
+      ],
+      timestamp: sample.ts.toISOString()
+    });
+  }
+}
+
+/**
+ * Custom rules: a rule fires once `threshold` matching events arrive within
+ * its window, delivered to the rule's channel or to all project channels
+ */
+async function checkCustomRules(
+  project: AlertProject,
+  settings: AlertSettings,
+  events: AlertableEvent[]
+): Promise<void> {
+  if (events.length === 0) {
+    return;
+  }
+
+  // Rules following a saved search of another project find no search and are skipped
+  const rules = await executeQuery<CustomAlertRule & {
+    search_short_id: string | null;
+    search_query: string | null;
+    search_filters: SavedSearch['filters_json'];
+  }>(`
+    SELECT r.id, r.name, r.match_json, r.saved_search_id, r.threshold, r.window_sec, r.channel_id,
+      s.short_id AS search_short_id, s.query AS search_query, s.filters_json AS search_filters
+    FROM alert_rules r
+    LEFT JOIN saved_searches s ON s.id = r.saved_search_id AND s.project_id = r.project_id
+    WHERE r.project_id = ? AND r.enabled = 1
+    ORDER BY r.id
+  `, [project.id]);
+
+  if (rules.length === 0) {
+    return;
+  }
+
+  const now = new Date();
+  const cooldownCutoff = getCooldownCutoff(settings, now);
+  let projectChannels: ChannelTarget[] | null = null;
+
+  // Saved searches run in SQL on the stored rows of the batch
+  const ids = events.map(event => event.id);
+
+  for (const rule of rules) {
+    let match: AlertRuleMatch = {};
+    let matched: AlertableEvent[];
+    if (rule.saved_search_id) {
+      if (!rule.search_short_id) {
+        continue;
+      }
+      const matches = await matchSavedSearchBatch(
+        project.id,
+        { query: rule.search_query, filters: parseFilters(rule.search_filters) },
+        ids
+      );
+      matched = events.filter(event => matches.has(event.id));
+    } else {
+      match = typeof rule.match_json === 'string' ? JSON.parse(rule.match_json) : rule.match_json ?? {};
+      const matches = compileRuleMatch(match);
+      matched = events.filter(event => matches(event));
+    }
+
+    if (matched.length === 0) {
+      continue;
+    }
+
+    const ruleKey = `${CUSTOM_RULE_KEY_PREFIX}${rule.id}`;
+    const windowCutoff = new Date(now.getTime() - rule.window_sec * 1000);
+    const count = await countInWindow(project.id, ruleKey, matched.length, now, windowCutoff);
+    if (count < rule.threshold) {
+      continue;
+    }
+
+    if (!await claimWindowAlert(project.id, ruleKey, now, cooldownCutoff)) {
+      continue;
+    }
+
+    projectChannels ??= await resolveChannels(project.id, settings);
+    const channels = rule.channel_id
+      ? projectChannels.filter(channel => channel.id === rule.channel_id)
+      : projectChannels;
+
+    const sample = matched.reduce((latest, event) => (event.ts >= latest.ts ? event : latest));
+    const level = matched.reduce<LogLevel>((highest, event) => (
+      LEVEL_ORDER.indexOf(event.level as LogLevel) > LEVEL_ORDER.indexOf(highest) ? event.level as LogLevel : highest
+    ), 'debug');
+
+    const filters: Record<string, string> = {};
+    if (match.level?.length === 1 && match.level[0]) {
+      filters.level = match.level[0];
+    }
+    if (match.env) {
+      filters.env = match.env;
+    }
+
+    await deliverAlert(project, settings, 'custom', ruleKey, {
+      level,
+      title: rule.threshold === 1
+        ? `📏 ${rule.name}: ${truncate(sample.message, 200)}`
+        : `📏 ${rule.name}: ${count} matching events in ${rule.window_sec}s`,
+      description: truncate(sample.message, 1024),
+      url: rule.search_short_id ? getSavedSearchUrl(rule.search_short_id) : buildSearchLink(project.id, filters),
+      fields: [
+        { name: 'Project', value: project.name, inline: true },
+        { name: 'Rule', value: rule.name, inline: true },
+        { name: 'Count', value: `${count} (threshold ${rule.threshold})`, inline: true },
+        { name: 'Source', value: sample.source, inline: true },
+        { name: 'Env', value: sample.env, inline: true }
+      ],
+      timestamp: sample.ts.toISOString()
+    }, { channels, ignoreMinLevel: Boolean(rule.channel_id) });
+  }
+}
+
+/**
+ * Error-rate detection: error_rate_n error/fatal events within a sliding
+ * error_rate_window_sec, regardless of fingerprint
+ */
+async function checkErrorRateAlert(
+  project: AlertProject,
+  settings: AlertSettings,
+  events: AlertableEvent[],
+  muted: Set<string>
+): Promise<void> {
+  // Nothing new can push the rate over the threshold without an error in this batch
+  if (!events.some(event => ERROR_LEVELS.includes(event.level as LogLevel))) {
+    return;
+  }
+
+  const now = new Date();
+  const windowStart = new Date(now.getTime() - settings.error_rate_window_sec * 1000);
+
+  // Muted fingerprints don't count towards the rate
+  const mutedList = [...muted];
+  const mutedFilter = mutedList.length > 0
+    ? `AND (fingerprint IS NULL OR fingerprint NOT IN (${mutedList.map(() => '?').join(', ')}))`
+    : '';
+
+  const result = await executeQuerySingle<{ count: number }>(`
+    SELECT COUNT(*) AS count
+    FROM logs
+    WHERE project_id = ? AND level IN ('error', 'fatal') AND ts >= ? ${mutedFilter}
+  `, [project.id, windowStart, ...mutedList]);
+
+  const count = Number(result?.count ?? 0);
+  if (count < settings.error_rate_n) {
+    return;
+  }
+
+  // At most one error-rate alert per window, and never within the cooldown
+  const cooldownCutoff = getCooldownCutoff(settings, now);
+  const since = cooldownCutoff < windowStart ? cooldownCutoff : windowStart;
+  if (!await claimRuleAlert(project.id, ERROR_RATE_KEY, count, now, since)) {
+    return;
+  }
+
+  const topFingerprints = await executeQuery<{ fingerprint: string; message: string; count: number }>(`
+    SELECT fingerprint, MAX(message) AS message, COUNT(*) AS count
+    FROM logs
+    WHERE project_id = ? AND level IN ('error', 'fatal') AND ts >= ? ${mutedFilter}
+    GROUP BY fingerprint
+    ORDER BY count DESC
+    LIMIT 3
+  `, [project.id, windowStart, ...mutedList]);
+
+  const searchLink = buildSearchLink(project.id, { level: 'error' });
+  await deliverAlert(project, settings, 'error_rate', ERROR_RATE_KEY, {
+    level: 'error',
+    title: `🔥 Error rate: ${count} errors in ${settings.error_rate_window_sec}s`,
+    description: topFingerprints
+      .map(row => `• ${row.count}× ${truncate(row.message, 200)}`)
+      .join('\n'),
+    url: searchLink,
+    fields: [
+      { name: 'Project', value: project.name, inline: true },
+      { name: 'Count', value: `${count} (threshold ${settings.error_rate_n})`, inline: true },
+      { name: 'Window', value: `${settings.error_rate_window_sec}s`, inline: true }
+    ],
+    timestamp: now.toISOString()
+  });
+}
+
+/**
+ * Update heartbeat state for the project and any watched sources in the batch,
+ * sending a recovery notice for those that had been reported silent
+ */
+async function recordHeartbeat(
+  project: AlertProject,
+  settings: AlertSettings,
+  events: AlertableEvent[]
+): Promise<void> {
+  const now = new Date();
+  const watched = parseHeartbeatSources(settings.heartbeat_sources);
+  const sources = ['', ...new Set(events.map(event => event.source).filter(source => watched.includes(source)))];
+
+  for (const source of sources) {
+    const previous = await executeQuerySingle<{ silent_since: Date | null }>(`
+      SELECT silent_since FROM heartbeat_state
+      WHERE project_id = ? AND source = ?
+    `, [project.id, source]);
+
+    await executeQuery(`
+      INSERT INTO heartbeat_state (project_id, source, last_seen)
+      VALUES (?, ?, ?)
+      ON DUPLICATE KEY UPDATE last_seen = VALUES(last_seen)
+    `, [project.id, source, now]);
+
+    if (!previous?.silent_since) {
+      continue;
+    }
+
+    // Clear the silence flag atomically so only one batch announces the recovery
+    const claim = await executeQuery(`
+      UPDATE heartbeat_state
+      SET silent_since = NULL
+      WHERE project_id = ? AND source = ? AND silent_since IS NOT NULL
+    `, [project.id, source]);
+
+    if (((claim as any).affectedRows ?? 0) === 0) {
+      continue;
+    }
+
+    const silentFor = Math.round((now.getTime() - new Date(previous.silent_since).getTime()) / 1000);
+    const searchLink = buildSearchLink(project.id);
+    // Same level as the silence alert, so the channels that got it hear the all-clear too
+    await deliverAlert(project, settings, 'recovery', source || null, {
+      level: SILENCE_ALERT_LEVEL,
+      title: `✅ Recovered: ${source || project.name} is logging again`,
+      description: `Logs resumed after roughly ${formatDuration(silentFor)} of silence.`,
+      url: searchLink,
+      fields: [
+        { name: 'Project', value: project.name, inline: true },
+        { name: 'Source', value: source || 'all sources', inline: true }
+      ],
+      timestamp: now.toISOString()
+    });
+  }
+}
+
+/**
+ * Notify that a project (or a watched source) has gone quiet
+ * Called by maintenance once it has claimed the silence for this target
+ */
+export async function sendSilenceAlert(
+  project: AlertProject,
+  settings: { discord_webhook?: string | null; heartbeat_grace_sec: number },
+  source: string,
+  lastSeen: Date
+): Promise<ChannelDeliveryResult[]> {
+  const silentFor = Math.round((Date.now() - lastSeen.getTime()) / 1000);
+  const searchLink = buildSearchLink(project.id);
+
+  return deliverAlert(project, settings, 'heartbeat', source || null, {
+    level: SILENCE_ALERT_LEVEL,
+    title: `🔕 Silence: ${source || project.name} stopped logging`,
+    description: `No logs received for ${formatDuration(silentFor)} (grace period ${formatDuration(settings.heartbeat_grace_sec)}).`,
+    url: searchLink,
+    fields: [
+      { name: 'Project', value: project.name, inline: true },
+      { name: 'Source', value: source || 'all sources', inline: true },
+      { name: 'Last seen', value: lastSeen.toISOString(), inline: true }
+    ],
+    timestamp: new Date().toISOString()
+  });
+}
+
+/**
+ * Deliver a digest report
+ * Digests go to every channel regardless of its minimum level - they are the
+ * summary people asked for, not a page
+ */
+export async function sendDigestAlert(
+  project: AlertProject,
+  settings: { discord_webhook?: string | null },
+  report: DigestReport
+): Promise<ChannelDeliveryResult[]> {
+  const periodName = report.period === 'weekly' ? 'Weekly' : 'Daily';
+  const periodDays = report.period === 'weekly' ? 7 : 1;
+
+  let description = `${report.from.toISOString().slice(0, 16).replace('T', ' ')} – ${report.to.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+  if (report.retention_days < periodDays) {
+    description += `\nLogs are kept for ${report.retention_days} day(s), so older events in this period are no longer counted.`;
+  }
+
+  const fields = [
+    { name: 'Events', value: report.totals.events.toLocaleString('en-US'), inline: true },
+    { name: 'Errors', value: `${report.totals.errors.toLocaleString('en-US')} (${report.totals.error_rate}%)`, inline: true },
+    { name: 'New issues', value: report.new_fingerprints.total.toString(), inline: true }
+  ];
+
+  if (report.top_fingerprints.length > 0) {
+    fields.push({
+      name: 'Top issues',
+      value: report.top_fingerprints
+        .map(row => `${row.count}× [${row.level.toUpperCase()}] ${truncate(row.message, 120)}`)
+        .join('\n'),
+      inline: false
+    });
+  }
+
+  if (report.new_fingerprints.samples.length > 0) {
+    fields.push({
+      name: 'New this period',
+      value: report.new_fingerprints.samples
+        .map(row => truncate(row.message ?? row.fingerprint, 120))
+        .join('\n'),
+      inline: false
+    });
+  }
+
+  if (report.busiest_sources.length > 0) {
+    fields.push({
+      name: 'Busiest sources',
+      value: report.busiest_sources
+        .map(row => `${row.source}: ${row.count.toLocaleString('en-US')} (${row.errors} errors)`)
+        .join('\n'),
+      inline: false
+    });
+  }
+
+  if (report.saved_searches.length > 0) {
+    fields.push({
+      name: 'Saved searches',
+      value: report.saved_searches
+        .map(row => `${truncate(row.name, 80)}: ${row.count.toLocaleString('en-US')} (${row.url})`)
+        .join('\n'),
+      inline: false
+    });
+  }
+
+  return deliverAlert(project, settings, 'digest', report.period, {
+    level: 'info',
+    title: `📊 ${periodName} digest: ${project.name}`,
+    description,
+    url: buildSearchLink(project.id),
+    fields,
+    timestamp: report.to.toISOString()
+  }, { ignoreMinLevel: true });
+}
+
+/**
+ * Split the comma-separated heartbeat_sources setting
+ */
+export function parseHeartbeatSources(value: string | null | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  return value.split(',').map(source => source.trim()).filter(source => source.length > 0);
+}
+
+/**
+ * Add events to a tracker's fixed window and return the count so far
+ * A new window starts when the previous one has expired
+ */
+async function countInWindow(
+  projectId: number,
+  key: string,
+  added: number,
+  now: Date,
+  windowCutoff: Date
+): Promise<number> {
+  await executeQuery(`
+    INSERT INTO fingerprint_trackers (project_id, fingerprint, last_seen, window_start, count_1m)
+    VALUES (?, ?, ?, ?, ?)
+    ON DUPLICATE KEY UPDATE
+      count_1m = IF(window_start IS NULL OR window_start < ?, VALUES(count_1m), count_1m + VALUES(count_1m)),
+      window_start = IF(window_start IS NULL OR window_start < ?, VALUES(window_start), window_start),
+      last_seen = VALUES(last_seen)
+  `, [projectId, key, now, now, added, windowCutoff, windowCutoff]);
+
+  const tracker = await executeQuerySingle<{ count_1m: number }>(`
+    SELECT count_1m FROM fingerprint_trackers
+    WHERE project_id = ? AND fingerprint = ?
+  `, [projectId, key]);
+
+  return tracker?.count_1m ?? 0;
+}
+
+/**
+ * Claim a windowed alert atomically so concurrent batches don't double-post:
+ * at most once per window, and never within the cooldown
+ */
+async function claimWindowAlert(projectId: number, key: string, now: Date, cooldownCutoff: Date): Promise<boolean> {
+  const claim = await executeQuery(`
+    UPDATE fingerprint_trackers
+    SET last_alert = ?
+    WHERE project_id = ? AND fingerprint = ?
+      AND (last_alert IS NULL OR last_alert < LEAST(window_start, ?))
+  `, [now, projectId, key, cooldownCutoff]);
+
+  return ((claim as any).affectedRows ?? 0) > 0;
+}
+
+/**
+ * Record a project-level rule evaluation in fingerprint_trackers and claim the
+ * right to alert if it hasn't alerted since `since`
+ */
+async function claimRuleAlert(
+  projectId: number,
+  ruleKey: string,
+  count: number,
+  now: Date,
+  since: Date
+): Promise<boolean> {
+  await executeQuery(`
+    INSERT INTO fingerprint_trackers (project_id, fingerprint, last_seen, count_1m)
+    VALUES (?, ?, ?, ?)
+    ON DUPLICATE KEY UPDATE last_seen = VALUES(last_seen), count_1m = VALUES(count_1m)
+  `, [projectId, ruleKey, now, count]);
+
+  const claim = await executeQuery(`
+    UPDATE fingerprint_trackers
+    SET last_alert = ?
+    WHERE project_id = ? AND fingerprint = ?
+      AND (last_alert IS NULL OR last_alert < ?)
+  `, [now, projectId, ruleKey, since]);
+
+  return ((claim as any).affectedRows ?? 0) > 0;
+}
+
+/**
+ * Resolve where a project's alerts go: its enabled notification channels plus
+ * the legacy alert_settings.discord_webhook, falling back to the global
+ * DISCORD_WEBHOOK_URL when the project has neither
+ */
+export async function resolveChannels(projectId: number, settings: ChannelSettings | null): Promise<ChannelTarget[]> {
+  const rows = await executeQuery<NotificationChannel>(`
+    SELECT id, name, type, config_json, min_level
+    FROM notification_channels
+    WHERE project_id = ? AND enabled = 1
+    ORDER BY id
+  `, [projectId]);
+
+  const channels: ChannelTarget[] = rows.map(row => ({
+    id: row.id,
+    name: row.name,
+    type: row.type,
+    config: typeof row.config_json === 'string' ? JSON.parse(row.config_json) : row.config_json,
+    min_level: row.min_level
+  }));
+
+  // The legacy column predates per-channel levels and has always received every alert
+  const legacyWebhook = settings?.discord_webhook || (channels.length === 0 ? appConfig.external.discordWebhook : undefined);
+  if (legacyWebhook) {
+    channels.push({
+      id: null,
+      name: 'discord_webhook',
+      type: 'discord',
+      config: { webhook_url: legacyWebhook },
+      min_level: 'debug'
+    });
+  }
+
+  return channels;
+}
+
+/**
+ * Deliver an alert to every channel whose minimum level it meets and record
+ * one alert_history row per attempt
+ */
+async function deliverAlert(
+  project: AlertProject,
+  settings: ChannelSettings,
+  rule: AlertRule,
+  target: string | null,
+  content: AlertContent,
+  options: { channels?: ChannelTarget[]; ignoreMinLevel?: boolean } = {}
+): Promise<ChannelDeliveryResult[]> {
+  const notification: AlertNotification = { ...content, rule, project };
+  const channels = (options.channels ?? await resolveChannels(project.id, settings))
+    .filter(channel => options.ignoreMinLevel || meetsMinLevel(notification.level, channel.min_level));
+
+  const results: ChannelDeliveryResult[] = [];
+  for (const channel of channels) {
+    const result = await sendToChannel(channel, notification);
+    results.push(result);
+
+    try {
+      await executeQuery(`
+        INSERT INTO alert_history (
+          project_id, rule, target, channel, channel_id, payload_json, status,
+          response_status, response_body, error, created_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        project.id,
+        rule,
+        target,
+        channel.type,
+        channel.id,
+        JSON.stringify(renderPayload(channel.type, notification)),
+        result.success ? 'sent' : 'failed',
+        result.status ?? null,
+        result.response?.substring(0, 1024) ?? null,
+        result.error?.substring(0, 255) ?? null,
+        new Date()
+      ]);
+    } catch (error) {
+      // History is best-effort - never lose the alert itself over it
+      console.error('Failed to record alert history:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Earliest last_alert that is outside the cooldown period
+ */
+function getCooldownCutoff(settings: Pick<AlertSettings, 'cooldown_sec'>, now: Date): Date {
+  return new Date(now.getTime() - settings.cooldown_sec * 1000);
+}
+
+/**
+ * Send a sample notification so admins can verify their channels
+ * Goes to every given channel regardless of its minimum level
+ */
+export async function sendTestAlert(
+  project: AlertProject,
+  channels: ChannelTarget[]
+): Promise<ChannelDeliveryResult[]> {
+  const searchLink = buildSearchLink(project.id);
+
+  return deliverAlert(project, {}, 'test', null, {
+    level: 'info',
+    title: '🧪 Test alert',
+    description: `Alerts for ${project.name} are delivered to this channel.`,
+    url: searchLink,
+    fields: [
+      { name: 'Project', value: project.name, inline: true },
+      { name: 'Slug', value: project.slug, inline: true }
+    ],
+    timestamp: new Date().toISOString()
+  }, { channels, ignoreMinLevel: true });
+}
+
+/**
+ * Build a dashboard link to a pre-filtered log search
+ */
+export function buildSearchLink(projectId: number, filters: Record<string, string> = {}): string {
+  const params = new URLSearchParams({ tab: 'search', project_id: projectId.toString(), ...filters });
+  return `${appConfig.server.publicUrl}/?${params.toString()}`;
+}
+
+/**
+ * Group events by fingerprint, keeping the count and most recent occurrence
+ */
+function groupByFingerprint(events: AlertableEvent[]): Map<string, { count: number; latest: AlertableEvent }> {
+  const groups = new Map<string, { count: number; latest: AlertableEvent }>();
+
+  for (const event of events) {
+    const group = groups.get(event.fingerprint);
+    if (!group) {
+      groups.set(event.fingerprint, { count: 1, latest: event });
+      continue;
+    }
+    group.count++;
+    if (event.ts >= group.latest.ts) {
+      group.latest = event;
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Compact summary of the top-level ctx keys (stack reduced to its first line)
+ */
+function summarizeContext(context: Record<string, unknown> | null): string | null {
+  if (!context) {
+    return null;
+  }
+
+  const lines = Object.entries(context).slice(0, 8).map(([key, value]) => {
+    const rendered = key === 'stack' && typeof value === 'string'
+      ? value.split('\n')[0] ?? ''
+      : typeof value === 'string' ? value : JSON.stringify(value);
+    return `${key}: ${truncate(rendered ?? 'undefined', 80)}`;
+  });
+
+  if (lines.length === 0) {
+    return null;
+  }
+
+  return lines.join('\n');
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 120) {
+    return `${seconds}s`;
+  }
+  if (seconds < 7200) {
+    return `${Math.round(seconds / 60)}m`;
+  }
+  return `${Math.round(seconds / 3600)}h`;
+}
+
+function truncate(value: string, maxLength: number): string {
+  return value.length > maxLength ? `${value.slice(0, maxLength - 1)}…` : value;
+}
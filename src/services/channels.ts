@@ -0,0 +1,351 @@
+/**
+ * Notification channels
+ * Renders channel-neutral alert notifications for Discord, Slack, generic JSON
+ * webhooks and email, and delivers them
+ */
+
+import { createHmac } from 'crypto';
+import { appConfig } from '@/config';
+import { sendMail } from '@/services/smtp';
+import {
+  discordChannelConfigSchema,
+  slackChannelConfigSchema,
+  webhookChannelConfigSchema,
+  emailChannelConfigSchema,
+  type AlertRule,
+  type LogLevel,
+  type NotificationChannelType
+} from '@/types';
+
+const LEVEL_ORDER: LogLevel[] = ['debug', 'info', 'warn', 'error', 'fatal'];
+
+// Discord embed colours per level
+const LEVEL_COLORS: Record<string, number> = {
+  debug: 0x95a5a6,
+  info: 0x3498db,
+  warn: 0xf1c40f,
+  error: 0xe74c3c,
+  fatal: 0x8e44ad
+};
+const RECOVERY_COLOR = 0x2ecc71;
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * Channel-neutral alert content
+ */
+export interface AlertNotification {
+  rule: AlertRule;
+  level: LogLevel;
+  title: string;
+  description?: string;
+  url?: string; // Link to a filtered dashboard search
+  fields: Array<{ name: string; value: string; inline?: boolean }>;
+  timestamp: string;
+  project: { id: number; slug: string; name: string };
+}
+
+/**
+ * A resolved delivery target - a notification_channels row or the legacy
+ * alert_settings.discord_webhook (id null)
+ */
+export interface ChannelTarget {
+  id: number | null;
+  name: string;
+  type: NotificationChannelType;
+  config: Record<string, unknown>;
+  min_level: LogLevel;
+}
+
+export interface ChannelDeliveryResult {
+  channel_id: number | null;
+  channel: string;
+  type: NotificationChannelType;
+  success: boolean;
+  status?: number;
+  response?: string;
+  error: string | null;
+}
+
+type SendOutcome = Omit<ChannelDeliveryResult, 'channel_id' | 'channel' | 'type'>;
+
+/**
+ * Whether an alert of the given level should go to a channel
+ */
+export function meetsMinLevel(level: LogLevel, minLevel: LogLevel): boolean {
+  return LEVEL_ORDER.indexOf(level) >= LEVEL_ORDER.indexOf(minLevel);
+}
+
+/**
+ * Deliver a notification to one channel
+ * Never throws - failures are reported in the result
+ */
+export async function sendToChannel(
+  channel: ChannelTarget,
+  notification: AlertNotification
+): Promise<ChannelDeliveryResult> {
+  let outcome: SendOutcome;
+
+  try {
+    switch (channel.type) {
+      case 'discord':
+        outcome = await sendDiscord(channel.config, notification);
+        break;
+      case 'slack':
+        outcome = await sendSlack(channel.config, notification);
+        break;
+      case 'webhook':
+        outcome = await sendWebhook(channel.config, notification);
+        break;
+      case 'email':
+        outcome = await sendEmail(channel.config, notification);
+        break;
+      default:
+        outcome = { success: false, error: `Unsupported channel type: ${String(channel.type)}` };
+    }
+  } catch (error) {
+    outcome = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+
+  return {
+    channel_id: channel.id,
+    channel: channel.name,
+    type: channel.type,
+    ...outcome
+  };
+}
+
+/**
+ * Render the payload a channel would receive (stored in alert history)
+ */
+export function renderPayload(type: NotificationChannelType, notification: AlertNotification): Record<string, unknown> {
+  switch (type) {
+    case 'discord':
+      return renderDiscord(notification);
+    case 'slack':
+      return renderSlack(notification);
+    case 'email':
+      return { subject: notification.title, text: renderText(notification) };
+    default:
+      return renderWebhook(notification);
+  }
+}
+
+/**
+ * Mask secrets in channel config for API responses
+ */
+export function maskChannelConfig(type: NotificationChannelType, config: Record<string, unknown>): Record<string, unknown> {
+  switch (type) {
+    case 'discord':
+    case 'slack':
+      return { ...config, webhook_url: maskWebhookUrl(config.webhook_url) };
+    case 'webhook':
+      return {
+        ...config,
+        url: maskWebhookUrl(config.url),
+        secret: config.secret ? '••••••••' : undefined,
+        headers: config.headers
+          ? Object.fromEntries(Object.keys(config.headers as Record<string, string>).map(key => [key, '••••']))
+          : undefined
+      };
+    default:
+      return config;
+  }
+}
+
+/**
+ * Mask a webhook URL for API responses, keeping only the host and last characters
+ */
+export function maskWebhookUrl(url: unknown): string | null {
+  if (typeof url !== 'string' || !url) {
+    return null;
+  }
+
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}/…${url.slice(-4)}`;
+  } catch {
+    return '…';
+  }
+}
+
+// ===== CHANNEL IMPLEMENTATIONS =====
+
+async function sendDiscord(config: Record<string, unknown>, notification: AlertNotification): Promise<SendOutcome> {
+  const parsed = discordChannelConfigSchema.safeParse(config);
+  if (!parsed.success) {
+    return { success: false, error: 'Invalid Discord channel config' };
+  }
+
+  return postJson(parsed.data.webhook_url, JSON.stringify(renderDiscord(notification)));
+}
+
+async function sendSlack(config: Record<string, unknown>, notification: AlertNotification): Promise<SendOutcome> {
+  const parsed = slackChannelConfigSchema.safeParse(config);
+  if (!parsed.success) {
+    return { success: false, error: 'Invalid Slack channel config' };
+  }
+
+  return postJson(parsed.data.webhook_url, JSON.stringify(renderSlack(notification)));
+}
+
+async function sendWebhook(config: Record<string, unknown>, notification: AlertNotification): Promise<SendOutcome> {
+  const parsed = webhookChannelConfigSchema.safeParse(config);
+  if (!parsed.success) {
+    return { success: false, error: 'Invalid webhook channel config' };
+  }
+
+  const body = JSON.stringify(renderWebhook(notification));
+  const headers: Record<string, string> = { ...parsed.data.headers };
+
+  // Same scheme as our own ingestion: hex HMAC-SHA256 of the raw body
+  if (parsed.data.secret) {
+    headers['X-Signature'] = createHmac('sha256', parsed.data.secret).update(body, 'utf8').digest('hex');
+  }
+
+  return postJson(parsed.data.url, body, headers);
+}
+
+async function sendEmail(config: Record<string, unknown>, notification: AlertNotification): Promise<SendOutcome> {
+  const parsed = emailChannelConfigSchema.safeParse(config);
+  if (!parsed.success) {
+    return { success: false, error: 'Invalid email channel config' };
+  }
+
+  const smtp = appConfig.external.smtp;
+  if (!smtp.host) {
+    return { success: false, error: 'SMTP not configured (SMTP_HOST environment variable required)' };
+  }
+
+  const prefix = parsed.data.subject_prefix ?? `[${appConfig.service.name}]`;
+  const result = await sendMail({
+    host: smtp.host,
+    port: smtp.port,
+    secure: smtp.secure,
+    ...(smtp.username ? { username: smtp.username, password: smtp.password ?? '' } : {})
+  }, {
+    from: smtp.from,
+    to: parsed.data.to,
+    subject: `${prefix} ${notification.title}`,
+    text: renderText(notification)
+  });
+
+  return { success: true, response: result.response, error: null };
+}
+
+// ===== RENDERERS =====
+
+function renderDiscord(notification: AlertNotification): Record<string, unknown> {
+  const fields = notification.fields.map(field => ({ ...field, value: truncate(field.value, 1024) }));
+  if (notification.url) {
+    fields.push({ name: 'Search', value: `[View in ${appConfig.service.name}](${notification.url})`, inline: false });
+  }
+
+  return {
+    embeds: [{
+      title: truncate(notification.title, 256),
+      description: notification.description ? truncate(notification.description, 4096) : undefined,
+      url: notification.url,
+      color: notification.rule === 'recovery' ? RECOVERY_COLOR : LEVEL_COLORS[notification.level],
+      fields,
+      timestamp: notification.timestamp,
+      footer: { text: appConfig.service.name }
+    }]
+  };
+}
+
+function renderSlack(notification: AlertNotification): Record<string, unknown> {
+  const blocks: Array<Record<string, unknown>> = [
+    { type: 'header', text: { type: 'plain_text', text: truncate(notification.title, 150), emoji: true } }
+  ];
+
+  if (notification.description) {
+    blocks.push({ type: 'section', text: { type: 'mrkdwn', text: truncate(escapeSlack(notification.description), 3000) } });
+  }
+
+  if (notification.fields.length > 0) {
+    blocks.push({
+      type: 'section',
+      fields: notification.fields.slice(0, 10).map(field => ({
+        type: 'mrkdwn',
+        text: truncate(`*${escapeSlack(field.name)}*\n${escapeSlack(field.value)}`, 2000)
+      }))
+    });
+  }
+
+  if (notification.url) {
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `<${notification.url}|View in ${appConfig.service.name}>` }]
+    });
+  }
+
+  return { text: notification.title, blocks };
+}
+
+function renderWebhook(notification: AlertNotification): Record<string, unknown> {
+  return {
+    event: 'alert',
+    service: appConfig.service.name,
+    rule: notification.rule,
+    level: notification.level,
+    title: notification.title,
+    description: notification.description ?? null,
+    url: notification.url ?? null,
+    fields: notification.fields.map(({ name, value }) => ({ name, value })),
+    project: notification.project,
+    timestamp: notification.timestamp
+  };
+}
+
+function renderText(notification: AlertNotification): string {
+  const lines = [notification.title, ''];
+
+  if (notification.description) {
+    lines.push(notification.description, '');
+  }
+
+  for (const field of notification.fields) {
+    lines.push(`${field.name}: ${field.value}`);
+  }
+
+  if (notification.url) {
+    lines.push('', `View in ${appConfig.service.name}: ${notification.url}`);
+  }
+
+  lines.push('', `-- ${appConfig.service.name} · ${notification.timestamp}`);
+  return lines.join('\n');
+}
+
+// ===== HELPERS =====
+
+async function postJson(url: string, body: string, headers: Record<string, string> = {}): Promise<SendOutcome> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    body,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS) // A hung endpoint must not hold up the other channels
+  });
+
+  let responseText = '';
+  try {
+    responseText = await response.text();
+  } catch (e) {
+    // Ignore body read errors
+  }
+
+  return {
+    success: response.ok,
+    status: response.status,
+    response: responseText,
+    error: response.ok ? null : `HTTP ${response.status}: ${responseText || response.statusText}`
+  };
+}
+
+function escapeSlack(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function truncate(value: string, maxLength: number): string {
+  return value.length > maxLength ? `${value.slice(0, maxLength - 1)}…` : value;
+}
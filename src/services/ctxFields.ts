@@ -0,0 +1,166 @@
+/**
+ * Promoted ctx fields
+ * Frequently queried ctx paths can be backed by an indexed generated column on
+ * logs; searches for a project then use the column instead of JSON_EXTRACT
+ */
+
+import { createHash } from 'crypto';
+import { escapeIdentifier, executeQuery, executeQuerySingle, withLock } from '@/services/database';
+import { ctxJsonPath, type CtxColumns } from '@/services/queryLanguage';
+import type { CtxField } from '@/types';
+
+// Serialises the ALTER TABLEs behind promoting and demoting paths
+const CTX_FIELDS_LOCK = 'tekno_logger_ctx_fields';
+const CTX_FIELDS_LOCK_TIMEOUT_SEC = 30;
+
+export async function listCtxFields(projectId: number): Promise<CtxField[]> {
+  return executeQuery<CtxField>(`
+    SELECT project_id, path, column_name, created_at
+    FROM ctx_fields
+    WHERE project_id = ?
+    ORDER BY path
+  `, [projectId]);
+}
+
+export async function getCtxColumns(projectId: number): Promise<CtxColumns> {
+  const fields = await listCtxFields(projectId);
+  return new Map(fields.map(field => [field.path, field.column_name]));
+}
+
+/**
+ * Promote a path for a project, adding the generated column if no other
+ * project has promoted the same path yet
+ * Blocks while the column's index is built; concurrent promotes and demotes
+ * wait for each other (a DatabaseError with code LOCK_TIMEOUT after 30s)
+ */
+export async function promoteCtxField(projectId: number, path: string): Promise<CtxField> {
+  return withLock(CTX_FIELDS_LOCK, CTX_FIELDS_LOCK_TIMEOUT_SEC, () => addCtxField(projectId, path));
+}
+
+async function addCtxField(projectId: number, path: string): Promise<CtxField> {
+  const jsonPath = ctxJsonPath(path);
+  const column = await columnNameFor(path);
+
+  // A column nobody references may be left over from a deleted project with another path
+  await dropUnusedColumn(column);
+
+  if (!await logsColumnExists(column)) {
+    // VIRTUAL columns are added in place; only the index is built over existing rows.
+    // utf8mb4_bin compares like the JSON_EXTRACT fallback: case-sensitively
+    await executeQuery(`
+      ALTER TABLE logs
+        ADD COLUMN ${escapeIdentifier(column)} VARCHAR(255) CHARACTER SET utf8mb4 COLLATE utf8mb4_bin
+          GENERATED ALWAYS AS (LEFT(JSON_UNQUOTE(JSON_EXTRACT(ctx_json, '${jsonPath}')), 255)) VIRTUAL,
+        ADD INDEX ${escapeIdentifier(`idx_${column}`)} (project_id, ${escapeIdentifier(column)}, ts)
+    `);
+  }
+
+  await executeQuery(`
+    INSERT IGNORE INTO ctx_fields (project_id, path, column_name)
+    VALUES (?, ?, ?)
+  `, [projectId, path, column]);
+
+  const field = await executeQuerySingle<CtxField>(`
+    SELECT project_id, path, column_name, created_at
+    FROM ctx_fields
+    WHERE project_id = ? AND path = ?
+  `, [projectId, path]);
+
+  return field!;
+}
+
+/**
+ * Stop using the column for a project; the column is dropped once no project
+ * uses it. Returns false if the path was not promoted.
+ */
+export async function demoteCtxField(projectId: number, path: string): Promise<boolean> {
+  return withLock(CTX_FIELDS_LOCK, CTX_FIELDS_LOCK_TIMEOUT_SEC, () => removeCtxField(projectId, path));
+}
+
+async function removeCtxField(projectId: number, path: string): Promise<boolean> {
+  const field = await executeQuerySingle<CtxField>(`
+    SELECT project_id, path, column_name, created_at
+    FROM ctx_fields
+    WHERE project_id = ? AND path = ?
+  `, [projectId, path]);
+
+  if (!field) {
+    return false;
+  }
+
+  await executeQuery('DELETE FROM ctx_fields WHERE project_id = ? AND path = ?', [projectId, path]);
+  await dropUnusedColumn(field.column_name);
+  return true;
+}
+
+/**
+ * Drop generated columns left without a project, e.g. after a project is deleted
+ */
+export async function dropUnusedCtxColumns(): Promise<number> {
+  return withLock(CTX_FIELDS_LOCK, CTX_FIELDS_LOCK_TIMEOUT_SEC, dropUnusedColumns);
+}
+
+async function dropUnusedColumns(): Promise<number> {
+  const columns = await executeQuery<{ column_name: string }>(`
+    SELECT COLUMN_NAME AS column_name
+    FROM information_schema.COLUMNS
+    WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'logs'
+      AND COLUMN_NAME LIKE 'ctx\\_%' AND COLUMN_NAME <> 'ctx_json'
+  `);
+
+  let dropped = 0;
+  for (const { column_name } of columns) {
+    if (await dropUnusedColumn(column_name)) {
+      dropped++;
+    }
+  }
+  return dropped;
+}
+
+async function dropUnusedColumn(column: string): Promise<boolean> {
+  const users = await executeQuerySingle<{ total: number }>(
+    'SELECT COUNT(*) AS total FROM ctx_fields WHERE column_name = ?',
+    [column]
+  );
+  if (Number(users?.total ?? 0) > 0 || !await logsColumnExists(column)) {
+    return false;
+  }
+
+  await executeQuery(`ALTER TABLE logs DROP COLUMN ${escapeIdentifier(column)}`);
+  return true;
+}
+
+/**
+ * Column for a path: reuses the column of projects that promoted the same
+ * path, otherwise derives a readable name that no other path uses
+ */
+async function columnNameFor(path: string): Promise<string> {
+  const existing = await executeQuerySingle<{ column_name: string }>(
+    'SELECT column_name FROM ctx_fields WHERE path = ? LIMIT 1',
+    [path]
+  );
+  if (existing) {
+    return existing.column_name;
+  }
+
+  const readable = `ctx_${path.toLowerCase().replace(/[^a-z0-9]+/g, '_')}`.slice(0, 64);
+  const taken = await executeQuerySingle<{ path: string }>(
+    'SELECT path FROM ctx_fields WHERE column_name = ? LIMIT 1',
+    [readable]
+  );
+  if (!taken && readable !== 'ctx_json') {
+    return readable;
+  }
+
+  const hash = createHash('sha1').update(path).digest('hex').substring(0, 8);
+  return `${readable.slice(0, 55)}_${hash}`;
+}
+
+async function logsColumnExists(column: string): Promise<boolean> {
+  const row = await executeQuerySingle<{ total: number }>(`
+    SELECT COUNT(*) AS total
+    FROM information_schema.COLUMNS
+    WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'logs' AND COLUMN_NAME = ?
+  `, [column]);
+  return Number(row?.total ?? 0) > 0;
+}
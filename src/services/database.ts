@@ -1,4 +1,6 @@
 import mysql from 'mysql2/promise';
+import type { PoolConnection as CorePoolConnection } from 'mysql2';
+import type { Readable } from 'stream';
 import { appConfig } from '@/config';
 import { DatabaseError, type DatabaseRow } from '@/types';
 
@@ -247,6 +249,96 @@ export async function executeBulkInsert(
   }
 }
 
+/**
+ * Stream a query's rows one at a time from an unbuffered result set, so large
+ * exports never sit in memory. The connection is paused while the consumer
+ * is behind, released once the rows have been read, and destroyed if the
+ * stream is closed early (the rest of the result can't be skipped).
+ */
+export async function streamQuery(
+  query: string,
+  params: unknown[] = [],
+  highWaterMark: number = 100
+): Promise<Readable> {
+  if (!pool) {
+    throw new DatabaseError('Database pool not initialized', query, 'DB_NOT_INITIALIZED');
+  }
+
+  const corePool = pool.pool;
+  let connection: CorePoolConnection;
+  try {
+    connection = await new Promise<CorePoolConnection>((resolve, reject) => {
+      corePool.getConnection((error, conn) => (error ? reject(error) : resolve(conn)));
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown database error';
+    throw new DatabaseError(`Stream query failed: ${message}`, query, 'DB_QUERY_FAILED');
+  }
+
+  const stream = connection.query(query, params).stream({ highWaterMark });
+  let finished = false;
+
+  stream.once('end', () => {
+    finished = true;
+    connection.release();
+  });
+  stream.once('close', () => {
+    if (!finished) {
+      connection.destroy();
+    }
+  });
+
+  return stream;
+}
+
+/**
+ * Multi-row insert that returns the ids it assigned, in row order
+ *
+ * With interleaved auto-increment locking (innodb_autoinc_lock_mode=2, the
+ * MySQL 8 default) concurrent inserts can interleave their ids, so the ids
+ * are read back inside the inserting transaction. Its snapshot is taken
+ * before the insert, so from the first id on it sees its own rows and none
+ * of the concurrent ones.
+ */
+export async function executeBulkInsertReturningIds(
+  table: string,
+  query: string,
+  values: unknown[][]
+): Promise<number[]> {
+  if (!pool) {
+    throw new DatabaseError('Database pool not initialized', query, 'DB_NOT_INITIALIZED');
+  }
+
+  if (values.length === 0) {
+    return [];
+  }
+
+  const placeholders = values.map(() => `(${values[0]!.map(() => '?').join(', ')})`).join(', ');
+  const finalQuery = query + placeholders;
+  const connection = await pool.getConnection();
+
+  try {
+    await connection.query('SET TRANSACTION ISOLATION LEVEL REPEATABLE READ');
+    await connection.query('START TRANSACTION WITH CONSISTENT SNAPSHOT');
+
+    const [result] = await connection.execute(finalQuery, values.flat());
+    const { insertId } = result as mysql.ResultSetHeader;
+    const [rows] = await connection.query(
+      `SELECT id FROM ${escapeIdentifier(table)} WHERE id >= ? ORDER BY id LIMIT ?`,
+      [insertId, values.length]
+    );
+
+    await connection.commit();
+    return (rows as Array<{ id: number }>).map(row => Number(row.id));
+  } catch (error) {
+    await connection.rollback().catch(() => {});
+    const message = error instanceof Error ? error.message : 'Unknown database error';
+    throw new DatabaseError(`Bulk insert failed: ${message}`, query, 'DB_BULK_INSERT_FAILED');
+  } finally {
+    connection.release();
+  }
+}
+
 // ===== TRANSACTION HELPERS =====
 
 export async function withTransaction<T>(
@@ -271,6 +363,38 @@ export async function withTransaction<T>(
   }
 }
 
+/**
+ * Run a callback while holding a named MySQL lock (GET_LOCK), so the work is
+ * serialised across every instance sharing the database
+ */
+export async function withLock<T>(
+  name: string,
+  timeoutSeconds: number,
+  callback: () => Promise<T>
+): Promise<T> {
+  if (!pool) {
+    throw new DatabaseError('Database pool not initialized', undefined, 'DB_NOT_INITIALIZED');
+  }
+
+  // The lock belongs to the session that took it, so one connection holds it throughout
+  const connection = await pool.getConnection();
+
+  try {
+    const [rows] = await connection.query('SELECT GET_LOCK(?, ?) AS acquired', [name, timeoutSeconds]);
+    if (Number((rows as Array<{ acquired: number | null }>)[0]?.acquired) !== 1) {
+      throw new DatabaseError(`Timed out waiting for lock ${name}`, undefined, 'LOCK_TIMEOUT');
+    }
+
+    try {
+      return await callback();
+    } finally {
+      await connection.query('SELECT RELEASE_LOCK(?)', [name]);
+    }
+  } finally {
+    connection.release();
+  }
+}
+
 // ===== MAINTENANCE HELPERS =====
 
 export async function cleanupExpiredCounters(olderThanMinutes: number = 120): Promise<number> {
@@ -0,0 +1,154 @@
+/**
+ * Digest reports
+ * Summarises a project's last day or week and delivers it through the alert
+ * channels; scheduled from the self-triggering maintenance
+ */
+
+import { executeQuery } from '@/services/database';
+import { sendDigestAlert } from '@/services/alerts';
+import { countDigestSearches } from '@/services/savedSearches';
+import { getBusiestSources, getLogTotals, getNewFingerprints, getTopFingerprints } from '@/services/stats';
+import type { FingerprintCount, SourceCount } from '@/services/stats';
+import type { DigestFrequency } from '@/types';
+
+export type DigestPeriod = Exclude<DigestFrequency, 'off'>;
+
+export interface DigestReport {
+  period: DigestPeriod;
+  from: Date;
+  to: Date;
+  retention_days: number; // Periods longer than retention only cover what is still stored
+  totals: {
+    events: number;
+    errors: number;
+    error_rate: number; // Percentage of events at error/fatal
+  };
+  top_fingerprints: FingerprintCount[];
+  new_fingerprints: {
+    total: number;
+    samples: Array<{ fingerprint: string; first_seen: Date; message: string | null }>;
+  };
+  busiest_sources: SourceCount[];
+  saved_searches: Array<{ name: string; short_id: string; url: string; count: number }>; // include_in_digest searches
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The most recent complete period for a schedule: daily digests end at
+ * `hour` UTC each day, weekly ones at `hour` UTC on Monday
+ */
+export function getDigestWindow(period: DigestPeriod, hour: number, now: Date = new Date()): { from: Date; to: Date } {
+  const to = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), hour));
+  const length = period === 'weekly' ? 7 * DAY_MS : DAY_MS;
+
+  if (period === 'weekly') {
+    const daysSinceMonday = (to.getUTCDay() + 6) % 7;
+    to.setTime(to.getTime() - daysSinceMonday * DAY_MS);
+  }
+
+  if (to > now) {
+    to.setTime(to.getTime() - length);
+  }
+
+  return { from: new Date(to.getTime() - length), to };
+}
+
+/**
+ * Collect the digest figures for one project and period
+ */
+export async function buildDigestReport(
+  project: { id: number; retention_days: number },
+  period: DigestPeriod,
+  window: { from: Date; to: Date }
+): Promise<DigestReport> {
+  const range = { projectId: project.id, from: window.from, to: window.to };
+
+  const totals = await getLogTotals(range);
+  const topFingerprints = await getTopFingerprints(range, 5);
+  const newFingerprints = await getNewFingerprints(project.id, window.from, window.to, 5);
+  const busiestSources = await getBusiestSources(range, 5);
+  const savedSearches = await countDigestSearches(project.id, window);
+
+  return {
+    period,
+    from: window.from,
+    to: window.to,
+    retention_days: project.retention_days,
+    totals: {
+      events: totals.total_logs,
+      errors: totals.total_errors,
+      error_rate: totals.total_logs > 0
+        ? Math.round((totals.total_errors / totals.total_logs) * 1000) / 10
+        : 0
+    },
+    top_fingerprints: topFingerprints,
+    new_fingerprints: newFingerprints,
+    busiest_sources: busiestSources,
+    saved_searches: savedSearches
+  };
+}
+
+/**
+ * Send every digest whose scheduled time has passed since the last one
+ * Returns the number of digests delivered to at least one channel
+ */
+export async function sendDueDigests(now: Date = new Date()): Promise<number> {
+  const projects = await executeQuery<{
+    project_id: number;
+    project_slug: string;
+    project_name: string;
+    retention_days: number;
+    discord_webhook: string | null;
+    digest_frequency: DigestPeriod;
+    digest_hour: number;
+    last_digest_at: Date | null;
+  }>(`
+    SELECT
+      a.project_id, p.slug AS project_slug, p.name AS project_name, p.retention_days,
+      a.discord_webhook, a.digest_frequency, a.digest_hour, a.last_digest_at
+    FROM alert_settings a
+    JOIN projects p ON p.id = a.project_id
+    WHERE a.enabled = 1 AND a.digest_frequency <> 'off'
+  `);
+
+  let sent = 0;
+
+  for (const row of projects) {
+    const window = getDigestWindow(row.digest_frequency, row.digest_hour, now);
+    if (row.last_digest_at && new Date(row.last_digest_at) >= window.to) {
+      continue;
+    }
+
+    // Claim the period so overlapping maintenance runs send it only once
+    const claim = await executeQuery(`
+      UPDATE alert_settings
+      SET last_digest_at = ?
+      WHERE project_id = ? AND (last_digest_at IS NULL OR last_digest_at < ?)
+    `, [window.to, row.project_id, window.to]);
+
+    if (((claim as any).affectedRows ?? 0) === 0) {
+      continue;
+    }
+
+    const report = await buildDigestReport(
+      { id: row.project_id, retention_days: row.retention_days },
+      row.digest_frequency,
+      window
+    );
+    const results = await sendDigestAlert(
+      { id: row.project_id, slug: row.project_slug, name: row.project_name },
+      { discord_webhook: row.discord_webhook },
+      report
+    );
+
+    if (results.some(result => result.success)) {
+      sent++;
+    }
+    for (const result of results.filter(result => !result.success)) {
+      console.error(`Digest for project ${row.project_slug} via ${result.channel} failed: ${result.error}`);
+    }
+  }
+
+  return sent;
+}
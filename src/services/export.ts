@@ -0,0 +1,205 @@
+/**
+ * Log export
+ * Streams every log matching a filter as NDJSON or CSV, row by row from the
+ * database, so exports have no page limit and little memory footprint
+ */
+
+import { pipeline, Transform, type Readable } from 'stream';
+import { appConfig } from '@/config';
+import { streamQuery } from '@/services/database';
+import { isValidCtxPath } from '@/services/queryLanguage';
+import { getContextPath } from '@/services/rules';
+import { decodeLogRow, type LogRow } from '@/services/search';
+import { RateLimitError, ValidationError, type ExportOptions } from '@/types';
+
+export const EXPORT_COLUMNS = [
+  'id', 'project_id', 'ts', 'level', 'message', 'source', 'env', 'ctx',
+  'user_id', 'request_id', 'tags', 'fingerprint', 'created_at'
+] as const;
+
+export type ExportFormat = ExportOptions['format'];
+
+// Each export holds a pool connection until the download ends
+const MAX_EXPORTS_PER_SCOPE = 2;
+const EXPORT_RETRY_AFTER_SEC = 30;
+
+const activeExports = new Map<string, number>();
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  csv: 'text/csv; charset=utf-8'
+};
+
+/**
+ * Requested columns, in order: log columns and `ctx.<path>` values
+ * Defaults to every log column
+ */
+export function parseExportColumns(value: string | undefined): string[] {
+  if (value === undefined || value.trim() === '') {
+    return [...EXPORT_COLUMNS];
+  }
+
+  const columns = value.split(',').map(column => column.trim()).filter(column => column.length > 0);
+  for (const column of columns) {
+    const known = (EXPORT_COLUMNS as readonly string[]).includes(column);
+    if (!known && !(column.startsWith('ctx.') && isValidCtxPath(column.slice(4)))) {
+      throw new ValidationError(
+        `Unknown export column '${column}': use ${EXPORT_COLUMNS.join(', ')} or ctx.<path>`,
+        'columns',
+        'INVALID_COLUMNS'
+      );
+    }
+  }
+
+  return [...new Set(columns)];
+}
+
+/**
+ * Download name such as `checkout-logs-20260115T120000Z.csv`
+ */
+export function exportFileName(prefix: string, format: ExportFormat, now: Date = new Date()): string {
+  const stamp = now.toISOString().slice(0, 19).replace(/[-:]/g, '');
+  return `${prefix}-logs-${stamp}Z.${format}`;
+}
+
+/**
+ * Stream a filter's logs in the requested format
+ * `filter.where` must use `alias` for its columns, as with the admin filters.
+ * At most two exports run per scope (a project, or the admin API) and at most
+ * half the pool's connections overall; past that a RateLimitError is thrown
+ */
+export async function streamLogExport(
+  filter: { where: string; params: any[] },
+  options: { format: ExportFormat; columns: string[]; order: 'asc' | 'desc'; scope: string; alias?: string }
+): Promise<Readable> {
+  const release = acquireExportSlot(options.scope);
+  try {
+    const output = await runExport(filter, options);
+    output.once('close', release);
+    return output;
+  } catch (error) {
+    release();
+    throw error;
+  }
+}
+
+async function runExport(
+  filter: { where: string; params: any[] },
+  options: { format: ExportFormat; columns: string[]; order: 'asc' | 'desc'; alias?: string }
+): Promise<Readable> {
+  const table = options.alias ? `logs ${options.alias}` : 'logs';
+  const prefix = options.alias ? `${options.alias}.` : '';
+  const direction = options.order === 'asc' ? 'ASC' : 'DESC';
+
+  const rows = await streamQuery(`
+    SELECT ${selectColumns(options.columns).map(column => `${prefix}${column}`).join(', ')}
+    FROM ${table}
+    WHERE ${filter.where}
+    ORDER BY ${prefix}ts ${direction}, ${prefix}id ${direction}
+  `, filter.params);
+
+  const output = createExportTransform(options.format, options.columns);
+  // A failed read or serialisation aborts the response instead of ending it
+  // as if the file were complete
+  pipeline(rows, output, error => {
+    if (error) {
+      output.destroy(error);
+    }
+  });
+  return output;
+}
+
+function acquireExportSlot(scope: string): () => void {
+  const total = [...activeExports.values()].reduce((sum, count) => sum + count, 0);
+  const active = activeExports.get(scope) ?? 0;
+  if (active >= MAX_EXPORTS_PER_SCOPE || total >= Math.max(1, Math.floor(appConfig.database.connectionLimit / 2))) {
+    throw new RateLimitError('Too many exports running, try again when one finishes', EXPORT_RETRY_AFTER_SEC, 'EXPORT_LIMIT_REACHED');
+  }
+  activeExports.set(scope, active + 1);
+
+  let released = false;
+  return () => {
+    if (released) {
+      return;
+    }
+    released = true;
+    const remaining = (activeExports.get(scope) ?? 1) - 1;
+    if (remaining > 0) {
+      activeExports.set(scope, remaining);
+    } else {
+      activeExports.delete(scope);
+    }
+  };
+}
+
+/**
+ * Turns decoded log rows into NDJSON lines or CSV records; CSV starts with a
+ * header row, even when nothing matched
+ */
+export function createExportTransform(format: ExportFormat, columns: string[]): Transform {
+  let started = false;
+
+  const header = (): string => (format === 'csv' && !started ? csvRecord(columns) : '');
+
+  return new Transform({
+    writableObjectMode: true,
+    transform(row: LogRow, _encoding, callback) {
+      const values = exportValues(row, columns);
+      const line = format === 'csv'
+        ? csvRecord(columns.map(column => values[column]))
+        : `${JSON.stringify(values)}\n`;
+
+      const chunk = header() + line;
+      started = true;
+      callback(null, chunk);
+    },
+    flush(callback) {
+      callback(null, header());
+    }
+  });
+}
+
+function exportValues(row: LogRow, columns: string[]): Record<string, unknown> {
+  const event = decodeLogRow(row) as unknown as Record<string, unknown>;
+  const ctx = (event.ctx ?? null) as Record<string, unknown> | null;
+  const values: Record<string, unknown> = {};
+
+  for (const column of columns) {
+    if (column === 'ctx') {
+      values.ctx = ctx;
+    } else if (column.startsWith('ctx.')) {
+      values[column] = getContextPath(ctx, column.slice(4)) ?? null;
+    } else {
+      values[column] = event[column] ?? null;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Database columns needed for the requested export columns
+ */
+function selectColumns(columns: string[]): string[] {
+  const selected = new Set<string>(['id', 'ts']); // Always read for ordering and decoding
+  for (const column of columns) {
+    selected.add(column === 'ctx' || column.startsWith('ctx.') ? 'ctx_json' : column);
+  }
+  return [...selected];
+}
+
+function csvRecord(values: unknown[]): string {
+  return `${values.map(csvField).join(',')}\r\n`;
+}
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,102 @@
+/**
+ * Search facets
+ * Most frequent levels, envs, sources, tags and users under a search filter,
+ * for clickable sidebars and filter dropdowns
+ */
+
+import { executeQuery } from '@/services/database';
+import type { FacetField, LogFacets } from '@/types';
+
+const TAG_LISTS_READ = 1000; // Distinct tag lists counted when splitting them into tags
+
+type FacetCounts = NonNullable<LogFacets['facets'][FacetField]>;
+
+/**
+ * Count the top `limit` values of each field
+ * `filterFor(field)` is the search filter without that field's own condition,
+ * so a facet keeps listing the alternatives to the value being filtered on;
+ * `alias` is the table alias its columns use, if any
+ */
+export async function getLogFacets(
+  fields: FacetField[],
+  filterFor: (field: FacetField) => Promise<{ where: string; params: any[] }>,
+  limit: number,
+  alias: string = ''
+): Promise<LogFacets['facets']> {
+  const facets: LogFacets['facets'] = {};
+
+  for (const field of new Set(fields)) {
+    const filter = await filterFor(field);
+    facets[field] = field === 'tags'
+      ? await countTags(filter, limit, alias)
+      : await countColumn(field, filter, limit, alias);
+  }
+
+  return facets;
+}
+
+/**
+ * Split comma-separated tag lists and total them per tag; tags differing only
+ * in case are counted together, like the collation compares them
+ */
+export function sumTagCounts(rows: Array<{ value: string; count: number }>, limit: number): FacetCounts {
+  const totals = new Map<string, { value: string; count: number }>();
+
+  for (const row of rows) {
+    const tags = new Set(row.value.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0));
+    for (const tag of tags) {
+      const entry = totals.get(tag.toLowerCase());
+      if (entry) {
+        entry.count += Number(row.count);
+      } else {
+        totals.set(tag.toLowerCase(), { value: tag, count: Number(row.count) });
+      }
+    }
+  }
+
+  const values = [...totals.values()].sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  return { values: values.slice(0, limit), truncated: values.length > limit };
+}
+
+async function countColumn(
+  column: Exclude<FacetField, 'tags'>,
+  filter: { where: string; params: any[] },
+  limit: number,
+  alias: string
+): Promise<FacetCounts> {
+  const prefix = alias ? `${alias}.` : '';
+
+  const rows = await executeQuery<{ value: string; count: number }>(`
+    SELECT ${prefix}${column} AS \`value\`, COUNT(*) AS count
+    FROM logs ${alias}
+    WHERE ${filter.where} AND ${prefix}${column} IS NOT NULL AND ${prefix}${column} <> ''
+    GROUP BY \`value\`
+    ORDER BY count DESC, \`value\`
+    LIMIT ?
+  `, [...filter.params, String(limit + 1)]);
+
+  return {
+    values: rows.slice(0, limit).map(row => ({ value: String(row.value), count: Number(row.count) })),
+    truncated: rows.length > limit
+  };
+}
+
+async function countTags(
+  filter: { where: string; params: any[] },
+  limit: number,
+  alias: string
+): Promise<FacetCounts> {
+  const prefix = alias ? `${alias}.` : '';
+
+  // Only the most common lists are read, so rare tags may be undercounted
+  const rows = await executeQuery<{ value: string; count: number }>(`
+    SELECT ${prefix}tags AS \`value\`, COUNT(*) AS count
+    FROM logs ${alias}
+    WHERE ${filter.where} AND ${prefix}tags IS NOT NULL AND ${prefix}tags <> ''
+    GROUP BY \`value\`
+    ORDER BY count DESC
+    LIMIT ?
+  `, [...filter.params, String(TAG_LISTS_READ)]);
+
+  return sumTagCounts(rows, limit);
+}
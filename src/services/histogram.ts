@@ -0,0 +1,135 @@
+/**
+ * Log volume histograms
+ * Event counts per time bucket and level, over any search filter
+ */
+
+import { executeQuery } from '@/services/database';
+import { ValidationError, type LogHistogram, type LogLevel } from '@/types';
+
+export type HistogramInterval = LogHistogram['interval'];
+
+const INTERVAL_SECONDS: Record<HistogramInterval, number> = {
+  '1m': 60,
+  '5m': 300,
+  '1h': 3600,
+  '1d': 86400
+};
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'fatal'];
+const MAX_BUCKETS = 1440;
+const AUTO_TARGET_BUCKETS = 120;
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Histogram bounds: `to` defaults to now and `from` to a day before `to`
+ */
+export function resolveHistogramRange(from?: string, to?: string, now: Date = new Date()): { from: Date; to: Date } {
+  const end = to ? parseRangeDate(to, 'to') : now;
+  const start = from ? parseRangeDate(from, 'from') : new Date(end.getTime() - DEFAULT_RANGE_MS);
+
+  if (start >= end) {
+    throw new ValidationError('from must be before to', 'from', 'INVALID_RANGE');
+  }
+  return { from: start, to: end };
+}
+
+/**
+ * The requested interval, or for 'auto' the finest one that keeps the range
+ * within about AUTO_TARGET_BUCKETS buckets; either way at most MAX_BUCKETS
+ */
+export function resolveInterval(interval: HistogramInterval | 'auto', range: { from: Date; to: Date }): HistogramInterval {
+  const seconds = (range.to.getTime() - range.from.getTime()) / 1000;
+
+  const resolved = interval === 'auto'
+    ? (Object.keys(INTERVAL_SECONDS) as HistogramInterval[])
+      .find(candidate => seconds / INTERVAL_SECONDS[candidate] <= AUTO_TARGET_BUCKETS) ?? '1d'
+    : interval;
+
+  if (seconds / INTERVAL_SECONDS[resolved] > MAX_BUCKETS) {
+    throw new ValidationError(
+      `Range too long for ${resolved} buckets (at most ${MAX_BUCKETS})`,
+      'interval',
+      'INVALID_INTERVAL'
+    );
+  }
+  return resolved;
+}
+
+function parseRangeDate(value: string, field: 'from' | 'to'): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`Invalid ${field} date: use an ISO 8601 timestamp`, field, 'INVALID_DATE');
+  }
+  return date;
+}
+
+/**
+ * Count the logs matching `filter` (a WHERE clause without the keyword, which
+ * must already bound ts to the range) per bucket and level
+ * `alias` is the table alias the filter's columns use, if any
+ */
+export async function getLogHistogram(
+  filter: { where: string; params: any[] },
+  range: { from: Date; to: Date },
+  interval: HistogramInterval,
+  alias: string = ''
+): Promise<LogHistogram> {
+  const seconds = INTERVAL_SECONDS[interval];
+  const prefix = alias ? `${alias}.` : '';
+
+  // Arithmetic on the DATETIME itself, so the session time zone can't shift buckets
+  const rows = await executeQuery<{ bucket: number; level: LogLevel; count: number }>(`
+    SELECT
+      FLOOR(TIMESTAMPDIFF(SECOND, '1970-01-01 00:00:00', ${prefix}ts) / ?) AS bucket,
+      ${prefix}level AS level,
+      COUNT(*) AS count
+    FROM logs ${alias}
+    WHERE ${filter.where}
+    GROUP BY bucket, level
+  `, [seconds, ...filter.params]);
+
+  return buildHistogram(rows, range, interval);
+}
+
+/**
+ * Zero-filled buckets from the one containing `from` to the one containing `to`
+ */
+export function buildHistogram(
+  rows: Array<{ bucket: number; level: string; count: number }>,
+  range: { from: Date; to: Date },
+  interval: HistogramInterval
+): LogHistogram {
+  const seconds = INTERVAL_SECONDS[interval];
+  const first = Math.floor(range.from.getTime() / 1000 / seconds);
+  const last = Math.floor(range.to.getTime() / 1000 / seconds);
+
+  const buckets: LogHistogram['buckets'] = [];
+  for (let bucket = first; bucket <= last; bucket++) {
+    buckets.push({
+      ts: new Date(bucket * seconds * 1000).toISOString(),
+      total: 0,
+      levels: Object.fromEntries(LEVELS.map(level => [level, 0])) as Record<LogLevel, number>
+    });
+  }
+
+  let total = 0;
+  for (const row of rows) {
+    const entry = buckets[Number(row.bucket) - first];
+    if (!entry || !LEVELS.includes(row.level as LogLevel)) {
+      continue;
+    }
+    const count = Number(row.count);
+    entry.levels[row.level as LogLevel] += count;
+    entry.total += count;
+    total += count;
+  }
+
+  return {
+    interval,
+    interval_sec: seconds,
+    from: range.from.toISOString(),
+    to: range.to.toISOString(),
+    total,
+    buckets
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * Issues
+ * Logs grouped by fingerprint: when each issue was seen, how often, by whom
+ * and where, with its latest event as a sample
+ */
+
+import { getCtxColumns } from '@/services/ctxFields';
+import { executeQuery, executeQuerySingle } from '@/services/database';
+import { buildLogFilter, decodeLogRow, LOG_COLUMNS, type LogRow } from '@/services/search';
+import type { Issue, IssueQuery } from '@/types';
+
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000;
+const MAX_LISTED_VALUES = 20; // envs/sources per issue
+
+export interface IssueGroupRow {
+  fingerprint: string;
+  first_seen: Date;
+  last_seen: Date;
+  count: number;
+  users: number;
+  envs: string | null;
+  sources: string | null;
+}
+
+/**
+ * One page of a project's issues in a time range (default: the last day)
+ */
+export async function getIssues(
+  projectId: number,
+  query: IssueQuery,
+  now: Date = new Date()
+): Promise<{ issues: Issue[]; total: number; from: string; to: string }> {
+  const to = query.to ? new Date(query.to) : now;
+  const from = query.from ? new Date(query.from) : new Date(to.getTime() - DEFAULT_RANGE_MS);
+
+  const { where, params } = buildLogFilter(
+    projectId,
+    { ...query, from: from.toISOString(), to: to.toISOString() },
+    await getCtxColumns(projectId)
+  );
+  const order = query.sort === 'recent' ? 'last_seen DESC, count DESC' : 'count DESC, last_seen DESC';
+
+  const groups = await executeQuery<IssueGroupRow>(`
+    SELECT
+      fingerprint,
+      MIN(ts) AS first_seen,
+      MAX(ts) AS last_seen,
+      COUNT(*) AS count,
+      COUNT(DISTINCT user_id) AS users,
+      GROUP_CONCAT(DISTINCT env ORDER BY env SEPARATOR '\\n') AS envs,
+      GROUP_CONCAT(DISTINCT source ORDER BY source SEPARATOR '\\n') AS sources
+    FROM logs
+    WHERE ${where} AND fingerprint IS NOT NULL
+    GROUP BY fingerprint
+    ORDER BY ${order}
+    LIMIT ? OFFSET ?
+  `, [...params, String(query.limit), String(query.offset)]);
+
+  const count = await executeQuerySingle<{ total: number }>(`
+    SELECT COUNT(DISTINCT fingerprint) AS total
+    FROM logs
+    WHERE ${where} AND fingerprint IS NOT NULL
+  `, params);
+
+  if (groups.length === 0) {
+    return { issues: [], total: Number(count?.total ?? 0), from: from.toISOString(), to: to.toISOString() };
+  }
+
+  // project_fingerprints outlives retention, so it knows issues older than the stored logs
+  const known = await executeQuery<{ fingerprint: string; first_seen: Date }>(`
+    SELECT fingerprint, first_seen
+    FROM project_fingerprints
+    WHERE project_id = ? AND fingerprint IN (${groups.map(() => '?').join(', ')})
+  `, [projectId, ...groups.map(group => group.fingerprint)]);
+
+  // Samples for the whole page at once, under the same filters as the counts
+  const samples = await executeQuery<LogRow>(`
+    SELECT ${LOG_COLUMNS}
+    FROM logs
+    WHERE ${where} AND (fingerprint, ts) IN (${groups.map(() => '(?, ?)').join(', ')})
+  `, [...params, ...groups.flatMap(group => [group.fingerprint, group.last_seen])]);
+
+  return {
+    issues: buildIssues(groups, known, samples),
+    total: Number(count?.total ?? 0),
+    from: from.toISOString(),
+    to: to.toISOString()
+  };
+}
+
+/**
+ * Issues in the order of their groups, each with the first known occurrence
+ * and, as its sample, the latest matching event (highest id on a ts tie)
+ */
+export function buildIssues(
+  groups: IssueGroupRow[],
+  known: Array<{ fingerprint: string; first_seen: Date }>,
+  samples: LogRow[]
+): Issue[] {
+  const firstSeen = new Map(known.map(row => [row.fingerprint, new Date(row.first_seen)]));
+
+  const latest = new Map<string, LogRow>();
+  for (const row of samples) {
+    const current = row.fingerprint ? latest.get(row.fingerprint) : undefined;
+    if (row.fingerprint && (!current || row.id > current.id)) {
+      latest.set(row.fingerprint, row);
+    }
+  }
+
+  return groups.map(group => {
+    const rangeFirstSeen = new Date(group.first_seen);
+    const everFirstSeen = firstSeen.get(group.fingerprint);
+    const sample = latest.get(group.fingerprint);
+
+    return {
+      fingerprint: group.fingerprint,
+      first_seen: (everFirstSeen && everFirstSeen < rangeFirstSeen ? everFirstSeen : rangeFirstSeen).toISOString(),
+      last_seen: new Date(group.last_seen).toISOString(),
+      count: Number(group.count),
+      users: Number(group.users),
+      envs: splitList(group.envs),
+      sources: splitList(group.sources),
+      sample: sample ? decodeLogRow(sample) : null
+    };
+  });
+}
+
+/**
+ * GROUP_CONCAT output as a list; the last entry may be cut off by group_concat_max_len
+ */
+function splitList(value: string | null): string[] {
+  return value ? value.split('\n').filter(entry => entry.length > 0).slice(0, MAX_LISTED_VALUES) : [];
+}
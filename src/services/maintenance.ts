@@ -1,4 +1,6 @@
 import { executeQuery, executeQuerySingle, generateDayId } from '@/services/database';
+import { sendSilenceAlert } from '@/services/alerts';
+import { sendDueDigests } from '@/services/digest';
 import { DatabaseError } from '@/types';
 
 /**
@@ -66,6 +68,8 @@ export async function updateLastMaintenance(): Promise<void> {
  * Run routine maintenance tasks
  * - Clean up expired rate limit counters
  * - Clean up old fingerprint trackers
+ * - Prune old alert history
+ * - Check heartbeats for silent projects and sources
  * - Update maintenance timestamp
  */
 export async function runMaintenance(): Promise<void> {
@@ -87,6 +91,18 @@ export async function runMaintenance(): Promise<void> {
       [oneDayAgo]
     );
 
+    // Prune alert history older than 30 days
+    await pruneAlertHistory();
+
+    // Drop fingerprint mutes that have lapsed
+    await pruneExpiredMutes();
+
+    // Alert on projects and sources that have gone quiet
+    await checkHeartbeats();
+
+    // Send daily/weekly digests that have come due
+    await sendDueDigests();
+
     // Update maintenance timestamp and clear in-progress flag
     await updateLastMaintenance();
 
@@ -103,6 +119,92 @@ export async function runMaintenance(): Promise<void> {
   }
 }
 
+/**
+ * Delete alert history entries older than the given number of days
+ */
+export async function pruneAlertHistory(olderThanDays: number = 30): Promise<number> {
+  const cutoff = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000);
+  const result = await executeQuery(
+    'DELETE FROM alert_history WHERE created_at < ?',
+    [cutoff]
+  );
+
+  return (result as any).affectedRows ?? 0;
+}
+
+/**
+ * Delete fingerprint mutes whose time or count limit has passed
+ */
+export async function pruneExpiredMutes(): Promise<number> {
+  const result = await executeQuery(`
+    DELETE FROM fingerprint_mutes
+    WHERE muted_until <= ? OR seen_count >= until_count
+  `, [new Date()]);
+
+  return (result as any).affectedRows ?? 0;
+}
+
+/**
+ * Find projects, and watched sources, that logged before but have been silent
+ * for longer than their heartbeat_grace_sec, and alert once per silence.
+ * Recovery notices are sent from the ingestion path when logs resume.
+ */
+export async function checkHeartbeats(): Promise<number> {
+  const now = new Date();
+
+  const silent = await executeQuery<{
+    project_id: number;
+    project_slug: string;
+    project_name: string;
+    source: string;
+    last_seen: Date;
+    discord_webhook: string | null;
+    heartbeat_grace_sec: number;
+  }>(`
+    SELECT
+      h.project_id, p.slug AS project_slug, p.name AS project_name,
+      h.source, h.last_seen, a.discord_webhook, a.heartbeat_grace_sec
+    FROM heartbeat_state h
+    JOIN alert_settings a ON a.project_id = h.project_id
+    JOIN projects p ON p.id = h.project_id
+    WHERE a.enabled = 1
+      AND h.silent_since IS NULL
+      AND h.last_seen < DATE_SUB(?, INTERVAL a.heartbeat_grace_sec SECOND)
+      AND (h.source = '' OR FIND_IN_SET(h.source, REPLACE(COALESCE(a.heartbeat_sources, ''), ' ', '')) > 0)
+  `, [now]);
+
+  let alerted = 0;
+
+  for (const row of silent) {
+    // Claim the silence so overlapping maintenance runs alert only once
+    const claim = await executeQuery(`
+      UPDATE heartbeat_state
+      SET silent_since = last_seen
+      WHERE project_id = ? AND source = ? AND silent_since IS NULL
+    `, [row.project_id, row.source]);
+
+    if (((claim as any).affectedRows ?? 0) === 0) {
+      continue;
+    }
+
+    const results = await sendSilenceAlert(
+      { id: row.project_id, slug: row.project_slug, name: row.project_name },
+      { discord_webhook: row.discord_webhook, heartbeat_grace_sec: row.heartbeat_grace_sec },
+      row.source,
+      new Date(row.last_seen)
+    );
+
+    if (results.some(result => result.success)) {
+      alerted++;
+    }
+    for (const result of results.filter(result => !result.success)) {
+      console.error(`Heartbeat alert for project ${row.project_slug} via ${result.channel} failed: ${result.error}`);
+    }
+  }
+
+  return alerted;
+}
+
 /**
  * Run daily purge of old data based on project retention settings
  */
@@ -0,0 +1,388 @@
+/**
+ * OpenTelemetry logs
+ * Decodes OTLP/HTTP export requests (protobuf or JSON) and maps their log
+ * records onto log events
+ */
+
+import { ValidationError, type LogEvent, type LogLevel } from '@/types';
+
+/**
+ * ExportLogsServiceRequest in its OTLP/JSON form; protobuf requests are
+ * decoded into the same shape
+ */
+export interface OtlpLogsRequest {
+  resourceLogs?: Array<{
+    resource?: { attributes?: OtlpKeyValue[] };
+    scopeLogs?: Array<{
+      scope?: { name?: string; version?: string; attributes?: OtlpKeyValue[] };
+      logRecords?: OtlpLogRecord[];
+    }>;
+  }>;
+}
+
+export interface OtlpLogRecord {
+  timeUnixNano?: string | number;
+  observedTimeUnixNano?: string | number;
+  severityNumber?: number;
+  severityText?: string;
+  body?: OtlpAnyValue;
+  attributes?: OtlpKeyValue[];
+  traceId?: string; // Hex
+  spanId?: string; // Hex
+  eventName?: string;
+}
+
+export interface OtlpKeyValue {
+  key: string;
+  value?: OtlpAnyValue;
+}
+
+export interface OtlpAnyValue {
+  stringValue?: string;
+  boolValue?: boolean;
+  intValue?: string | number;
+  doubleValue?: number;
+  arrayValue?: { values?: OtlpAnyValue[] };
+  kvlistValue?: { values?: OtlpKeyValue[] };
+  bytesValue?: string; // Base64
+}
+
+const MAX_MESSAGE_LENGTH = 1024;
+
+// ===== MAPPING =====
+
+/**
+ * One log event per log record
+ * - level from severityNumber (severityText when unspecified, else info)
+ * - source from the service.name resource attribute, env from deployment.environment(.name)
+ * - request_id from traceId, user_id from the enduser.id attribute
+ * - ctx holds the record's attributes (dotted keys nested), trace_id, span_id
+ *   and the resource and scope
+ */
+export function otlpToLogEvents(request: OtlpLogsRequest): LogEvent[] {
+  const events: LogEvent[] = [];
+
+  for (const resourceLogs of asArray(request.resourceLogs)) {
+    const resource = attributesToObject(resourceLogs.resource?.attributes);
+    const source = stringAttribute(resource, 'service.name');
+    const env = stringAttribute(resource, 'deployment.environment.name') ?? stringAttribute(resource, 'deployment.environment');
+
+    for (const scopeLogs of asArray(resourceLogs.scopeLogs)) {
+      const scope = scopeLogs.scope?.name
+        ? {
+          name: scopeLogs.scope.name,
+          ...(scopeLogs.scope.version ? { version: scopeLogs.scope.version } : {}),
+          ...attributesToObject(scopeLogs.scope.attributes)
+        }
+        : null;
+
+      for (const record of asArray(scopeLogs.logRecords)) {
+        const attributes = attributesToObject(record.attributes);
+        const traceId = validId(record.traceId);
+        const spanId = validId(record.spanId);
+        const userId = stringAttribute(attributes, 'enduser.id');
+        const ts = nanosToIso(record.timeUnixNano) ?? nanosToIso(record.observedTimeUnixNano);
+
+        const ctx: Record<string, unknown> = {
+          ...nestAttributes(attributes),
+          ...(traceId ? { trace_id: traceId } : {}),
+          ...(spanId ? { span_id: spanId } : {}),
+          ...(Object.keys(resource).length > 0 ? { resource: nestAttributes(resource) } : {}),
+          ...(scope ? { scope: nestAttributes(scope) } : {})
+        };
+
+        events.push({
+          level: severityToLevel(record.severityNumber, record.severityText),
+          message: recordMessage(record).substring(0, MAX_MESSAGE_LENGTH),
+          ...(ts ? { ts } : {}),
+          ...(source ? { source: source.substring(0, 64) } : {}),
+          ...(env ? { env: env.substring(0, 32) } : {}),
+          ...(Object.keys(ctx).length > 0 ? { ctx } : {}),
+          ...(userId ? { user_id: userId.substring(0, 64) } : {}),
+          ...(traceId ? { request_id: traceId } : {})
+        });
+      }
+    }
+  }
+
+  return events;
+}
+
+/**
+ * SeverityNumber ranges: 1-8 trace/debug, 9-12 info, 13-16 warn, 17-20 error, 21-24 fatal
+ */
+export function severityToLevel(severityNumber: number | undefined, severityText?: string): LogLevel {
+  const number = Number(severityNumber ?? 0);
+  if (number >= 21) return 'fatal';
+  if (number >= 17) return 'error';
+  if (number >= 13) return 'warn';
+  if (number >= 9) return 'info';
+  if (number >= 1) return 'debug';
+
+  const text = (severityText ?? '').toLowerCase();
+  if (/^(fatal|critical|crit|emerg|alert|panic)/.test(text)) return 'fatal';
+  if (/^err/.test(text)) return 'error';
+  if (/^warn/.test(text)) return 'warn';
+  if (/^(debug|trace)/.test(text)) return 'debug';
+  return 'info';
+}
+
+function recordMessage(record: OtlpLogRecord): string {
+  const body = anyValueToJs(record.body);
+  const message = typeof body === 'string' ? body : body === null || body === undefined ? '' : JSON.stringify(body);
+
+  if (message.trim().length > 0) {
+    return message;
+  }
+  return record.eventName || record.severityText || '(empty log record)';
+}
+
+function attributesToObject(attributes: OtlpKeyValue[] | undefined): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const attribute of asArray(attributes)) {
+    if (attribute && typeof attribute.key === 'string') {
+      result[attribute.key] = anyValueToJs(attribute.value);
+    }
+  }
+  return result;
+}
+
+/**
+ * `{"http.method": "GET"}` becomes `{http: {method: "GET"}}`, so ctx paths
+ * reach it; a dotted key that collides with another value stays flat
+ */
+function nestAttributes(attributes: Record<string, unknown>): Record<string, unknown> {
+  const entries = Object.entries(attributes);
+  const result: Record<string, unknown> = Object.fromEntries(entries.filter(([key]) => !key.includes('.')));
+
+  for (const [key, value] of entries.filter(([key]) => key.includes('.'))) {
+    const parts = key.split('.');
+    const leaf = parts.pop()!;
+    let target: Record<string, unknown> | null = parts.every(part => part.length > 0) && leaf.length > 0 ? result : null;
+
+    for (const part of parts) {
+      if (!target) break;
+      if (target[part] === undefined) {
+        target[part] = {};
+      }
+      const next: unknown = target[part];
+      target = isPlainObject(next) ? next : null;
+    }
+
+    if (target && target[leaf] === undefined) {
+      target[leaf] = value;
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
+
+function anyValueToJs(value: OtlpAnyValue | undefined): unknown {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  if (value.stringValue !== undefined) return String(value.stringValue);
+  if (value.boolValue !== undefined) return Boolean(value.boolValue);
+  if (value.intValue !== undefined) {
+    const number = Number(value.intValue);
+    return Number.isSafeInteger(number) ? number : String(value.intValue);
+  }
+  if (value.doubleValue !== undefined) return Number(value.doubleValue);
+  if (value.arrayValue !== undefined) return asArray(value.arrayValue.values).map(anyValueToJs);
+  if (value.kvlistValue !== undefined) return attributesToObject(value.kvlistValue.values);
+  if (value.bytesValue !== undefined) return String(value.bytesValue);
+  return null;
+}
+
+function stringAttribute(attributes: Record<string, unknown>, key: string): string | undefined {
+  const value = attributes[key];
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+/**
+ * Trace and span ids are hex; all zeros means unset
+ */
+function validId(id: string | undefined): string | undefined {
+  return typeof id === 'string' && /^[0-9a-f]+$/i.test(id) && !/^0+$/.test(id) ? id.toLowerCase() : undefined;
+}
+
+function nanosToIso(nanos: string | number | undefined): string | undefined {
+  if (nanos === undefined || nanos === null || nanos === '' || !/^\d+$/.test(String(nanos))) {
+    return undefined;
+  }
+  const millis = Number(BigInt(String(nanos)) / 1_000_000n);
+  if (millis <= 0) {
+    return undefined;
+  }
+  const date = new Date(millis);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asArray<T>(value: T[] | undefined): T[] {
+  return Array.isArray(value) ? value : [];
+}
+
+// ===== PROTOBUF =====
+
+interface ProtoField {
+  field: number;
+  wireType: number;
+  varint?: bigint;
+  bytes?: Buffer; // Length-delimited, fixed64 or fixed32 payload
+}
+
+/**
+ * Decode a protobuf ExportLogsServiceRequest
+ * Only the fields the mapping uses are read; others are skipped
+ */
+export function decodeOtlpLogsProtobuf(buffer: Buffer): OtlpLogsRequest {
+  try {
+    return {
+      resourceLogs: fieldsOf(buffer, 1).map(resourceLogs => ({
+        resource: { attributes: fieldsOf(messageField(resourceLogs, 1), 1).map(decodeKeyValue) },
+        scopeLogs: fieldsOf(resourceLogs, 2).map(scopeLogs => {
+          const scope = messageField(scopeLogs, 1);
+          return {
+            scope: {
+              name: stringField(scope, 1) ?? '',
+              version: stringField(scope, 2) ?? '',
+              attributes: fieldsOf(scope, 3).map(decodeKeyValue)
+            },
+            logRecords: fieldsOf(scopeLogs, 2).map(decodeLogRecord)
+          };
+        })
+      }))
+    };
+  } catch (error) {
+    throw new ValidationError(
+      `Invalid OTLP protobuf payload: ${error instanceof Error ? error.message : 'decode failed'}`,
+      'body',
+      'INVALID_OTLP_PAYLOAD'
+    );
+  }
+}
+
+function decodeLogRecord(record: Buffer): OtlpLogRecord {
+  const fields = readFields(record);
+  const find = (field: number) => fields.find(entry => entry.field === field);
+  const fixed64 = (field: number) => find(field)?.bytes?.readBigUInt64LE(0).toString();
+  const body = find(5)?.bytes;
+
+  return {
+    timeUnixNano: fixed64(1) ?? '0',
+    observedTimeUnixNano: fixed64(11) ?? '0',
+    severityNumber: Number(find(2)?.varint ?? 0n),
+    severityText: stringField(record, 3) ?? '',
+    ...(body ? { body: decodeAnyValue(body) } : {}),
+    attributes: fields.filter(entry => entry.field === 6 && entry.bytes).map(entry => decodeKeyValue(entry.bytes!)),
+    traceId: find(9)?.bytes?.toString('hex') ?? '',
+    spanId: find(10)?.bytes?.toString('hex') ?? '',
+    eventName: stringField(record, 12) ?? ''
+  };
+}
+
+function decodeKeyValue(buffer: Buffer): OtlpKeyValue {
+  const value = fieldsOf(buffer, 2)[0];
+  return {
+    key: stringField(buffer, 1) ?? '',
+    ...(value ? { value: decodeAnyValue(value) } : {})
+  };
+}
+
+function decodeAnyValue(buffer: Buffer): OtlpAnyValue {
+  const entry = readFields(buffer)[0];
+  if (!entry) {
+    return {};
+  }
+
+  switch (entry.field) {
+    case 1: return { stringValue: entry.bytes?.toString('utf8') ?? '' };
+    case 2: return { boolValue: (entry.varint ?? 0n) !== 0n };
+    case 3: return { intValue: BigInt.asIntN(64, entry.varint ?? 0n).toString() };
+    case 4: return { doubleValue: entry.bytes?.readDoubleLE(0) ?? 0 };
+    case 5: return { arrayValue: { values: fieldsOf(entry.bytes!, 1).map(decodeAnyValue) } };
+    case 6: return { kvlistValue: { values: fieldsOf(entry.bytes!, 1).map(decodeKeyValue) } };
+    case 7: return { bytesValue: entry.bytes?.toString('base64') ?? '' };
+    default: return {};
+  }
+}
+
+/**
+ * Payloads of every length-delimited occurrence of a field
+ */
+function fieldsOf(buffer: Buffer, field: number): Buffer[] {
+  return readFields(buffer)
+    .filter(entry => entry.field === field && entry.wireType === 2)
+    .map(entry => entry.bytes!);
+}
+
+function messageField(buffer: Buffer, field: number): Buffer {
+  return fieldsOf(buffer, field)[0] ?? Buffer.alloc(0);
+}
+
+function stringField(buffer: Buffer, field: number): string | undefined {
+  return fieldsOf(buffer, field)[0]?.toString('utf8');
+}
+
+/**
+ * Split one message level into its fields
+ */
+function readFields(buffer: Buffer): ProtoField[] {
+  const fields: ProtoField[] = [];
+  let offset = 0;
+
+  const readVarint = (): bigint => {
+    let result = 0n;
+    for (let shift = 0n; shift < 70n; shift += 7n) {
+      if (offset >= buffer.length) {
+        throw new Error('truncated varint');
+      }
+      const byte = buffer[offset++]!;
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) {
+        return result;
+      }
+    }
+    throw new Error('varint too long');
+  };
+
+  const take = (length: number): Buffer => {
+    if (length < 0 || offset + length > buffer.length) {
+      throw new Error('truncated field');
+    }
+    const bytes = buffer.subarray(offset, offset + length);
+    offset += length;
+    return bytes;
+  };
+
+  while (offset < buffer.length) {
+    const key = readVarint();
+    const field = Number(key >> 3n);
+    const wireType = Number(key & 7n);
+
+    switch (wireType) {
+      case 0:
+        fields.push({ field, wireType, varint: readVarint() });
+        break;
+      case 1:
+        fields.push({ field, wireType, bytes: take(8) });
+        break;
+      case 2:
+        fields.push({ field, wireType, bytes: take(Number(readVarint())) });
+        break;
+      case 5:
+        fields.push({ field, wireType, bytes: take(4) });
+        break;
+      default:
+        throw new Error(`unsupported wire type ${wireType}`);
+    }
+  }
+
+  return fields;
+}
@@ -0,0 +1,465 @@
+/**
+ * Log query language
+ * Parses compact queries such as `level:error source:api.* ctx.user.plan:pro`
+ * into a WHERE condition for the logs table
+ *
+ *   field:value          exact match, `*` and `?` wildcards, `field:*` for "has a value"
+ *   ts>=now-1h           comparisons (>, >=, <, <=) on ts, level and ctx paths
+ *   ctx.user.plan:pro    ctx_json lookups by dotted path
+ *   timeout "conn reset" bare words and phrases search the message (full-text)
+ *   -env:dev, NOT x      negation; AND (implicit), OR and parentheses
+ */
+
+import { buildMessageMatch } from '@/services/search';
+import { QuerySyntaxError, ValidationError, type LogLevel } from '@/types';
+
+type Comparator = ':' | '>' | '>=' | '<' | '<=';
+
+/**
+ * Dotted ctx path -> generated column promoted for a project (see ctxFields)
+ */
+export type CtxColumns = Map<string, string>;
+
+export interface CompileOptions {
+  alias?: string; // Column prefix, "l." when logs is joined
+  now?: number; // Reference time for now-1h
+  ctxColumns?: CtxColumns;
+}
+
+export type QueryNode =
+  | { type: 'and' | 'or'; nodes: QueryNode[] }
+  | { type: 'not'; node: QueryNode }
+  | QueryTerm;
+
+export interface QueryTerm {
+  type: 'term';
+  field: string | null; // null for bare message words
+  op: Comparator;
+  value: string;
+  quoted: boolean;
+  position: number; // 1-based offset of the term, for error messages
+  valuePosition: number;
+}
+
+type Token =
+  | { type: '(' | ')' | 'and' | 'or' | 'not'; position: number }
+  | QueryTerm;
+
+const LEVEL_ORDER: LogLevel[] = ['debug', 'info', 'warn', 'error', 'fatal'];
+
+// Plain columns that take exact or wildcard matches
+const COLUMN_FIELDS: Record<string, string> = {
+  source: 'source',
+  env: 'env',
+  user_id: 'user_id',
+  request_id: 'request_id',
+  fingerprint: 'fingerprint'
+};
+
+const RELATIVE_UNITS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+
+/**
+ * Parse a query string; returns null for an empty query
+ */
+export function parseLogQuery(input: string): QueryNode | null {
+  const tokens = tokenize(input);
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  let index = 0;
+  const peek = (): Token | undefined => tokens[index];
+
+  const parseOr = (): QueryNode => {
+    const nodes = [parseAnd()];
+    while (peek()?.type === 'or') {
+      index++;
+      nodes.push(parseAnd());
+    }
+    return nodes.length === 1 ? nodes[0]! : { type: 'or', nodes };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const nodes = [parseUnary()];
+    for (let next = peek(); next && next.type !== 'or' && next.type !== ')'; next = peek()) {
+      if (next.type === 'and') {
+        index++;
+      }
+      nodes.push(parseUnary());
+    }
+    return nodes.length === 1 ? nodes[0]! : { type: 'and', nodes };
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = peek();
+    if (!token) {
+      throw new QuerySyntaxError(`Unexpected end of query at position ${input.length + 1}`, input.length + 1);
+    }
+    index++;
+
+    switch (token.type) {
+      case 'not':
+        return { type: 'not', node: parseUnary() };
+      case '(': {
+        const node = parseOr();
+        if (peek()?.type !== ')') {
+          throw new QuerySyntaxError(`Unclosed '(' at position ${token.position}`, token.position);
+        }
+        index++;
+        return node;
+      }
+      case 'term':
+        return token;
+      default:
+        throw new QuerySyntaxError(`Unexpected ${describe(token)} at position ${token.position}`, token.position);
+    }
+  };
+
+  const node = parseOr();
+  const rest = peek();
+  if (rest) {
+    throw new QuerySyntaxError(`Unexpected ${describe(rest)} at position ${rest.position}`, rest.position);
+  }
+
+  compileNode(node, {}); // Surface invalid values at parse time
+  return node;
+}
+
+/**
+ * SQL condition and parameters for a query
+ */
+export function compileLogQuery(input: string, options: CompileOptions = {}): { condition: string; params: any[] } {
+  const node = parseLogQuery(input);
+  if (!node) {
+    return { condition: '1=1', params: [] };
+  }
+  return compileNode(node, options);
+}
+
+/**
+ * Condition for a `ctx.<path>=value` request parameter: `*` for "has a value",
+ * `min..max` for a numeric range (either end may be left out), otherwise
+ * equality with the same wildcards as the query language
+ */
+export function compileCtxFilter(path: string, value: string, options: CompileOptions = {}): { condition: string; params: any[] } {
+  ctxJsonPath(path);
+  const field = `ctx.${path}`;
+  const term = (op: Comparator, termValue: string): QueryTerm => ({
+    type: 'term', field, op, value: termValue, quoted: false, position: 1, valuePosition: 1
+  });
+
+  const range = value.match(/^(.*)\.\.(.*)$/);
+  if (!range) {
+    return compileTerm(term(':', value), options);
+  }
+
+  const bounds = [[range[1] ?? '', '>='], [range[2] ?? '', '<=']] as const;
+  const parts = bounds
+    .filter(([bound]) => bound.trim() !== '')
+    .map(([bound, op]) => {
+      if (!Number.isFinite(Number(bound))) {
+        throw new ValidationError(`Invalid range for ${field}: ${value}`, field, 'INVALID_CTX_FILTER');
+      }
+      return compileTerm(term(op, bound), options);
+    });
+
+  if (parts.length === 0) {
+    throw new ValidationError(`Invalid range for ${field}: ${value}`, field, 'INVALID_CTX_FILTER');
+  }
+
+  return {
+    condition: parts.map(part => part.condition).join(' AND '),
+    params: parts.flatMap(part => part.params)
+  };
+}
+
+/**
+ * SQL for a ctx value as text, from the promoted column when there is one
+ */
+export function ctxValueExpression(path: string, options: CompileOptions = {}): { sql: string; params: any[] } {
+  const alias = options.alias ?? '';
+  const column = options.ctxColumns?.get(path);
+  if (column) {
+    return { sql: `${alias}${column}`, params: [] };
+  }
+  return { sql: `JSON_UNQUOTE(JSON_EXTRACT(${alias}ctx_json, ?))`, params: [ctxJsonPath(path)] };
+}
+
+/**
+ * `user.plan` -> `$."user"."plan"`; segments are restricted so they can be quoted safely
+ */
+export function ctxJsonPath(path: string): string {
+  if (!isValidCtxPath(path)) {
+    throw new ValidationError(`Invalid ctx path '${path}'`, 'path', 'INVALID_CTX_PATH');
+  }
+  return `$${path.split('.').map(segment => `."${segment}"`).join('')}`;
+}
+
+function compileNode(node: QueryNode, options: CompileOptions): { condition: string; params: any[] } {
+  if (node.type === 'term') {
+    return compileTerm(node, options);
+  }
+
+  if (node.type === 'not') {
+    // COALESCE so that NULL columns count as "not matching" rather than unknown
+    const inner = compileNode(node.node, options);
+    return { condition: `NOT COALESCE(${inner.condition}, FALSE)`, params: inner.params };
+  }
+
+  const parts = node.nodes.map(child => compileNode(child, options));
+  return {
+    condition: `(${parts.map(part => part.condition).join(node.type === 'and' ? ' AND ' : ' OR ')})`,
+    params: parts.flatMap(part => part.params)
+  };
+}
+
+function compileTerm(term: QueryTerm, options: CompileOptions): { condition: string; params: any[] } {
+  const { field, op, value } = term;
+  const alias = options.alias ?? '';
+  const wildcard = !term.quoted && /[*?]/.test(value);
+  const exists = !term.quoted && value === '*';
+
+  if (field === null || field === 'message' || field === 'msg') {
+    return buildMessageMatch(term.quoted ? `"${value}"` : value, `${alias}message`);
+  }
+
+  const column = COLUMN_FIELDS[field];
+  if (column) {
+    requireEquality(term);
+    if (exists) {
+      return { condition: `${alias}${column} IS NOT NULL`, params: [] };
+    }
+    return wildcard
+      ? { condition: `${alias}${column} LIKE ?`, params: [wildcardToLike(value)] }
+      : { condition: `${alias}${column} = ?`, params: [value] };
+  }
+
+  if (field === 'level') {
+    const level = value.toLowerCase() as LogLevel;
+    const rank = LEVEL_ORDER.indexOf(level);
+    if (rank === -1) {
+      throw invalidValue(term, `Unknown level '${value}'`);
+    }
+    if (op === ':') {
+      return { condition: `${alias}level = ?`, params: [level] };
+    }
+    const levels = LEVEL_ORDER.filter((_, i) => compare(i, op, rank));
+    if (levels.length === 0) {
+      return { condition: '1=0', params: [] };
+    }
+    return { condition: `${alias}level IN (${levels.map(() => '?').join(', ')})`, params: levels };
+  }
+
+  if (field === 'tag' || field === 'tags') {
+    requireEquality(term);
+    if (exists) {
+      return { condition: `COALESCE(${alias}tags, '') <> ''`, params: [] };
+    }
+    if (wildcard) {
+      throw invalidValue(term, `Wildcards are not supported for ${field}`);
+    }
+    return { condition: `FIND_IN_SET(?, REPLACE(COALESCE(${alias}tags, ''), ' ', '')) > 0`, params: [value] };
+  }
+
+  if (field === 'ts') {
+    if (op === ':') {
+      throw new QuerySyntaxError(
+        `Use a comparison such as ts>=now-1h at position ${term.position}`,
+        term.position
+      );
+    }
+    return { condition: `${alias}ts ${op} ?`, params: [parseTimestamp(term, options.now ?? Date.now())] };
+  }
+
+  if (field.startsWith('ctx.')) {
+    const path = field.slice(4);
+    if (!isValidCtxPath(path)) {
+      throw new QuerySyntaxError(`Invalid ctx path '${field}' at position ${term.position}`, term.position);
+    }
+
+    const numeric = !term.quoted && value.trim() !== '' && Number.isFinite(Number(value));
+    if (op !== ':' && numeric) {
+      // Numbers compare against the JSON number; promoted columns hold text
+      return { condition: `JSON_EXTRACT(${alias}ctx_json, ?) ${op} ?`, params: [ctxJsonPath(path), Number(value)] };
+    }
+
+    const text = ctxValueExpression(path, options);
+    if (exists) {
+      return { condition: `${text.sql} IS NOT NULL`, params: text.params };
+    }
+    if (op !== ':') {
+      return { condition: `${text.sql} ${op} ?`, params: [...text.params, value] };
+    }
+    return wildcard
+      ? { condition: `${text.sql} LIKE ?`, params: [...text.params, wildcardToLike(value)] }
+      : { condition: `${text.sql} = ?`, params: [...text.params, value] };
+  }
+
+  throw new QuerySyntaxError(`Unknown field '${field}' at position ${term.position}`, term.position);
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  const fieldPattern = /([A-Za-z_][\w.-]*)(:>=|:<=|:>|:<|>=|<=|:|>|<)/y;
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input.charAt(i);
+    const position = i + 1;
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ type: char, position });
+      i++;
+      continue;
+    }
+
+    // A leading "-" negates the following term or group
+    if (char === '-' && i + 1 < input.length && !/[\s)]/.test(input.charAt(i + 1))) {
+      tokens.push({ type: 'not', position });
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      const phrase = readQuoted(input, i);
+      tokens.push({ type: 'term', field: null, op: ':', value: phrase.value, quoted: true, position, valuePosition: position });
+      i = phrase.end;
+      continue;
+    }
+
+    fieldPattern.lastIndex = i;
+    const field = fieldPattern.exec(input);
+    if (field && field[1] && field[2]) {
+      const start = i + field[0].length;
+      const op = field[2].replace(/^:(?=[<>])/, '') as Comparator;
+      let value: string;
+      let quoted = false;
+
+      if (input.charAt(start) === '"') {
+        const phrase = readQuoted(input, start);
+        value = phrase.value;
+        quoted = true;
+        i = phrase.end;
+      } else {
+        i = readWordEnd(input, start);
+        value = input.slice(start, i);
+      }
+
+      if (value === '' && !quoted) {
+        throw new QuerySyntaxError(`Expected a value after '${field[0]}' at position ${start + 1}`, start + 1);
+      }
+
+      tokens.push({ type: 'term', field: normalizeField(field[1]), op, value, quoted, position, valuePosition: start + 1 });
+      continue;
+    }
+
+    const end = readWordEnd(input, i);
+    const word = input.slice(i, end);
+    i = end;
+
+    if (word === 'AND' || word === 'OR' || word === 'NOT') {
+      tokens.push({ type: word.toLowerCase() as 'and' | 'or' | 'not', position });
+    } else {
+      tokens.push({ type: 'term', field: null, op: ':', value: word, quoted: false, position, valuePosition: position });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Field names are case-insensitive, ctx paths are not: JSON keys such as
+ * `userId` have to keep their case to match
+ */
+function normalizeField(field: string): string {
+  const lower = field.toLowerCase();
+  return lower.startsWith('ctx.') ? `ctx.${field.slice(4)}` : lower;
+}
+
+function readQuoted(input: string, start: number): { value: string; end: number } {
+  let value = '';
+  for (let i = start + 1; i < input.length; i++) {
+    const char = input.charAt(i);
+    if (char === '\\' && i + 1 < input.length) {
+      value += input.charAt(++i);
+    } else if (char === '"') {
+      return { value, end: i + 1 };
+    } else {
+      value += char;
+    }
+  }
+  throw new QuerySyntaxError(`Unterminated quote at position ${start + 1}`, start + 1);
+}
+
+function readWordEnd(input: string, start: number): number {
+  let end = start;
+  while (end < input.length && !/[\s()]/.test(input.charAt(end))) {
+    end++;
+  }
+  return end;
+}
+
+function describe(token: Token): string {
+  switch (token.type) {
+    case '(':
+    case ')':
+      return `'${token.type}'`;
+    case 'term':
+      return `'${token.value}'`;
+    default:
+      return token.type.toUpperCase();
+  }
+}
+
+function requireEquality(term: QueryTerm): void {
+  if (term.op !== ':') {
+    throw new QuerySyntaxError(
+      `Comparisons are not supported for ${term.field} at position ${term.position}`,
+      term.position
+    );
+  }
+}
+
+function invalidValue(term: QueryTerm, message: string): QuerySyntaxError {
+  return new QuerySyntaxError(`${message} at position ${term.valuePosition}`, term.valuePosition);
+}
+
+function compare(left: number, op: Comparator, right: number): boolean {
+  switch (op) {
+    case '>': return left > right;
+    case '>=': return left >= right;
+    case '<': return left < right;
+    case '<=': return left <= right;
+    default: return left === right;
+  }
+}
+
+/**
+ * ISO timestamps/dates, `now` or `now-15m` (s, m, h, d, w)
+ */
+function parseTimestamp(term: QueryTerm, now: number): Date {
+  const relative = term.value.match(/^now(?:-(\d+)([smhdw]))?$/);
+  if (relative) {
+    const amount = relative[1] ? Number(relative[1]) * (RELATIVE_UNITS[relative[2] ?? ''] ?? 0) : 0;
+    return new Date(now - amount);
+  }
+
+  const timestamp = Date.parse(term.value);
+  if (!/^\d{4}-\d{2}-\d{2}/.test(term.value) || Number.isNaN(timestamp)) {
+    throw invalidValue(term, `Invalid timestamp '${term.value}'`);
+  }
+  return new Date(timestamp);
+}
+
+export function isValidCtxPath(path: string): boolean {
+  return path.length <= 128 && path.split('.').every(segment => /^[\w-]+$/.test(segment));
+}
+
+function wildcardToLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&').replace(/\*/g, '%').replace(/\?/g, '_');
+}
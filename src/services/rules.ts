@@ -0,0 +1,102 @@
+/**
+ * Custom alert rule matching
+ * Compiles a rule's match expression once and tests ingested events against it
+ */
+
+import type { AlertRuleMatch, LogLevel } from '@/types';
+
+/**
+ * The event fields a rule can match on
+ */
+export interface RuleMatchEvent {
+  level: string;
+  message: string;
+  source: string;
+  env: string;
+  tags: string | null;
+  context: Record<string, unknown> | null;
+}
+
+export type RuleMatcher = (event: RuleMatchEvent) => boolean;
+
+/**
+ * Build a predicate for a match expression - every given condition must hold
+ */
+export function compileRuleMatch(match: AlertRuleMatch): RuleMatcher {
+  const conditions: RuleMatcher[] = [];
+
+  if (match.level) {
+    const levels = match.level;
+    conditions.push(event => levels.includes(event.level as LogLevel));
+  }
+
+  if (match.source) {
+    const source = globToRegExp(match.source);
+    conditions.push(event => source.test(event.source));
+  }
+
+  if (match.env) {
+    const env = match.env;
+    conditions.push(event => event.env === env);
+  }
+
+  if (match.tags) {
+    const required = match.tags;
+    conditions.push(event => {
+      const tags = parseTags(event.tags);
+      return required.every(tag => tags.includes(tag));
+    });
+  }
+
+  if (match.message) {
+    const message = new RegExp(match.message);
+    conditions.push(event => message.test(event.message));
+  }
+
+  if (match.ctx) {
+    const expected = Object.entries(match.ctx);
+    conditions.push(event => expected.every(([path, value]) => getContextPath(event.context, path) === value));
+  }
+
+  return event => conditions.every(condition => condition(event));
+}
+
+/**
+ * Convert a glob ("payments.*", "worker-?") into an anchored regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split('')
+    .map(char => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Read a dotted path ("http.status", "user.roles.0") from an event's ctx
+ * Returns undefined when any segment is missing
+ */
+export function getContextPath(context: Record<string, unknown> | null, path: string): unknown {
+  let current: unknown = context;
+
+  for (const segment of path.split('.')) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  return current;
+}
+
+function parseTags(value: string | null): string[] {
+  if (!value) {
+    return [];
+  }
+  return value.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
+}
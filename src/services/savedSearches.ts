@@ -0,0 +1,221 @@
+/**
+ * Saved searches
+ * Named queries with filters and a time range, shared by short id and reused
+ * by alert rules and digests
+ */
+
+import { randomInt } from 'crypto';
+import { appConfig } from '@/config';
+import { getCtxColumns } from '@/services/ctxFields';
+import { executeQuery, executeQuerySingle } from '@/services/database';
+import { buildLogFilter } from '@/services/search';
+import type { LogSearchQuery, SavedSearch, SavedSearchFilters } from '@/types';
+
+const SHORT_ID_LENGTH = 8;
+const SHORT_ID_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+const SAVED_SEARCH_COLUMNS = `
+  id, short_id, project_id, name, owner, query, filters_json, time_range,
+  range_from, range_to, include_in_digest, created_at, updated_at
+`;
+
+/**
+ * Fields of a saved search as accepted by the admin API
+ */
+export interface SavedSearchInput {
+  name: string;
+  owner?: string | null | undefined;
+  query?: string | null | undefined;
+  filters: SavedSearchFilters;
+  time_range?: string | null | undefined;
+  from?: string | null | undefined;
+  to?: string | null | undefined;
+  include_in_digest: boolean;
+}
+
+export async function getSavedSearch(shortId: string): Promise<SavedSearch | null> {
+  return executeQuerySingle<SavedSearch>(
+    `SELECT ${SAVED_SEARCH_COLUMNS} FROM saved_searches WHERE short_id = ?`,
+    [shortId]
+  );
+}
+
+export async function getSavedSearchById(id: number): Promise<SavedSearch | null> {
+  return executeQuerySingle<SavedSearch>(
+    `SELECT ${SAVED_SEARCH_COLUMNS} FROM saved_searches WHERE id = ?`,
+    [id]
+  );
+}
+
+export async function listSavedSearches(projectId?: number): Promise<SavedSearch[]> {
+  return projectId === undefined
+    ? executeQuery<SavedSearch>(`SELECT ${SAVED_SEARCH_COLUMNS} FROM saved_searches ORDER BY name, id`)
+    : executeQuery<SavedSearch>(
+      `SELECT ${SAVED_SEARCH_COLUMNS} FROM saved_searches WHERE project_id = ? ORDER BY name, id`,
+      [projectId]
+    );
+}
+
+export async function createSavedSearch(projectId: number, input: SavedSearchInput): Promise<SavedSearch> {
+  const shortId = generateShortId();
+
+  await executeQuery(`
+    INSERT INTO saved_searches
+      (short_id, project_id, name, owner, query, filters_json, time_range, range_from, range_to, include_in_digest)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `, [shortId, projectId, ...inputValues(input)]);
+
+  return (await getSavedSearch(shortId))!;
+}
+
+/**
+ * Replace a saved search's fields; returns null if it does not exist
+ */
+export async function updateSavedSearch(shortId: string, input: SavedSearchInput): Promise<SavedSearch | null> {
+  const result = await executeQuery(`
+    UPDATE saved_searches
+    SET name = ?, owner = ?, query = ?, filters_json = ?, time_range = ?, range_from = ?, range_to = ?, include_in_digest = ?
+    WHERE short_id = ?
+  `, [...inputValues(input), shortId]);
+
+  if (((result as any).affectedRows ?? 0) === 0) {
+    return null;
+  }
+  return getSavedSearch(shortId);
+}
+
+/**
+ * Throws the query's QuerySyntaxError or ValidationError if the search would
+ * not run, e.g. for an unknown field or an invalid ctx path
+ */
+export function validateSavedSearch(projectId: number, input: Pick<SavedSearchInput, 'query' | 'filters'>): void {
+  buildLogFilter(projectId, searchFilterQuery(input.query, input.filters));
+}
+
+/**
+ * Matches of each digest search of a project in a digest period, which takes
+ * the place of the searches' own time ranges
+ */
+export async function countDigestSearches(
+  projectId: number,
+  window: { from: Date; to: Date }
+): Promise<Array<{ name: string; short_id: string; url: string; count: number }>> {
+  const searches = await executeQuery<SavedSearch>(`
+    SELECT ${SAVED_SEARCH_COLUMNS}
+    FROM saved_searches
+    WHERE project_id = ? AND include_in_digest = 1
+    ORDER BY name, id
+  `, [projectId]);
+
+  if (searches.length === 0) {
+    return [];
+  }
+
+  const ctxColumns = await getCtxColumns(projectId);
+  const counts = [];
+
+  for (const search of searches) {
+    const { where, params } = buildLogFilter(
+      projectId,
+      searchFilterQuery(search.query, parseFilters(search.filters_json)),
+      ctxColumns
+    );
+
+    const row = await executeQuerySingle<{ total: number }>(`
+      SELECT COUNT(*) AS total FROM logs WHERE ${where} AND ts >= ? AND ts < ?
+    `, [...params, window.from, window.to]);
+
+    counts.push({
+      name: search.name,
+      short_id: search.short_id,
+      url: getSavedSearchUrl(search.short_id),
+      count: Number(row?.total ?? 0)
+    });
+  }
+
+  return counts;
+}
+
+/**
+ * Ids among a stored batch that a saved search matches, with the search
+ * tab's SQL; the search's time range is ignored
+ */
+export async function matchSavedSearchBatch(
+  projectId: number,
+  search: { query?: string | null | undefined; filters: SavedSearchFilters },
+  ids: number[]
+): Promise<Set<number>> {
+  if (ids.length === 0) {
+    return new Set();
+  }
+
+  const { where, params } = buildLogFilter(
+    projectId,
+    searchFilterQuery(search.query, search.filters),
+    await getCtxColumns(projectId)
+  );
+
+  const rows = await executeQuery<{ id: number }>(`
+    SELECT id FROM logs WHERE ${where} AND id IN (${ids.map(() => '?').join(', ')})
+  `, [...params, ...ids]);
+
+  return new Set(rows.map(row => Number(row.id)));
+}
+
+/**
+ * Dashboard link that opens the search tab with the saved search loaded
+ */
+export function getSavedSearchUrl(shortId: string): string {
+  const params = new URLSearchParams({ tab: 'search', saved: shortId });
+  return `${appConfig.server.publicUrl}/?${params.toString()}`;
+}
+
+/**
+ * Shape a saved search for API responses
+ */
+export function serializeSavedSearch(search: SavedSearch): Record<string, unknown> {
+  const { filters_json, range_from, range_to, ...rest } = search;
+  return {
+    ...rest,
+    filters: parseFilters(filters_json),
+    from: range_from ?? null,
+    to: range_to ?? null,
+    include_in_digest: Boolean(search.include_in_digest),
+    url: getSavedSearchUrl(search.short_id)
+  };
+}
+
+export function parseFilters(value: SavedSearch['filters_json'] | string): SavedSearchFilters {
+  if (!value) {
+    return {};
+  }
+  return typeof value === 'string' ? JSON.parse(value) : value;
+}
+
+/**
+ * Query and filters as log query parameters, without the time range
+ */
+function searchFilterQuery(query: string | null | undefined, filters: SavedSearchFilters): Partial<LogSearchQuery> {
+  return { ...filters, ...(query ? { query } : {}) };
+}
+
+function generateShortId(): string {
+  let id = '';
+  for (let i = 0; i < SHORT_ID_LENGTH; i++) {
+    id += SHORT_ID_ALPHABET.charAt(randomInt(SHORT_ID_ALPHABET.length));
+  }
+  return id;
+}
+
+function inputValues(input: SavedSearchInput): any[] {
+  return [
+    input.name,
+    input.owner ?? null,
+    input.query ?? null,
+    JSON.stringify(input.filters),
+    input.time_range ?? null,
+    input.from ? new Date(input.from) : null,
+    input.to ? new Date(input.to) : null,
+    input.include_in_digest
+  ];
+}
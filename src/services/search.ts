@@ -0,0 +1,482 @@
+/**
+ * Log search
+ * Builds project-scoped log filters and runs paged searches over them
+ */
+
+import { executeQuery, executeQuerySingle } from '@/services/database';
+import { getCtxColumns } from '@/services/ctxFields';
+import { compileCtxFilter, compileLogQuery, ctxValueExpression, isValidCtxPath, type CtxColumns } from '@/services/queryLanguage';
+import { ValidationError, type LogGroupResponse, type LogSearchQuery, type StoredLogEvent } from '@/types';
+
+export const LOG_COLUMNS = `
+  id, project_id, ts, level, message, source, env, ctx_json,
+  user_id, request_id, tags, fingerprint, day_id, created_at
+`;
+
+const GROUPABLE_COLUMNS = ['level', 'source', 'env', 'user_id', 'request_id', 'fingerprint'];
+
+// InnoDB's defaults: innodb_ft_min_token_size and the built-in stopword list.
+// Such words are not in ft_message, so they are matched with LIKE instead.
+const FULLTEXT_MIN_TOKEN = 3;
+const FULLTEXT_STOPWORDS = new Set([
+  'a', 'about', 'an', 'are', 'as', 'at', 'be', 'by', 'com', 'de', 'en', 'for', 'from', 'how', 'i',
+  'in', 'is', 'it', 'la', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when',
+  'where', 'who', 'will', 'with', 'und', 'www'
+]);
+
+export type LogRow = Omit<StoredLogEvent, 'ts' | 'ctx' | 'ctx_json'> & {
+  ts: Date;
+  ctx_json: string | Record<string, unknown> | null;
+};
+
+/**
+ * Decoded keyset position: "next" pages continue after (ts, id) towards older
+ * logs, "prev" pages go back towards newer ones
+ */
+export interface PageCursor {
+  direction: 'next' | 'prev';
+  ts: Date;
+  id: number;
+}
+
+export type LogContextField = 'source' | 'env' | 'request_id';
+
+export interface PageLinks {
+  next_cursor: string | null;
+  prev_cursor: string | null;
+}
+
+/**
+ * WHERE clause (without the keyword) and parameters for a project's log search
+ * `ctxColumns` are the project's promoted ctx paths, used instead of JSON_EXTRACT
+ */
+export function buildLogFilter(
+  projectId: number,
+  query: Partial<LogSearchQuery>,
+  ctxColumns?: CtxColumns
+): { where: string; params: any[] } {
+  const options = ctxColumns ? { ctxColumns } : {};
+  const conditions: string[] = ['project_id = ?'];
+  const params: any[] = [projectId];
+
+  if (query.level) {
+    conditions.push('level = ?');
+    params.push(query.level);
+  }
+
+  if (query.fingerprint) {
+    conditions.push('fingerprint = ?');
+    params.push(query.fingerprint);
+  }
+
+  if (query.q) {
+    const match = buildMessageMatch(query.q);
+    conditions.push(match.condition);
+    params.push(...match.params);
+  }
+
+  if (query.from) {
+    conditions.push('ts >= ?');
+    params.push(new Date(query.from));
+  }
+
+  if (query.to) {
+    conditions.push('ts <= ?');
+    params.push(new Date(query.to));
+  }
+
+  for (const column of ['source', 'env', 'user_id', 'request_id'] as const) {
+    const value = query[column];
+    if (value) {
+      conditions.push(`${column} = ?`);
+      params.push(value);
+    }
+  }
+
+  // Tags are stored comma-separated; every requested tag must be present
+  for (const tag of parseTagList(query.tags)) {
+    conditions.push(`FIND_IN_SET(?, REPLACE(COALESCE(tags, ''), ' ', '')) > 0`);
+    params.push(tag);
+  }
+
+  for (const [path, value] of Object.entries(query.ctx ?? {})) {
+    const filter = compileCtxFilter(path, value, options);
+    conditions.push(filter.condition);
+    params.push(...filter.params);
+  }
+
+  if (query.query) {
+    const compiled = compileLogQuery(query.query, options);
+    conditions.push(compiled.condition);
+    params.push(...compiled.params);
+  }
+
+  return { where: conditions.join(' AND '), params };
+}
+
+/**
+ * One page of matching logs, newest first, with the total number of matches
+ * A cursor takes precedence over offset
+ */
+export async function searchLogs(
+  projectId: number,
+  query: LogSearchQuery
+): Promise<{ logs: StoredLogEvent[]; total: number } & PageLinks> {
+  const { where, params } = buildLogFilter(projectId, query, await getCtxColumns(projectId));
+  const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+  const keyset = keysetClause(cursor);
+
+  // One extra row tells whether another page follows
+  const rows = await executeQuery<LogRow>(`
+    SELECT ${LOG_COLUMNS}
+    FROM logs
+    WHERE ${where} ${keyset.condition}
+    ORDER BY ${keyset.order}
+    LIMIT ? OFFSET ?
+  `, [...params, ...keyset.params, String(query.limit + 1), String(cursor ? 0 : query.offset)]);
+
+  const count = await executeQuerySingle<{ total: number }>(`
+    SELECT COUNT(*) as total
+    FROM logs
+    WHERE ${where}
+  `, params);
+
+  const page = paginate(rows, query.limit, cursor, query.offset > 0);
+
+  return {
+    logs: page.rows.map(decodeLogRow),
+    total: Number(count?.total ?? 0),
+    next_cursor: page.next_cursor,
+    prev_cursor: page.prev_cursor
+  };
+}
+
+/**
+ * Matching logs counted per value of a column or ctx path, largest groups first
+ */
+export async function groupLogs(
+  projectId: number,
+  query: LogSearchQuery & { group_by: string }
+): Promise<LogGroupResponse> {
+  const ctxColumns = await getCtxColumns(projectId);
+  const { where, params } = buildLogFilter(projectId, query, ctxColumns);
+  const group = groupByExpression(query.group_by, { ctxColumns });
+
+  const groups = await executeQuery<{ value: string | null; count: number }>(`
+    SELECT ${group.sql} AS \`value\`, COUNT(*) AS count
+    FROM logs
+    WHERE ${where}
+    GROUP BY \`value\`
+    ORDER BY count DESC, \`value\`
+    LIMIT ?
+  `, [...group.params, ...params, String(query.limit)]);
+
+  const count = await executeQuerySingle<{ total: number }>(`
+    SELECT COUNT(*) as total
+    FROM logs
+    WHERE ${where}
+  `, params);
+
+  return {
+    group_by: query.group_by,
+    groups: groups.map(row => ({ value: row.value === null ? null : String(row.value), count: Number(row.count) })),
+    total: Number(count?.total ?? 0)
+  };
+}
+
+/**
+ * SQL for a group_by parameter: one of GROUPABLE_COLUMNS or ctx.<path>
+ */
+export function groupByExpression(
+  groupBy: string,
+  options: { alias?: string; ctxColumns?: CtxColumns } = {}
+): { sql: string; params: any[] } {
+  if (GROUPABLE_COLUMNS.includes(groupBy)) {
+    return { sql: `${options.alias ?? ''}${groupBy}`, params: [] };
+  }
+
+  if (groupBy.startsWith('ctx.') && isValidCtxPath(groupBy.slice(4))) {
+    return ctxValueExpression(groupBy.slice(4), options);
+  }
+
+  throw new ValidationError(
+    `Invalid group_by: use ${GROUPABLE_COLUMNS.join(', ')} or ctx.<path>`,
+    'group_by',
+    'INVALID_GROUP_BY'
+  );
+}
+
+/**
+ * Move `ctx.<path>=value` request parameters into a `ctx` object, the shape
+ * logQuerySchema expects
+ */
+export function foldCtxParams(raw: Record<string, unknown>): Record<string, unknown> {
+  const folded: Record<string, unknown> = {};
+  const ctx: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(raw)) {
+    if (key.startsWith('ctx.')) {
+      ctx[key.slice(4)] = value;
+    } else {
+      folded[key] = value;
+    }
+  }
+
+  if (Object.keys(ctx).length > 0) {
+    folded.ctx = ctx;
+  }
+  return folded;
+}
+
+/**
+ * Opaque cursor for a row position
+ */
+export function encodeCursor(direction: PageCursor['direction'], row: { ts: Date | string; id: number }): string {
+  const payload = `${direction === 'next' ? 'n' : 'p'}:${new Date(row.ts).getTime()}:${row.id}`;
+  return Buffer.from(payload, 'utf8').toString('base64url');
+}
+
+/**
+ * Parse a cursor from a request, rejecting anything malformed
+ */
+export function decodeCursor(value: string): PageCursor {
+  const match = Buffer.from(value, 'base64url').toString('utf8').match(/^([np]):(\d{1,15}):(\d{1,20})$/);
+  if (!match || !match[1] || !match[2] || !match[3]) {
+    throw new ValidationError('Invalid cursor', 'cursor', 'INVALID_CURSOR');
+  }
+
+  return {
+    direction: match[1] === 'n' ? 'next' : 'prev',
+    ts: new Date(Number(match[2])),
+    id: Number(match[3])
+  };
+}
+
+/**
+ * Extra WHERE condition (starting with AND) and ORDER BY for a keyset page
+ * Ordering by (ts, id) lets MySQL walk idx_proj_ts, which carries the primary key
+ */
+export function keysetClause(cursor: PageCursor | null, alias: string = ''): { condition: string; params: any[]; order: string } {
+  const ts = `${alias}ts`;
+  const id = `${alias}id`;
+
+  if (!cursor) {
+    return { condition: '', params: [], order: `${ts} DESC, ${id} DESC` };
+  }
+
+  if (cursor.direction === 'next') {
+    return {
+      condition: `AND (${ts} < ? OR (${ts} = ? AND ${id} < ?))`,
+      params: [cursor.ts, cursor.ts, cursor.id],
+      order: `${ts} DESC, ${id} DESC`
+    };
+  }
+
+  // Walk backwards in ascending order, then flip the page (see paginate)
+  return {
+    condition: `AND (${ts} > ? OR (${ts} = ? AND ${id} > ?))`,
+    params: [cursor.ts, cursor.ts, cursor.id],
+    order: `${ts} ASC, ${id} ASC`
+  };
+}
+
+/**
+ * Trim the look-ahead row, restore newest-first order and build page cursors
+ * `rows` must come from a query using keysetClause with LIMIT limit + 1
+ */
+export function paginate<T extends { ts: Date | string; id: number }>(
+  rows: T[],
+  limit: number,
+  cursor: PageCursor | null,
+  hasOffset: boolean = false
+): { rows: T[] } & PageLinks {
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+
+  if (cursor?.direction === 'prev') {
+    page.reverse();
+  }
+
+  const first = page[0];
+  const last = page[page.length - 1];
+  const movingBack = cursor?.direction === 'prev';
+
+  return {
+    rows: page,
+    next_cursor: last && (movingBack || hasMore) ? encodeCursor('next', last) : null,
+    prev_cursor: first && (movingBack ? hasMore : cursor !== null || hasOffset) ? encodeCursor('prev', first) : null
+  };
+}
+
+/**
+ * A single log event, only if it belongs to the project
+ */
+export async function getLogById(projectId: number, id: number): Promise<StoredLogEvent | null> {
+  const row = await executeQuerySingle<LogRow>(`
+    SELECT ${LOG_COLUMNS}
+    FROM logs
+    WHERE id = ? AND project_id = ?
+  `, [id, projectId]);
+
+  return row ? decodeLogRow(row) : null;
+}
+
+/**
+ * The events logged just before and after one, oldest first on both sides
+ * `same` keeps only events sharing the anchor's source, env or request_id
+ */
+export async function getLogContext(
+  projectId: number,
+  id: number,
+  options: { before: number; after: number; same: LogContextField[] }
+): Promise<{ log: StoredLogEvent; before: StoredLogEvent[]; after: StoredLogEvent[] } | null> {
+  const anchor = await executeQuerySingle<LogRow>(`
+    SELECT ${LOG_COLUMNS}
+    FROM logs
+    WHERE id = ? AND project_id = ?
+  `, [id, projectId]);
+
+  if (!anchor) {
+    return null;
+  }
+
+  const conditions = ['project_id = ?'];
+  const params: any[] = [projectId];
+  for (const field of options.same) {
+    const value = anchor[field];
+    conditions.push(value === null || value === undefined ? `${field} IS NULL` : `${field} = ?`);
+    if (value !== null && value !== undefined) {
+      params.push(value);
+    }
+  }
+
+  // Keyset conditions from the anchor keep both walks on idx_proj_ts
+  const position = { ts: new Date(anchor.ts), id: anchor.id };
+  const fetchSide = async (direction: PageCursor['direction'], limit: number): Promise<LogRow[]> => {
+    if (limit === 0) {
+      return [];
+    }
+    const keyset = keysetClause({ direction, ...position });
+    return executeQuery<LogRow>(`
+      SELECT ${LOG_COLUMNS}
+      FROM logs
+      WHERE ${conditions.join(' AND ')} ${keyset.condition}
+      ORDER BY ${keyset.order}
+      LIMIT ?
+    `, [...params, ...keyset.params, String(limit)]);
+  };
+
+  const before = await fetchSide('next', options.before);
+  const after = await fetchSide('prev', options.after);
+
+  return {
+    log: decodeLogRow(anchor),
+    before: before.reverse().map(decodeLogRow),
+    after: after.map(decodeLogRow)
+  };
+}
+
+/**
+ * API shape of a stored row: ISO timestamp and the decoded ctx object
+ */
+export function decodeLogRow(row: LogRow): StoredLogEvent {
+  const { ctx_json, ts, ...rest } = row;
+  const event: StoredLogEvent = { ...rest, ts: new Date(ts).toISOString() };
+
+  let ctx: Record<string, unknown> | undefined;
+  if (typeof ctx_json === 'string') {
+    try {
+      ctx = JSON.parse(ctx_json);
+    } catch {
+      ctx = { _raw: ctx_json };
+    }
+  } else if (ctx_json) {
+    ctx = ctx_json;
+  }
+
+  if (ctx) {
+    event.ctx = ctx;
+  }
+  return event;
+}
+
+/**
+ * Boolean-mode full-text condition for a message search
+ *
+ * Supports "exact phrases", prefix*, -exclusions and +required terms; plain
+ * terms are all required. Terms with words the index can't see (too short,
+ * stopwords) fall back to LIKE so they still narrow the result.
+ */
+export function buildMessageMatch(q: string, column: string = 'message'): { condition: string; params: string[] } {
+  const required: string[] = [];
+  const excluded: string[] = [];
+  const likes: Array<{ value: string; negate: boolean }> = [];
+
+  for (const token of q.matchAll(/([+-]?)"([^"]*)"?|(\S+)/g)) {
+    let operator = token[1] ?? '';
+    let body = token[2] ?? token[3] ?? '';
+    const quoted = token[2] !== undefined;
+
+    if (!quoted && (body.startsWith('+') || body.startsWith('-'))) {
+      operator = body.charAt(0);
+      body = body.slice(1);
+    }
+
+    const prefix = !quoted && body.endsWith('*');
+    const words = body.split(/[^\p{L}\p{N}_]+/u).filter(word => word.length > 0);
+    if (words.length === 0) {
+      continue;
+    }
+
+    const negate = operator === '-';
+    const indexed = words.every(word => word.length >= FULLTEXT_MIN_TOKEN && !FULLTEXT_STOPWORDS.has(word.toLowerCase()));
+
+    // InnoDB drops unindexed words from phrases too, so match those literally
+    if (!indexed) {
+      likes.push({ value: prefix ? body.slice(0, -1) : body, negate });
+      continue;
+    }
+
+    // Punctuated terms (payment-service, 10.0.0.1) become phrases, since the
+    // parser would otherwise read "-service" as an exclusion
+    const term = words.length > 1 || quoted
+      ? `"${words.join(' ')}"`
+      : `${words[0]}${prefix ? '*' : ''}`;
+
+    (negate ? excluded : required).push(term);
+  }
+
+  const conditions: string[] = [];
+  const params: string[] = [];
+
+  if (required.length > 0) {
+    conditions.push(`MATCH(${column}) AGAINST (? IN BOOLEAN MODE)`);
+    params.push([...required.map(term => `+${term}`), ...excluded.map(term => `-${term}`)].join(' '));
+  } else if (excluded.length > 0) {
+    // Boolean mode can't match on exclusions alone
+    conditions.push(`NOT MATCH(${column}) AGAINST (? IN BOOLEAN MODE)`);
+    params.push(excluded.join(' '));
+  }
+
+  for (const like of likes) {
+    conditions.push(`${column} ${like.negate ? 'NOT LIKE' : 'LIKE'} ?`);
+    params.push(`%${escapeLike(like.value)}%`);
+  }
+
+  if (conditions.length === 0) {
+    return { condition: '1=1', params: [] };
+  }
+
+  return { condition: `(${conditions.join(' AND ')})`, params };
+}
+
+function parseTagList(value: string | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  return value.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
@@ -0,0 +1,296 @@
+/**
+ * Minimal SMTP client for email notifications
+ * Supports implicit TLS, STARTTLS and AUTH PLAIN/LOGIN - enough for alert delivery
+ * without pulling a full mail library into the service
+ */
+
+import { connect as netConnect, type Socket } from 'net';
+import { connect as tlsConnect, type TLSSocket } from 'tls';
+import { hostname } from 'os';
+import { randomBytes } from 'crypto';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS (usually port 465); otherwise STARTTLS is used when offered, and required to authenticate
+  username?: string;
+  password?: string;
+  timeoutMs?: number;
+  rejectUnauthorized?: boolean;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Line-oriented SMTP session over a plain or TLS socket
+ */
+class SmtpSession {
+  private socket: Socket | TLSSocket;
+  private buffer = '';
+  private replyLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiters: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+  private failure: Error | null = null;
+
+  constructor(socket: Socket | TLSSocket, private timeoutMs: number) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  /**
+   * Swap the underlying socket (after STARTTLS)
+   */
+  upgrade(socket: TLSSocket): void {
+    // The plain socket now only carries TLS records - the TLS socket reports its errors
+    this.socket.setTimeout(0);
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('error');
+    this.socket.removeAllListeners('close');
+    this.socket = socket;
+    this.buffer = '';
+    this.attach(socket);
+  }
+
+  get rawSocket(): Socket | TLSSocket {
+    return this.socket;
+  }
+
+  async read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return reply;
+    }
+    if (this.failure) {
+      throw this.failure;
+    }
+    return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }));
+  }
+
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, line.split(' ')[0] ?? line);
+  }
+
+  async expect(expected: number[], context: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${context} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  write(data: string): void {
+    this.socket.write(data);
+  }
+
+  close(): void {
+    this.socket.end();
+    this.socket.destroy();
+  }
+
+  private attach(socket: Socket | TLSSocket): void {
+    socket.setTimeout(this.timeoutMs, () => this.fail(new Error('SMTP connection timed out')));
+    socket.on('data', (chunk: Buffer) => this.onData(chunk.toString('utf8')));
+    socket.on('error', (error: Error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+
+    let index: number;
+    while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+
+      this.replyLines.push(line.slice(4));
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        const reply = { code: parseInt(line.slice(0, 3), 10), lines: this.replyLines };
+        this.replyLines = [];
+        const waiter = this.waiters.shift();
+        if (waiter) {
+          waiter.resolve(reply);
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) {
+      return;
+    }
+    this.failure = error;
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.reject(error);
+    }
+    this.socket.destroy();
+  }
+}
+
+/**
+ * Send a plain-text message and return the server's final response line
+ */
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<{ response: string }> {
+  const timeoutMs = options.timeoutMs ?? 15000;
+  const socket = await openSocket(options, timeoutMs);
+  const session = new SmtpSession(socket, timeoutMs);
+
+  try {
+    await session.expect([220], 'greeting');
+    let capabilities = await ehlo(session);
+    let encrypted = options.secure;
+
+    if (!encrypted && capabilities.includes('STARTTLS')) {
+      await session.command('STARTTLS', [220]);
+      const secured = await upgradeSocket(session.rawSocket, options, timeoutMs);
+      session.upgrade(secured);
+      capabilities = await ehlo(session);
+      encrypted = true;
+    }
+
+    if (options.username) {
+      // Never send credentials in cleartext, e.g. when STARTTLS was stripped from the EHLO reply
+      if (!encrypted) {
+        throw new Error('SMTP server does not offer STARTTLS - refusing to authenticate over an unencrypted connection');
+      }
+      await authenticate(session, capabilities, options.username, options.password ?? '');
+    }
+
+    await session.command(`MAIL FROM:<${extractAddress(message.from)}>`, [250]);
+    for (const recipient of message.to) {
+      await session.command(`RCPT TO:<${extractAddress(recipient)}>`, [250, 251]);
+    }
+
+    await session.command('DATA', [354]);
+    session.write(`${buildMessage(message, options.host)}\r\n.\r\n`);
+    const accepted = await session.expect([250], 'DATA');
+
+    await session.command('QUIT', [221]).catch(() => undefined);
+
+    return { response: `${accepted.code} ${accepted.lines.join(' ')}` };
+  } finally {
+    session.close();
+  }
+}
+
+async function ehlo(session: SmtpSession): Promise<string[]> {
+  const reply = await session.command(`EHLO ${hostname() || 'localhost'}`, [250]);
+  // First line is the server greeting, the rest are capabilities
+  return reply.lines.slice(1).map(line => line.toUpperCase());
+}
+
+async function authenticate(
+  session: SmtpSession,
+  capabilities: string[],
+  username: string,
+  password: string
+): Promise<void> {
+  const mechanisms = capabilities.find(capability => capability.startsWith('AUTH')) ?? '';
+
+  if (mechanisms.includes('LOGIN') && !mechanisms.includes('PLAIN')) {
+    await session.command('AUTH LOGIN', [334]);
+    await session.command(Buffer.from(username, 'utf8').toString('base64'), [334]);
+    await session.command(Buffer.from(password, 'utf8').toString('base64'), [235]);
+    return;
+  }
+
+  const token = Buffer.from(`\0${username}\0${password}`, 'utf8').toString('base64');
+  await session.command(`AUTH PLAIN ${token}`, [235]);
+}
+
+function openSocket(options: SmtpOptions, timeoutMs: number): Promise<Socket | TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.destroy();
+      reject(new Error('SMTP connection timed out'));
+    }, timeoutMs);
+
+    const onConnect = (): void => {
+      clearTimeout(timer);
+      socket.removeListener('error', onError);
+      resolve(socket);
+    };
+    const onError = (error: Error): void => {
+      clearTimeout(timer);
+      reject(error);
+    };
+
+    const socket: Socket | TLSSocket = options.secure
+      ? tlsConnect({
+        host: options.host,
+        port: options.port,
+        servername: options.host,
+        rejectUnauthorized: options.rejectUnauthorized ?? true
+      }, onConnect)
+      : netConnect({ host: options.host, port: options.port }, onConnect);
+
+    socket.once('error', onError);
+  });
+}
+
+function upgradeSocket(socket: Socket, options: SmtpOptions, timeoutMs: number): Promise<TLSSocket> {
+  return new Promise((resolve, reject) => {
+    socket.removeAllListeners('data');
+    const timer = setTimeout(() => reject(new Error('SMTP STARTTLS timed out')), timeoutMs);
+    const secured = tlsConnect({
+      socket,
+      servername: options.host,
+      rejectUnauthorized: options.rejectUnauthorized ?? true
+    }, () => {
+      clearTimeout(timer);
+      resolve(secured);
+    });
+    secured.once('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+  });
+}
+
+/**
+ * Build RFC 5322 message text with dot-stuffing applied
+ */
+function buildMessage(message: MailMessage, host: string): string {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomBytes(12).toString('hex')}@${host}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit'
+  ];
+
+  const body = message.text
+    .replace(/\r?\n/g, '\r\n')
+    .split('\r\n')
+    .map(line => (line.startsWith('.') ? `.${line}` : line))
+    .join('\r\n');
+
+  return `${headers.join('\r\n')}\r\n\r\n${body}`;
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match?.[1] ?? value).trim();
+}
@@ -0,0 +1,156 @@
+/**
+ * Log statistics queries
+ * Shared by /api/stats and the digest reports
+ */
+
+import { executeQuery, executeQuerySingle } from '@/services/database';
+
+/**
+ * Which logs to aggregate - every bound is optional
+ */
+export interface StatsRange {
+  projectId?: number;
+  fromDayId?: number; // YYYYMMDD, matches the logs.day_id partition key
+  from?: Date;
+  to?: Date; // Exclusive
+}
+
+export interface LogTotals {
+  total_logs: number;
+  total_errors: number;
+  total_projects: number;
+}
+
+export interface FingerprintCount {
+  fingerprint: string;
+  level: string;
+  message: string;
+  source: string;
+  count: number;
+}
+
+export interface SourceCount {
+  source: string;
+  count: number;
+  errors: number;
+}
+
+/**
+ * Event, error and active-project counts
+ */
+export async function getLogTotals(range: StatsRange): Promise<LogTotals> {
+  const { where, params } = buildWhere(range);
+
+  const totals = await executeQuerySingle<LogTotals>(`
+    SELECT
+      COUNT(*) as total_logs,
+      COUNT(DISTINCT project_id) as total_projects,
+      SUM(CASE WHEN level IN ('error', 'fatal') THEN 1 ELSE 0 END) as total_errors
+    FROM logs
+    WHERE ${where}
+  `, params);
+
+  return {
+    total_logs: Number(totals?.total_logs ?? 0),
+    total_errors: Number(totals?.total_errors ?? 0),
+    total_projects: Number(totals?.total_projects ?? 0)
+  };
+}
+
+/**
+ * Most frequent warn+ fingerprints
+ */
+export async function getTopFingerprints(range: StatsRange, limit: number = 5): Promise<FingerprintCount[]> {
+  const { where, params } = buildWhere(range);
+
+  const rows = await executeQuery<FingerprintCount>(`
+    SELECT
+      fingerprint,
+      -- MAX() on the ENUM compares strings ('warn' > 'fatal'), so rank by severity instead
+      ELT(MAX(FIELD(level, 'warn', 'error', 'fatal')), 'warn', 'error', 'fatal') as level,
+      MAX(message) as message,
+      MAX(source) as source,
+      COUNT(*) as count
+    FROM logs
+    WHERE ${where} AND level IN ('warn', 'error', 'fatal') AND fingerprint IS NOT NULL
+    GROUP BY fingerprint
+    ORDER BY count DESC
+    LIMIT ?
+  `, [...params, String(limit)]);
+
+  return rows.map(row => ({ ...row, count: Number(row.count) }));
+}
+
+/**
+ * Sources with the most events
+ */
+export async function getBusiestSources(range: StatsRange, limit: number = 5): Promise<SourceCount[]> {
+  const { where, params } = buildWhere(range);
+
+  const rows = await executeQuery<SourceCount>(`
+    SELECT
+      source,
+      COUNT(*) as count,
+      SUM(CASE WHEN level IN ('error', 'fatal') THEN 1 ELSE 0 END) as errors
+    FROM logs
+    WHERE ${where}
+    GROUP BY source
+    ORDER BY count DESC
+    LIMIT ?
+  `, [...params, String(limit)]);
+
+  return rows.map(row => ({ ...row, count: Number(row.count), errors: Number(row.errors) }));
+}
+
+/**
+ * Fingerprints first seen in the period, with a sample message for the first few
+ */
+export async function getNewFingerprints(
+  projectId: number,
+  from: Date,
+  to: Date,
+  limit: number = 5
+): Promise<{ total: number; samples: Array<{ fingerprint: string; first_seen: Date; message: string | null }> }> {
+  const total = await executeQuerySingle<{ count: number }>(`
+    SELECT COUNT(*) as count
+    FROM project_fingerprints
+    WHERE project_id = ? AND first_seen >= ? AND first_seen < ?
+  `, [projectId, from, to]);
+
+  const samples = await executeQuery<{ fingerprint: string; first_seen: Date; message: string | null }>(`
+    SELECT
+      f.fingerprint,
+      f.first_seen,
+      (SELECT l.message FROM logs l WHERE l.project_id = f.project_id AND l.fingerprint = f.fingerprint LIMIT 1) as message
+    FROM project_fingerprints f
+    WHERE f.project_id = ? AND f.first_seen >= ? AND f.first_seen < ?
+    ORDER BY f.first_seen DESC
+    LIMIT ?
+  `, [projectId, from, to, String(limit)]);
+
+  return { total: Number(total?.count ?? 0), samples };
+}
+
+function buildWhere(range: StatsRange): { where: string; params: any[] } {
+  const conditions: string[] = ['1=1'];
+  const params: any[] = [];
+
+  if (range.projectId !== undefined) {
+    conditions.push('project_id = ?');
+    params.push(range.projectId);
+  }
+  if (range.fromDayId !== undefined) {
+    conditions.push('day_id >= ?');
+    params.push(range.fromDayId);
+  }
+  if (range.from) {
+    conditions.push('ts >= ?');
+    params.push(range.from);
+  }
+  if (range.to) {
+    conditions.push('ts < ?');
+    params.push(range.to);
+  }
+
+  return { where: conditions.join(' AND '), params };
+}
@@ -0,0 +1,288 @@
+/**
+ * Syslog
+ * Parses RFC 5424 and RFC 3164 messages, and the TCP framing of RFC 6587,
+ * into log events
+ */
+
+import type { LogEvent, LogLevel } from '@/types';
+
+/**
+ * Structured data element that routes a message to a project:
+ * `[tekno@32473 key="<project api key>"]`; it is never stored
+ */
+export const SYSLOG_KEY_SD_ID = 'tekno@32473';
+
+export interface SyslogMessage {
+  format: 'rfc5424' | 'rfc3164';
+  facility: number;
+  severity: number;
+  ts: Date | null;
+  hostname: string | null;
+  appName: string | null;
+  procId: string | null;
+  msgId: string | null;
+  structuredData: Record<string, Record<string, string>>;
+  message: string;
+}
+
+// Indexed by syslog severity: emerg, alert, crit, err, warning, notice, info, debug
+const SEVERITY_LEVELS: LogLevel[] = ['fatal', 'fatal', 'fatal', 'error', 'warn', 'info', 'info', 'debug'];
+
+const FACILITIES = [
+  'kern', 'user', 'mail', 'daemon', 'auth', 'syslog', 'lpr', 'news', 'uucp', 'cron', 'authpriv', 'ftp',
+  'ntp', 'audit', 'alert', 'clock', 'local0', 'local1', 'local2', 'local3', 'local4', 'local5', 'local6', 'local7'
+];
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const DEFAULT_PRI = 13; // user.notice, for messages without a PRI part (RFC 3164 4.3.3)
+const MAX_FRAME_BYTES = 64 * 1024;
+const MAX_MESSAGE_LENGTH = 1024;
+
+/**
+ * Parse one message; RFC 5424 when the PRI is followed by version 1,
+ * RFC 3164 otherwise. Never throws: whatever can't be parsed is the message
+ */
+export function parseSyslogMessage(raw: string, now: Date = new Date()): SyslogMessage {
+  let rest = raw.replace(/[\r\n\0]+$/, '');
+  let pri = DEFAULT_PRI;
+
+  const priMatch = /^<(\d{1,3})>/.exec(rest);
+  if (priMatch && Number(priMatch[1]) <= 191) {
+    pri = Number(priMatch[1]);
+    rest = rest.slice(priMatch[0].length);
+  }
+
+  const base = { facility: pri >> 3, severity: pri & 7 };
+  if (priMatch && rest.startsWith('1 ')) {
+    const parsed = parseRfc5424(rest.slice(2));
+    if (parsed) {
+      return { format: 'rfc5424', ...base, ...parsed };
+    }
+  }
+  return { format: 'rfc3164', ...base, ...parseRfc3164(rest, now) };
+}
+
+/**
+ * Project key from the message's structured data, if it has one
+ */
+export function syslogProjectKey(message: SyslogMessage): string | undefined {
+  return message.structuredData[SYSLOG_KEY_SD_ID]?.key || undefined;
+}
+
+/**
+ * Severity becomes the level, APP-NAME (the 3164 tag) the source; structured
+ * data elements go into ctx by SD-ID, next to ctx.syslog with the header fields
+ */
+export function syslogToLogEvent(message: SyslogMessage): LogEvent {
+  const { [SYSLOG_KEY_SD_ID]: _key, ...structuredData } = message.structuredData;
+
+  const syslog: Record<string, unknown> = {
+    format: message.format,
+    facility: FACILITIES[message.facility] ?? message.facility,
+    severity: message.severity
+  };
+  if (message.hostname) syslog.hostname = message.hostname;
+  if (message.procId) syslog.procid = message.procId;
+  if (message.msgId) syslog.msgid = message.msgId;
+
+  return {
+    level: SEVERITY_LEVELS[message.severity] ?? 'info',
+    message: (message.message.trim() || '(empty syslog message)').substring(0, MAX_MESSAGE_LENGTH),
+    ...(message.ts ? { ts: message.ts.toISOString() } : {}),
+    ...(message.appName ? { source: message.appName.substring(0, 64) } : {}),
+    ctx: { ...structuredData, syslog }
+  };
+}
+
+/**
+ * Splits a TCP stream into messages, detecting the framing of each one
+ * (RFC 6587): octet counting (`<length> <message>`) or a trailing newline
+ * Throws when a frame grows past MAX_FRAME_BYTES
+ */
+export function createSyslogFramer(): (chunk: Buffer) => string[] {
+  let buffer: Buffer = Buffer.alloc(0);
+
+  return chunk => {
+    buffer = buffer.length > 0 ? Buffer.concat([buffer, chunk]) : chunk;
+    const messages: string[] = [];
+
+    while (buffer.length > 0) {
+      const counted = /^(\d{1,6}) /.exec(buffer.subarray(0, 8).toString('latin1'));
+      if (counted) {
+        const length = Number(counted[1]);
+        if (length > MAX_FRAME_BYTES) {
+          throw new Error(`Syslog frame too large: ${length} bytes`);
+        }
+        const start = counted[0].length;
+        if (buffer.length < start + length) {
+          break;
+        }
+        messages.push(buffer.subarray(start, start + length).toString('utf8'));
+        buffer = buffer.subarray(start + length);
+        continue;
+      }
+
+      const newline = buffer.indexOf(0x0a);
+      if (newline < 0) {
+        if (buffer.length > MAX_FRAME_BYTES) {
+          throw new Error('Syslog frame too large: no newline');
+        }
+        break;
+      }
+      messages.push(buffer.subarray(0, newline).toString('utf8'));
+      buffer = buffer.subarray(newline + 1);
+    }
+
+    return messages.filter(message => message.trim().length > 0);
+  };
+}
+
+// ===== RFC 5424 =====
+
+/**
+ * TIMESTAMP HOSTNAME APP-NAME PROCID MSGID STRUCTURED-DATA [MSG], after the
+ * version; null when the header or structured data is malformed
+ */
+function parseRfc5424(input: string): Omit<SyslogMessage, 'format' | 'facility' | 'severity'> | null {
+  const header = /^(\S+) (\S+) (\S+) (\S+) (\S+) /.exec(input);
+  if (!header) {
+    return null;
+  }
+
+  const structured = parseStructuredData(input, header[0].length);
+  if (!structured) {
+    return null;
+  }
+
+  const message = input[structured.end] === ' ' ? input.slice(structured.end + 1) : input.slice(structured.end);
+  const nil = (value: string): string | null => (value === '-' ? null : value);
+  const ts = header[1] === '-' ? null : new Date(header[1]!);
+
+  return {
+    ts: ts && !isNaN(ts.getTime()) ? ts : null,
+    hostname: nil(header[2]!),
+    appName: nil(header[3]!),
+    procId: nil(header[4]!),
+    msgId: nil(header[5]!),
+    structuredData: structured.data,
+    message: message.replace(/^\uFEFF/, '') // UTF-8 BOM
+  };
+}
+
+/**
+ * `-` or `[id name="value" ...]...`; values escape `"`, `\` and `]` with `\`
+ */
+function parseStructuredData(
+  input: string,
+  start: number
+): { data: Record<string, Record<string, string>>; end: number } | null {
+  const data: Record<string, Record<string, string>> = {};
+  let pos = start;
+
+  if (input[pos] === '-') {
+    return { data, end: pos + 1 };
+  }
+  if (input[pos] !== '[') {
+    return null;
+  }
+
+  while (input[pos] === '[') {
+    const idEnd = input.slice(pos + 1).search(/[ \]]/);
+    if (idEnd <= 0) {
+      return null;
+    }
+    const id = input.slice(pos + 1, pos + 1 + idEnd);
+    pos += 1 + idEnd;
+
+    const params: Record<string, string> = {};
+    while (input[pos] === ' ') {
+      const nameEnd = input.indexOf('="', pos + 1);
+      if (nameEnd < 0) {
+        return null;
+      }
+      const name = input.slice(pos + 1, nameEnd);
+      pos = nameEnd + 2;
+
+      let value = '';
+      while (pos < input.length && input[pos] !== '"') {
+        if (input[pos] === '\\' && ['"', '\\', ']'].includes(input[pos + 1] ?? '')) {
+          value += input[pos + 1];
+          pos += 2;
+        } else {
+          value += input[pos++];
+        }
+      }
+      if (pos >= input.length) {
+        return null;
+      }
+      pos++; // Closing quote
+      params[name] = value;
+    }
+
+    if (input[pos] !== ']') {
+      return null;
+    }
+    pos++;
+    data[id] = params;
+  }
+
+  return { data, end: pos };
+}
+
+// ===== RFC 3164 =====
+
+/**
+ * `Mmm dd hh:mm:ss HOSTNAME TAG[PID]: MSG`, as loosely as senders write it:
+ * the timestamp may be RFC 3339 or missing, and the hostname may be missing
+ */
+function parseRfc3164(input: string, now: Date): Omit<SyslogMessage, 'format' | 'facility' | 'severity'> {
+  let rest = input;
+  let ts: Date | null = null;
+  let hostname: string | null = null;
+
+  const bsd = /^([A-Z][a-z]{2}) +(\d{1,2}) (\d{2}):(\d{2}):(\d{2}) /.exec(rest);
+  const iso = /^(\d{4}-\d{2}-\d{2}T\S+) /.exec(rest);
+  if (bsd && MONTHS.includes(bsd[1]!)) {
+    ts = bsdTimestamp(bsd, now);
+    rest = rest.slice(bsd[0].length);
+  } else if (iso) {
+    const date = new Date(iso[1]!);
+    ts = isNaN(date.getTime()) ? null : date;
+    rest = rest.slice(iso[0].length);
+  }
+
+  // The hostname follows a timestamp, unless the next word is already the tag
+  if (ts) {
+    const word = /^(\S+) /.exec(rest);
+    if (word && !/^[^\s[:]+(\[[^\]]*\])?:$/.test(word[1]!)) {
+      hostname = word[1]!;
+      rest = rest.slice(word[0].length);
+    }
+  }
+
+  let appName: string | null = null;
+  let procId: string | null = null;
+  const tag = /^([^\s[:]{1,48})(?:\[([^\]]*)\])?: ?/.exec(rest);
+  if (tag) {
+    appName = tag[1]!;
+    procId = tag[2] || null;
+    rest = rest.slice(tag[0].length);
+  }
+
+  return { ts, hostname, appName, procId, msgId: null, structuredData: {}, message: rest };
+}
+
+/**
+ * BSD timestamps have no year or zone: server local time, in the current
+ * year unless that would put the message more than a day in the future
+ */
+function bsdTimestamp(match: RegExpExecArray, now: Date): Date {
+  const [, month, day, hours, minutes, seconds] = match;
+  const build = (year: number) => new Date(
+    year, MONTHS.indexOf(month!), Number(day), Number(hours), Number(minutes), Number(seconds)
+  );
+
+  const date = build(now.getFullYear());
+  return date.getTime() - now.getTime() > 24 * 60 * 60 * 1000 ? build(now.getFullYear() - 1) : date;
+}
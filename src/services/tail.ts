@@ -0,0 +1,391 @@
+/**
+ * Live tail
+ * In-process pub/sub of freshly ingested logs, streamed to Server-Sent Events
+ * clients that each apply their own filter, rate cap and resume position
+ */
+
+import type { FastifyReply } from 'fastify';
+import type { OutgoingHttpHeaders } from 'http';
+import { getCtxColumns } from '@/services/ctxFields';
+import { executeQuery } from '@/services/database';
+import { compileLogQuery, parseLogQuery, type CtxColumns } from '@/services/queryLanguage';
+import { decodeLogRow, LOG_COLUMNS, type LogRow } from '@/services/search';
+import type { LogLevel } from '@/types';
+
+const HEARTBEAT_MS = 15_000;
+const RETRY_MS = 3000; // Reconnect delay suggested to EventSource clients
+const RESUME_LIMIT = 500; // Missed events replayed after a reconnect
+const PENDING_LIMIT = 1000; // Live events held back while the replay runs
+const QUERY_BACKLOG_LIMIT = 5000; // Published events waiting for their query lookups
+
+/**
+ * A stored event as published by the ingestion handler
+ */
+export interface LiveLogEvent {
+  id: number;
+  project_id: number;
+  ts: Date;
+  level: string;
+  message: string;
+  source: string;
+  env: string;
+  context: Record<string, unknown> | null;
+  user_id: string | null;
+  request_id: string | null;
+  tags: string | null;
+  fingerprint: string;
+}
+
+export interface TailFilter {
+  project_id?: number | undefined; // All projects when unset (admin only)
+  level?: LogLevel | undefined;
+  source?: string | undefined;
+  env?: string | undefined;
+  query?: string | undefined;
+}
+
+export interface TailOptions {
+  filter: TailFilter;
+  rate: number; // Events per second; the rest are dropped and reported
+  lastEventId?: number | undefined; // Replay what was missed since this log id
+}
+
+/**
+ * Where a session writes; write() returns false while the client is not keeping up
+ */
+export interface TailWriter {
+  write(chunk: string): boolean;
+  onDrain(listener: () => void): void;
+}
+
+/**
+ * An open tail as publishLogs sees it: column filters run in memory, the
+ * query (if any) in SQL on the stored rows
+ */
+export interface LogSubscriber {
+  matches(event: LiveLogEvent): boolean;
+  query: string | null;
+  receive(events: LiveLogEvent[]): void;
+  drop(count: number): void; // Events lost because their lookup failed or backed up
+}
+
+const subscribers = new Set<LogSubscriber>();
+let queryLookups = Promise.resolve(); // Batches are looked up in publish order
+let queuedEvents = 0;
+
+/**
+ * Hand a stored batch (of one project, as ingestLogEvents stores it) to every
+ * open tail; tails with a query get it once one SQL lookup per distinct
+ * query has run, so open tails don't each add a query per batch
+ */
+export function publishLogs(events: LiveLogEvent[]): void {
+  if (events.length === 0) {
+    return;
+  }
+
+  const byQuery = new Map<string, LogSubscriber[]>();
+  for (const subscriber of subscribers) {
+    if (subscriber.query) {
+      byQuery.set(subscriber.query, [...(byQuery.get(subscriber.query) ?? []), subscriber]);
+    } else {
+      subscriber.receive(events.filter(event => subscriber.matches(event)));
+    }
+  }
+
+  if (byQuery.size === 0) {
+    return;
+  }
+  if (queuedEvents + events.length > QUERY_BACKLOG_LIMIT) {
+    for (const subscriber of [...byQuery.values()].flat()) {
+      subscriber.drop(events.filter(event => subscriber.matches(event)).length);
+    }
+    return;
+  }
+
+  queuedEvents += events.length;
+  queryLookups = queryLookups
+    .then(() => deliverQueryMatches(events, byQuery))
+    .finally(() => {
+      queuedEvents -= events.length;
+    });
+}
+
+export function subscribeToLogs(subscriber: LogSubscriber): () => void {
+  subscribers.add(subscriber);
+  return () => {
+    subscribers.delete(subscriber);
+  };
+}
+
+/**
+ * Predicate for the column filters of a tail, with the search tab's semantics;
+ * the query is checked here but runs in SQL (see publishLogs)
+ */
+export function compileTailFilter(filter: TailFilter): (event: LiveLogEvent) => boolean {
+  if (filter.query) {
+    parseLogQuery(filter.query);
+  }
+  const source = filter.source?.toLowerCase();
+  const env = filter.env?.toLowerCase();
+
+  return event => (
+    (filter.project_id === undefined || event.project_id === filter.project_id)
+    && (!filter.level || event.level === filter.level)
+    && (!source || event.source.toLowerCase() === source)
+    && (!env || event.env.toLowerCase() === env)
+  );
+}
+
+/**
+ * Start a tail session on a writer; returns the function that ends it
+ */
+export async function startTail(writer: TailWriter, options: TailOptions): Promise<() => void> {
+  const matches = compileTailFilter(options.filter);
+  const pending: LiveLogEvent[] = [];
+  let replaying = options.lastEventId !== undefined;
+  let replayedThrough = 0;
+  let blocked = false;
+  let dropped = 0;
+  let tokens = options.rate;
+  let refilledAt = Date.now();
+
+  const send = (chunk: string): void => {
+    if (!writer.write(chunk)) {
+      blocked = true;
+    }
+  };
+  writer.onDrain(() => {
+    blocked = false;
+  });
+
+  const flushDropped = (): void => {
+    if (dropped > 0 && !blocked) {
+      send(formatDropped({ count: dropped }));
+      dropped = 0;
+    }
+  };
+
+  // Token bucket: `rate` events per second, bursts up to one second's worth
+  const deliver = (event: LiveLogEvent): void => {
+    if (event.id <= replayedThrough) {
+      return;
+    }
+
+    const now = Date.now();
+    tokens = Math.min(options.rate, tokens + ((now - refilledAt) / 1000) * options.rate);
+    refilledAt = now;
+
+    if (blocked || tokens < 1) {
+      dropped++;
+      return;
+    }
+    tokens--;
+    flushDropped();
+    send(formatLogEvent(event));
+  };
+
+  const receive = (events: LiveLogEvent[]): void => {
+    for (const event of events) {
+      if (!replaying) {
+        deliver(event);
+      } else if (pending.length < PENDING_LIMIT) {
+        pending.push(event);
+      } else {
+        dropped++;
+      }
+    }
+  };
+
+  const unsubscribe = subscribeToLogs({
+    matches,
+    query: options.filter.query ?? null,
+    receive,
+    drop: count => {
+      dropped += count;
+    }
+  });
+
+  send(`retry: ${RETRY_MS}\n\n`);
+
+  if (options.lastEventId !== undefined) {
+    try {
+      const missed = await loadMissedEvents(options.filter, options.lastEventId);
+      for (const event of missed.slice(0, RESUME_LIMIT)) {
+        send(formatLogEvent(event));
+        replayedThrough = event.id;
+      }
+      if (missed.length > RESUME_LIMIT) {
+        send(formatDropped({ reason: 'resume_limit', resumed: RESUME_LIMIT }));
+      }
+    } catch {
+      send(formatDropped({ reason: 'resume_failed' }));
+    }
+
+    replaying = false;
+    pending.splice(0).forEach(deliver);
+  }
+
+  const heartbeat = setInterval(() => {
+    flushDropped();
+    send(': heartbeat\n\n');
+  }, HEARTBEAT_MS);
+  heartbeat.unref();
+
+  return () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  };
+}
+
+/**
+ * Answer a request with a tail stream; filter errors are thrown before
+ * anything is written, so they still get a normal error response
+ */
+export async function openTailStream(reply: FastifyReply, options: TailOptions): Promise<void> {
+  compileTailFilter(options.filter);
+
+  reply.hijack();
+  const raw = reply.raw;
+  raw.writeHead(200, {
+    ...(reply.getHeaders() as OutgoingHttpHeaders), // CORS and security headers set by hooks
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no' // Don't let proxies buffer the stream
+  });
+
+  let stop: (() => void) | null = null;
+  let closed = false;
+  raw.on('close', () => {
+    closed = true;
+    stop?.();
+  });
+
+  stop = await startTail({
+    write: chunk => raw.write(chunk),
+    onDrain: listener => raw.on('drain', listener)
+  }, options);
+
+  if (closed) {
+    stop();
+  }
+}
+
+/**
+ * Last-Event-ID header (sent by EventSource on reconnect) or the
+ * last_event_id parameter; undefined when neither is a valid id
+ */
+export function resolveLastEventId(header: string | string[] | undefined, param: number | undefined): number | undefined {
+  const value = Array.isArray(header) ? header[0] : header;
+  if (value !== undefined && /^\d+$/.test(value.trim())) {
+    return Number(value.trim());
+  }
+  return param;
+}
+
+export function formatLogEvent(event: LiveLogEvent): string {
+  const data = {
+    id: event.id,
+    project_id: event.project_id,
+    ts: new Date(event.ts).toISOString(),
+    level: event.level,
+    message: event.message,
+    source: event.source,
+    env: event.env,
+    ctx: event.context,
+    user_id: event.user_id,
+    request_id: event.request_id,
+    tags: event.tags,
+    fingerprint: event.fingerprint
+  };
+  return `id: ${event.id}\nevent: log\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function formatDropped(data: Record<string, unknown>): string {
+  return `event: dropped\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Run each distinct tail query once on the batch's stored rows and hand every
+ * tail its matches; relative times (ts>=now-5m) are taken per batch
+ */
+async function deliverQueryMatches(events: LiveLogEvent[], byQuery: Map<string, LogSubscriber[]>): Promise<void> {
+  let ctxColumns: CtxColumns | null = null;
+
+  for (const [query, group] of byQuery) {
+    const candidates = group.map(subscriber => ({
+      subscriber,
+      events: events.filter(event => subscriber.matches(event))
+    }));
+    const ids = [...new Set(candidates.flatMap(candidate => candidate.events.map(event => event.id)))];
+    if (ids.length === 0) {
+      continue;
+    }
+
+    try {
+      ctxColumns ??= await getCtxColumns(events[0]!.project_id);
+      const matched = await loadMatchingIds(query, ids, ctxColumns);
+      for (const candidate of candidates) {
+        if (subscribers.has(candidate.subscriber)) {
+          candidate.subscriber.receive(candidate.events.filter(event => matched.has(event.id)));
+        }
+      }
+    } catch {
+      candidates.forEach(candidate => candidate.subscriber.drop(candidate.events.length));
+    }
+  }
+}
+
+async function loadMatchingIds(query: string, ids: number[], ctxColumns: CtxColumns): Promise<Set<number>> {
+  const compiled = compileLogQuery(query, { ctxColumns });
+  const rows = await executeQuery<{ id: number }>(`
+    SELECT id FROM logs WHERE id IN (${ids.map(() => '?').join(', ')}) AND ${compiled.condition}
+  `, [...ids, ...compiled.params]);
+  return new Set(rows.map(row => Number(row.id)));
+}
+
+async function loadMissedEvents(filter: TailFilter, lastEventId: number): Promise<LiveLogEvent[]> {
+  const conditions = ['id > ?'];
+  const params: any[] = [lastEventId];
+
+  for (const column of ['project_id', 'level', 'source', 'env'] as const) {
+    const value = filter[column];
+    if (value !== undefined && value !== '') {
+      conditions.push(`${column} = ?`);
+      params.push(value);
+    }
+  }
+
+  if (filter.query) {
+    const options = filter.project_id !== undefined ? { ctxColumns: await getCtxColumns(filter.project_id) } : {};
+    const compiled = compileLogQuery(filter.query, options);
+    conditions.push(compiled.condition);
+    params.push(...compiled.params);
+  }
+
+  const rows = await executeQuery<LogRow>(`
+    SELECT ${LOG_COLUMNS}
+    FROM logs
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY id ASC
+    LIMIT ?
+  `, [...params, String(RESUME_LIMIT + 1)]);
+
+  return rows.map(row => {
+    const event = decodeLogRow(row);
+    return {
+      id: event.id,
+      project_id: event.project_id,
+      ts: new Date(row.ts),
+      level: event.level,
+      message: event.message,
+      source: event.source ?? '',
+      env: event.env ?? '',
+      context: event.ctx ?? null,
+      user_id: event.user_id ?? null,
+      request_id: event.request_id ?? null,
+      tags: event.tags ?? null,
+      fingerprint: event.fingerprint
+    };
+  });
+}
@@ -0,0 +1,126 @@
+/**
+ * Request traces
+ * Every event sharing a request_id, in time order, with a per-source breakdown
+ */
+
+import { executeQuery } from '@/services/database';
+import { decodeLogRow, type LogRow } from '@/services/search';
+import type { StoredLogEvent } from '@/types';
+
+export type TraceEvent = StoredLogEvent & {
+  project_slug: string | null;
+  offset_ms: number; // Since the first event of the request
+};
+
+export interface TraceSource {
+  project_id: number;
+  project_slug: string | null;
+  source: string;
+  count: number;
+  errors: number;
+  first_offset_ms: number;
+  last_offset_ms: number;
+}
+
+export interface RequestTrace {
+  request_id: string;
+  started_at: string | null;
+  duration_ms: number; // First to last event
+  total: number;
+  truncated: boolean; // Events were cut at the limit; sources still count all of them
+  events: TraceEvent[];
+  sources: TraceSource[];
+}
+
+export type TraceRow = LogRow & { project_slug: string | null };
+
+export interface TraceSourceRow {
+  project_id: number;
+  project_slug: string | null;
+  source: string;
+  count: number;
+  errors: number;
+  first_ts: Date;
+  last_ts: Date;
+}
+
+/**
+ * Trace a request within the given projects, oldest event first
+ */
+export async function getRequestTrace(requestId: string, projectIds: number[], limit: number): Promise<RequestTrace> {
+  if (projectIds.length === 0) {
+    return buildRequestTrace(requestId, [], []);
+  }
+
+  // An explicit project list lets MySQL use idx_proj_request_ts for each project
+  const projects = projectIds.map(() => '?').join(', ');
+
+  const rows = await executeQuery<TraceRow>(`
+    SELECT
+      l.id, l.project_id, p.slug AS project_slug, l.ts, l.level, l.message, l.source, l.env, l.ctx_json,
+      l.user_id, l.request_id, l.tags, l.fingerprint, l.day_id, l.created_at
+    FROM logs l
+    LEFT JOIN projects p ON p.id = l.project_id
+    WHERE l.project_id IN (${projects}) AND l.request_id = ?
+    ORDER BY l.ts ASC, l.id ASC
+    LIMIT ?
+  `, [...projectIds, requestId, String(limit)]);
+
+  const sources = await executeQuery<TraceSourceRow>(`
+    SELECT
+      l.project_id, p.slug AS project_slug, l.source,
+      COUNT(*) AS count,
+      SUM(CASE WHEN l.level IN ('error', 'fatal') THEN 1 ELSE 0 END) AS errors,
+      MIN(l.ts) AS first_ts,
+      MAX(l.ts) AS last_ts
+    FROM logs l
+    LEFT JOIN projects p ON p.id = l.project_id
+    WHERE l.project_id IN (${projects}) AND l.request_id = ?
+    GROUP BY l.project_id, p.slug, l.source
+  `, [...projectIds, requestId]);
+
+  return buildRequestTrace(requestId, rows, sources);
+}
+
+/**
+ * Shape trace rows: offsets relative to the earliest event, sources in the
+ * order they first appeared
+ */
+export function buildRequestTrace(requestId: string, rows: TraceRow[], sources: TraceSourceRow[]): RequestTrace {
+  const firstTimes = sources.map(source => new Date(source.first_ts).getTime());
+  const lastTimes = sources.map(source => new Date(source.last_ts).getTime());
+  const start = firstTimes.length > 0 ? Math.min(...firstTimes) : null;
+  const end = lastTimes.length > 0 ? Math.max(...lastTimes) : null;
+  const total = sources.reduce((sum, source) => sum + Number(source.count), 0);
+
+  const events = rows.map(row => {
+    const { project_slug, ...log } = row;
+    return {
+      ...decodeLogRow(log),
+      project_slug,
+      offset_ms: start === null ? 0 : new Date(row.ts).getTime() - start
+    };
+  });
+
+  const breakdown = sources
+    .map(source => ({
+      project_id: source.project_id,
+      project_slug: source.project_slug,
+      source: source.source,
+      count: Number(source.count),
+      errors: Number(source.errors),
+      first_offset_ms: new Date(source.first_ts).getTime() - (start ?? 0),
+      last_offset_ms: new Date(source.last_ts).getTime() - (start ?? 0)
+    }))
+    .sort((a, b) => a.first_offset_ms - b.first_offset_ms || a.source.localeCompare(b.source));
+
+  return {
+    request_id: requestId,
+    started_at: start === null ? null : new Date(start).toISOString(),
+    duration_ms: start === null || end === null ? 0 : end - start,
+    total,
+    truncated: total > rows.length,
+    events,
+    sources: breakdown
+  };
+}
@@ -0,0 +1,252 @@
+import { createHash } from 'crypto';
+import { createSocket } from 'dgram';
+import { createServer, type Socket } from 'net';
+import type { AddressInfo } from 'net';
+import { appConfig } from '@/config';
+import { chargeProjectRateLimit } from '@/middleware/rateLimit';
+import { fitLogEvent, ingestLogEvents } from '@/routes/logs';
+import type { AlertProject } from '@/services/alerts';
+import { executeQuerySingle } from '@/services/database';
+import { createSyslogFramer, parseSyslogMessage, syslogProjectKey, syslogToLogEvent } from '@/services/syslog';
+import type { LogEvent } from '@/types';
+
+const FLUSH_INTERVAL_MS = 1000;
+const PROJECT_CACHE_MS = 60_000; // Key lookups, including unknown keys
+const MAX_IN_FLIGHT = 4; // Batch inserts running at once; further batches wait for a slot
+const PENDING_LIMIT = 10_000; // Events waiting for a batch insert; the rest are dropped
+
+export interface SyslogListenerOptions {
+  port: number; // 0 picks a free port
+  projectKey?: string | undefined; // For messages without a key in their structured data
+}
+
+export interface SyslogServerOptions {
+  host: string;
+  udp: SyslogListenerOptions | null;
+  tcp: SyslogListenerOptions | null;
+  flushIntervalMs?: number;
+  pendingLimit?: number;
+}
+
+export interface SyslogHandlers {
+  resolveProject(key: string): Promise<AlertProject | null>;
+  chargeRateLimit(projectId: number): Promise<boolean>; // false when the project is over its limit
+  ingest(project: AlertProject, events: LogEvent[]): Promise<unknown>;
+}
+
+export interface SyslogServer {
+  udpPort: number | null;
+  tcpPort: number | null;
+  close(): Promise<void>;
+}
+
+/**
+ * Syslog listeners
+ * Receives RFC 5424 / RFC 3164 messages over UDP and TCP, routes each to the
+ * project of its structured-data key or of the listener's key, and stores
+ * them in per-project batches through the regular ingestion path
+ */
+export async function startSyslogServer(
+  options: SyslogServerOptions,
+  logger: any,
+  handlers: SyslogHandlers = {
+    resolveProject: findProjectByKey,
+    chargeRateLimit: chargeProjectRateLimit,
+    ingest: (project, events) => ingestLogEvents(project, events, logger)
+  }
+): Promise<SyslogServer> {
+  const pendingLimit = options.pendingLimit ?? PENDING_LIMIT;
+  const projects = new Map<string, { project: Promise<AlertProject | null>; expires: number }>();
+  const pending = new Map<number, { project: AlertProject; events: LogEvent[] }>();
+  const inFlight = new Set<Promise<unknown>>();
+  const limitedUntil = new Map<number, number>(); // Project id -> end of the minute it went over its rate limit
+  const overLimit = new Map<number, number>(); // Project id -> messages dropped since the last warning
+  let pendingEvents = 0;
+  let dropped = 0;
+
+  // A lookup is shared while it runs and cached once it settles; failed
+  // lookups are evicted so the next message tries again
+  const resolveProject = (key: string): Promise<AlertProject | null> => {
+    const cached = projects.get(key);
+    if (cached && cached.expires > Date.now()) {
+      return cached.project;
+    }
+
+    const entry = { project: handlers.resolveProject(key), expires: Infinity };
+    entry.project.then(
+      found => {
+        entry.expires = Date.now() + PROJECT_CACHE_MS;
+        if (!found) {
+          logger.warn({ keyHash: hashKey(key).slice(0, 8) }, 'Syslog messages with an unknown project key dropped');
+        }
+      },
+      () => {
+        if (projects.get(key) === entry) {
+          projects.delete(key);
+        }
+      }
+    );
+    projects.set(key, entry);
+    return entry.project;
+  };
+
+  // Sends up to one POST's worth of a project's events, charged to the
+  // project's rate limit like a POST; with every slot taken they stay pending
+  // until a later flush, and over the limit they are dropped along with the
+  // project's messages for the rest of the minute
+  const flush = (projectId: number): void => {
+    const batch = pending.get(projectId);
+    if (!batch || inFlight.size >= MAX_IN_FLIGHT) {
+      return;
+    }
+    const events = batch.events.splice(0, appConfig.limits.maxEventsPerPost);
+    if (batch.events.length === 0) {
+      pending.delete(projectId);
+    }
+    pendingEvents -= events.length;
+
+    const task = handlers.chargeRateLimit(projectId)
+      .then(allowed => {
+        if (allowed) {
+          return handlers.ingest(batch.project, events);
+        }
+        limitedUntil.set(projectId, (Math.floor(Date.now() / 60_000) + 1) * 60_000);
+        overLimit.set(projectId, (overLimit.get(projectId) ?? 0) + events.length);
+        return undefined;
+      })
+      .catch(error => {
+        logger.error({ error: error instanceof Error ? error.message : String(error), projectId }, 'Syslog batch insert failed');
+      })
+      .finally(() => inFlight.delete(task));
+    inFlight.add(task);
+  };
+
+  const receive = async (raw: string, listenerKey: string | undefined): Promise<void> => {
+    const message = parseSyslogMessage(raw);
+    const key = syslogProjectKey(message) ?? listenerKey;
+    if (!key) {
+      return;
+    }
+
+    const project = await resolveProject(key);
+    if (!project) {
+      return;
+    }
+
+    const limited = limitedUntil.get(project.id);
+    if (limited !== undefined && limited > Date.now()) {
+      overLimit.set(project.id, (overLimit.get(project.id) ?? 0) + 1);
+      return;
+    }
+    limitedUntil.delete(project.id);
+
+    if (pendingEvents >= pendingLimit) {
+      dropped++;
+      return;
+    }
+
+    const event = fitLogEvent(syslogToLogEvent(message));
+    const batch = pending.get(project.id) ?? { project, events: [] };
+    pending.set(project.id, batch);
+    batch.events.push(event);
+    pendingEvents++;
+    if (batch.events.length >= appConfig.limits.maxEventsPerPost) {
+      flush(project.id);
+    }
+  };
+
+  const onReceiveError = (error: unknown): void => {
+    logger.error({ error: error instanceof Error ? error.message : String(error) }, 'Syslog message handling failed');
+  };
+
+  const timer = setInterval(() => {
+    [...pending.keys()].forEach(flush);
+    if (dropped > 0) {
+      logger.warn({ dropped }, 'Syslog messages dropped while batch inserts were behind');
+      dropped = 0;
+    }
+    overLimit.forEach((count, projectId) => {
+      logger.warn({ projectId, dropped: count }, 'Syslog messages dropped over the project rate limit');
+    });
+    overLimit.clear();
+  }, options.flushIntervalMs ?? FLUSH_INTERVAL_MS);
+  timer.unref();
+
+  // UDP: one message per datagram
+  const udp = options.udp ? createSocket('udp4') : null;
+  if (udp && options.udp) {
+    const { projectKey } = options.udp;
+    udp.on('message', datagram => {
+      receive(datagram.toString('utf8'), projectKey).catch(onReceiveError);
+    });
+    udp.on('error', error => logger.error({ error: error.message }, 'Syslog UDP socket error'));
+    await new Promise<void>((resolve, reject) => {
+      udp.once('error', reject);
+      udp.bind(options.udp!.port, options.host, () => {
+        udp.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  // TCP: octet-counted or newline-delimited messages on long-lived connections
+  const sockets = new Set<Socket>();
+  const tcp = options.tcp ? createServer() : null;
+  if (tcp && options.tcp) {
+    const { projectKey } = options.tcp;
+    tcp.on('connection', socket => {
+      sockets.add(socket);
+      const frame = createSyslogFramer();
+
+      socket.on('data', chunk => {
+        try {
+          frame(chunk).forEach(raw => receive(raw, projectKey).catch(onReceiveError));
+        } catch (error) {
+          logger.warn({ error: error instanceof Error ? error.message : String(error) }, 'Syslog TCP connection dropped');
+          socket.destroy();
+        }
+      });
+      socket.on('error', () => socket.destroy());
+      socket.on('close', () => sockets.delete(socket));
+    });
+    await new Promise<void>((resolve, reject) => {
+      tcp.once('error', reject);
+      tcp.listen(options.tcp!.port, options.host, () => {
+        tcp.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  return {
+    udpPort: udp ? udp.address().port : null,
+    tcpPort: tcp ? (tcp.address() as AddressInfo).port : null,
+
+    async close() {
+      clearInterval(timer);
+      if (udp) {
+        await new Promise<void>(resolve => udp.close(() => resolve()));
+      }
+      if (tcp) {
+        sockets.forEach(socket => socket.destroy());
+        await new Promise<void>(resolve => tcp.close(() => resolve()));
+      }
+      while (pending.size > 0) {
+        [...pending.keys()].forEach(flush);
+        await Promise.race(inFlight);
+      }
+      await Promise.all(inFlight);
+    }
+  };
+}
+
+async function findProjectByKey(key: string): Promise<AlertProject | null> {
+  return executeQuerySingle<AlertProject>(
+    'SELECT id, slug, name FROM projects WHERE api_key_hash = ? LIMIT 1',
+    [hashKey(key)]
+  );
+}
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
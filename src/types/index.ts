@@ -46,6 +46,117 @@ export interface AlertSettings {
   error_rate_n: number; // Number of errors to trigger rate alert
   error_rate_window_sec: number; // Time window for error rate
   heartbeat_grace_sec: number; // Grace period for heartbeat alerts
+  heartbeat_sources?: string; // Comma-separated sources watched individually
+  cooldown_sec: number; // Minimum time between alerts for the same fingerprint or rule
+  new_issue_enabled: boolean; // Notify the first time a warn+ fingerprint is seen
+  digest_frequency: DigestFrequency;
+  digest_hour: number; // UTC hour the digest is sent at (weekly digests go out on Mondays)
+  last_digest_at?: Date; // Scheduled time of the last digest sent
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface FingerprintMute {
+  project_id: number;
+  fingerprint: string;
+  muted_until?: Date; // Unset for no time limit
+  until_count?: number; // Lapses once this many events were seen; unset for no limit
+  seen_count: number;
+  reason?: string;
+  created_at: Date;
+}
+
+export interface CtxField {
+  project_id: number;
+  path: string; // Dotted path below ctx, e.g. "tenant_id"
+  column_name: string; // Generated column on logs, shared by projects promoting the same path
+  created_at: Date;
+}
+
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+export interface HeartbeatState {
+  project_id: number;
+  source: string; // Empty string for the project as a whole
+  last_seen: Date;
+  silent_since?: Date; // Set while a silence alert is outstanding
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type AlertRule = 'spike' | 'error_rate' | 'new_issue' | 'heartbeat' | 'recovery' | 'custom' | 'digest' | 'test';
+
+export interface AlertRuleMatch {
+  level?: LogLevel[];
+  source?: string; // Glob, e.g. "payments.*"
+  env?: string;
+  tags?: string[]; // All must be present in the event's comma-separated tags
+  message?: string; // Regular expression
+  ctx?: Record<string, string | number | boolean | null>; // Dotted ctx path -> expected value
+}
+
+export interface CustomAlertRule {
+  id: number;
+  project_id: number;
+  name: string;
+  enabled: boolean;
+  match_json: AlertRuleMatch | null; // Null when the rule follows a saved search
+  saved_search_id?: number;
+  threshold: number; // Matching events needed within window_sec; 1 fires on every match
+  window_sec: number;
+  channel_id?: number; // Deliver only to this channel instead of all project channels
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SavedSearch {
+  id: number;
+  short_id: string; // Used in shareable links
+  project_id: number;
+  name: string;
+  owner?: string;
+  query?: string;
+  filters_json: SavedSearchFilters | null;
+  time_range?: string; // Relative, e.g. "24h"
+  range_from?: Date;
+  range_to?: Date;
+  include_in_digest: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface AlertHistoryEntry {
+  id: number;
+  project_id: number;
+  rule: AlertRule;
+  target?: string; // Fingerprint, rule key or source
+  channel: NotificationChannelType;
+  channel_id?: number; // Null for the legacy discord_webhook
+  payload_json: Record<string, unknown>;
+  status: 'sent' | 'failed';
+  response_status?: number;
+  response_body?: string;
+  error?: string;
+  created_at: Date;
+}
+
+export interface ProjectFingerprint {
+  project_id: number;
+  fingerprint: string;
+  first_seen: Date;
+  created_at: Date;
+}
+
+export type NotificationChannelType = 'discord' | 'slack' | 'webhook' | 'email';
+
+export interface NotificationChannel {
+  id: number;
+  project_id: number;
+  name: string;
+  type: NotificationChannelType;
+  config_json: Record<string, unknown>; // Type-specific settings, see notificationChannelSchema
+  min_level: LogLevel; // Alerts below this level are not sent to the channel
+  enabled: boolean;
   created_at: Date;
   updated_at: Date;
 }
@@ -62,7 +173,8 @@ export interface FingerprintTracker {
   fingerprint: string;
   last_seen: Date;
   last_alert?: Date;
-  count_1m: number; // Rolling 1-minute count
+  window_start?: Date; // Start of the current spike window
+  count_1m: number; // Events seen within the current spike window
   created_at: Date;
 }
 
@@ -70,13 +182,20 @@ export interface FingerprintTracker {
 
 export const logLevelSchema = z.enum(['debug', 'info', 'warn', 'error', 'fatal']);
 
+// Serialized ctx per event; larger objects are rejected, or replaced by a note
+// for events mapped from OTLP and syslog (see fitLogEvent)
+export const MAX_CTX_BYTES = 64 * 1024;
+
 export const logEventSchema = z.object({
   ts: z.string().datetime().optional(), // ISO 8601 format, defaults to current time
   level: logLevelSchema,
   message: z.string().min(1).max(1024),
   source: z.string().min(1).max(64).optional(), // Defaults to project slug
   env: z.string().min(1).max(32).optional(), // Defaults to 'production'
-  ctx: z.record(z.unknown()).optional(),
+  ctx: z.record(z.unknown()).optional()
+    .refine(ctx => ctx === undefined || Buffer.byteLength(JSON.stringify(ctx), 'utf8') <= MAX_CTX_BYTES, {
+      message: `ctx must serialize to at most ${MAX_CTX_BYTES} bytes`
+    }),
   user_id: z.string().max(64).optional(),
   request_id: z.string().max(64).optional(),
   tags: z.string().max(128).optional(),
@@ -84,6 +203,101 @@ export const logEventSchema = z.object({
 
 export const logBatchSchema = z.array(logEventSchema).min(1).max(250);
 
+export const logQuerySchema = z.object({
+  level: logLevelSchema.optional(),
+  fingerprint: z.string().max(40).optional(),
+  q: z.string().min(1).max(255).optional(),
+  query: z.string().min(1).max(2000).optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  source: z.string().max(64).optional(),
+  env: z.string().max(32).optional(),
+  user_id: z.string().max(64).optional(),
+  request_id: z.string().max(64).optional(),
+  tags: z.string().max(128).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+  cursor: z.string().max(128).optional(), // next_cursor/prev_cursor from a previous page
+  ctx: z.record(z.string().max(255)).optional(), // From ctx.<path>=value parameters
+  group_by: z.string().max(136).optional(), // Column or ctx.<path>
+});
+
+export type LogSearchQuery = z.infer<typeof logQuerySchema>;
+
+export const logContextQuerySchema = z.object({
+  before: z.coerce.number().int().min(0).max(100).default(10),
+  after: z.coerce.number().int().min(0).max(100).default(10),
+  same: z.string().max(64).optional() // Comma-separated: source, env, request_id
+    .transform(value => (value ?? '').split(',').map(field => field.trim()).filter(field => field.length > 0))
+    .pipe(z.array(z.enum(['source', 'env', 'request_id']))),
+});
+
+export const issueQuerySchema = logQuerySchema
+  .pick({ level: true, source: true, env: true, query: true, from: true, to: true, ctx: true })
+  .extend({
+    sort: z.enum(['count', 'recent']).default('count'),
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+    offset: z.coerce.number().int().min(0).default(0),
+  });
+
+export type IssueQuery = z.infer<typeof issueQuerySchema>;
+
+export const alertHistoryQuerySchema = logQuerySchema
+  .pick({ from: true, to: true })
+  .extend({
+    project_id: z.coerce.number().int().positive().optional(),
+    rule: z.string().max(32).optional(),
+    status: z.enum(['sent', 'failed']).optional(),
+    limit: z.coerce.number().int().min(1).max(500).default(50),
+    offset: z.coerce.number().int().min(0).default(0),
+  });
+
+export const histogramQuerySchema = logQuerySchema
+  .omit({ limit: true, offset: true, cursor: true, group_by: true })
+  .extend({
+    interval: z.enum(['auto', '1m', '5m', '1h', '1d']).default('auto'),
+  });
+
+export const tailQuerySchema = logQuerySchema
+  .pick({ level: true, source: true, env: true, query: true })
+  .extend({
+    rate: z.coerce.number().int().min(1).max(100).default(20), // Events per second before events are dropped
+    last_event_id: z.coerce.number().int().min(0).optional(), // For clients that can't send Last-Event-ID
+  });
+
+export type TailQuery = z.infer<typeof tailQuerySchema>;
+
+export const adminTailQuerySchema = tailQuerySchema.extend({
+  project_id: z.coerce.number().int().positive().optional(), // All projects when omitted
+});
+
+export const facetFieldSchema = z.enum(['level', 'env', 'source', 'tags', 'user_id']);
+
+export type FacetField = z.infer<typeof facetFieldSchema>;
+
+export const facetOptionsSchema = z.object({
+  fields: z.string().max(64).optional() // Comma-separated; every facet field by default
+    .transform(value => (value ?? facetFieldSchema.options.join(',')).split(',').map(field => field.trim()).filter(field => field.length > 0))
+    .pipe(z.array(facetFieldSchema)),
+  limit: z.coerce.number().int().min(1).max(50).default(10), // Values per field
+});
+
+export const facetQuerySchema = logQuerySchema
+  .omit({ limit: true, offset: true, cursor: true, group_by: true })
+  .merge(facetOptionsSchema);
+
+export const exportOptionsSchema = z.object({
+  format: z.enum(['ndjson', 'csv']).default('ndjson'),
+  columns: z.string().max(1000).optional(), // Comma-separated log columns and ctx.<path> values
+  order: z.enum(['asc', 'desc']).default('desc'),
+});
+
+export const exportQuerySchema = logQuerySchema
+  .omit({ limit: true, offset: true, cursor: true, group_by: true })
+  .merge(exportOptionsSchema);
+
+export type ExportOptions = z.infer<typeof exportOptionsSchema>;
+
 export const projectCreateSchema = z.object({
   name: z.string().min(1).max(255),
   slug: z.string().min(1).max(64).regex(/^[a-z0-9-]+$/, 'Slug must contain only lowercase letters, numbers, and hyphens'),
@@ -99,8 +313,193 @@ export const alertSettingsSchema = z.object({
   error_rate_n: z.number().int().min(1).default(50),
   error_rate_window_sec: z.number().int().min(1).default(60),
   heartbeat_grace_sec: z.number().int().min(1).default(600),
+  heartbeat_sources: z.string().max(255).optional(),
+  cooldown_sec: z.number().int().min(0).default(900), // 15 minutes
+  new_issue_enabled: z.boolean().default(true),
+  digest_frequency: z.enum(['off', 'daily', 'weekly']).default('off'),
+  digest_hour: z.number().int().min(0).max(23).default(8),
+});
+
+export const discordChannelConfigSchema = z.object({
+  webhook_url: z.string().url(),
 });
 
+export const slackChannelConfigSchema = z.object({
+  webhook_url: z.string().url(),
+});
+
+export const webhookChannelConfigSchema = z.object({
+  url: z.string().url(),
+  secret: z.string().min(16).max(255).optional(), // Signs the body as X-Signature (HMAC-SHA256 hex)
+  headers: z.record(z.string()).optional(),
+});
+
+export const emailChannelConfigSchema = z.object({
+  to: z.array(z.string().email()).min(1).max(20),
+  subject_prefix: z.string().max(64).optional(),
+});
+
+export const fingerprintMuteSchema = z.object({
+  fingerprint: z.string().regex(/^[a-f0-9]{16,40}$/, 'Fingerprint must be a hex string'),
+  duration_sec: z.number().int().min(60).optional(),
+  until: z.string().datetime().optional(),
+  until_count: z.number().int().min(1).optional(),
+  reason: z.string().max(255).optional(),
+}).refine(mute => !(mute.duration_sec && mute.until), {
+  message: 'Use either duration_sec or until, not both',
+  path: ['until']
+});
+
+export const ctxFieldSchema = z.object({
+  path: z.string().max(128).regex(/^[\w-]+(\.[\w-]+)*$/, 'Path must be a dotted ctx path such as "tenant_id" or "http.route"'),
+});
+
+export const alertRuleMatchSchema = z.object({
+  level: z.array(logLevelSchema).min(1).optional(),
+  source: z.string().min(1).max(64).optional(),
+  env: z.string().min(1).max(32).optional(),
+  tags: z.array(z.string().min(1).max(64)).min(1).max(10).optional(),
+  message: z.string().min(1).max(255)
+    .refine(isValidRegExp, 'Invalid regular expression')
+    .refine(isSafeRegExp, 'Regular expression may backtrack catastrophically (nested quantifiers, quantified alternation or backreferences)')
+    .optional(),
+  ctx: z.record(z.union([z.string(), z.number(), z.boolean(), z.null()])).optional(),
+}).refine(match => Object.values(match).some(value => value !== undefined), 'At least one condition is required');
+
+export const alertRuleSchema = z.object({
+  name: z.string().min(1).max(64),
+  enabled: z.boolean().default(true),
+  match: alertRuleMatchSchema.optional(),
+  saved_search_id: z.number().int().positive().optional(), // Match what the saved search finds instead
+  threshold: z.number().int().min(1).default(1),
+  window_sec: z.number().int().min(1).max(86400).default(60),
+  channel_id: z.number().int().positive().nullable().optional(),
+}).refine(rule => (rule.match === undefined) !== (rule.saved_search_id === undefined), 'Use either match or saved_search_id');
+
+export const savedSearchFiltersSchema = logQuerySchema
+  .pick({ level: true, fingerprint: true, q: true, source: true, env: true, user_id: true, request_id: true, tags: true, ctx: true })
+  .strict();
+
+export type SavedSearchFilters = z.infer<typeof savedSearchFiltersSchema>;
+
+const savedSearchBaseSchema = z.object({
+  project_id: z.number().int().positive(),
+  name: z.string().min(1).max(255),
+  owner: z.string().min(1).max(64).nullable().optional(),
+  query: z.string().min(1).max(2000).nullable().optional(),
+  filters: savedSearchFiltersSchema.default({}),
+  time_range: z.string().regex(/^\d{1,4}[mhdw]$/, 'Time range must look like "15m", "24h", "7d" or "2w"').nullable().optional(),
+  from: z.string().datetime().nullable().optional(),
+  to: z.string().datetime().nullable().optional(),
+  include_in_digest: z.boolean().default(false),
+});
+
+const hasSingleRange = (search: { time_range?: string | null | undefined; from?: string | null | undefined; to?: string | null | undefined }) =>
+  !(search.time_range && (search.from || search.to));
+
+export const savedSearchSchema = savedSearchBaseSchema
+  .refine(hasSingleRange, 'Use either time_range or from/to, not both');
+
+// A search stays in its project, since alert rules may refer to it
+export const savedSearchUpdateSchema = savedSearchBaseSchema
+  .omit({ project_id: true })
+  .refine(hasSingleRange, 'Use either time_range or from/to, not both');
+
+function isValidRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Rule patterns run against every ingested event, so reject the shapes that can
+ * backtrack exponentially: a repeated group that itself repeats or alternates,
+ * like `(a+)+` or `(a|ab)*`, and backreferences
+ */
+function isSafeRegExp(pattern: string): boolean {
+  const groups: Array<{ repeats: boolean; alternates: boolean }> = [{ repeats: false, alternates: false }];
+  let i = 0;
+
+  while (i < pattern.length) {
+    const char = pattern[i];
+    let closed: { repeats: boolean; alternates: boolean } | undefined;
+
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] ?? '')) {
+        return false;
+      }
+      i += 2;
+    } else if (char === '[') {
+      i++;
+      while (i < pattern.length && pattern[i] !== ']') {
+        i += pattern[i] === '\\' ? 2 : 1;
+      }
+      i++;
+    } else if (char === '(') {
+      groups.push({ repeats: false, alternates: false });
+      i++;
+      // (?:...), (?=...), (?!...), (?<=...), (?<!...) and (?<name>...)
+      if (pattern[i] === '?') {
+        if (pattern[i + 1] === '<' && pattern[i + 2] !== '=' && pattern[i + 2] !== '!') {
+          i = pattern.indexOf('>', i) + 1;
+        } else {
+          i += pattern[i + 1] === '<' ? 3 : 2;
+        }
+      }
+      continue;
+    } else if (char === ')') {
+      closed = groups.length > 1 ? groups.pop() : undefined;
+      i++;
+    } else if (char === '|') {
+      groups[groups.length - 1]!.alternates = true;
+      i++;
+      continue;
+    } else {
+      i++;
+    }
+
+    const parent = groups[groups.length - 1]!;
+    const quantifier = /^(?:[*+?]|\{(\d+)(,(\d*))?\})/.exec(pattern.slice(i));
+    // Only a variable repeat count gives the engine choices to backtrack over
+    const repeats = quantifier !== null && quantifier[0] !== '?'
+      && (quantifier[2] === undefined ? !quantifier[1] : !quantifier[3] || Number(quantifier[3]) > Number(quantifier[1]));
+
+    if (repeats && closed && (closed.repeats || closed.alternates)) {
+      return false;
+    }
+    if (repeats || closed?.repeats) {
+      parent.repeats = true;
+    }
+    if (closed?.alternates) {
+      parent.alternates = true;
+    }
+    if (quantifier) {
+      i += quantifier[0].length;
+      if (pattern[i] === '?') {
+        i++; // Lazy
+      }
+    }
+  }
+
+  return true;
+}
+
+const notificationChannelBaseSchema = z.object({
+  name: z.string().min(1).max(64),
+  min_level: logLevelSchema.default('warn'),
+  enabled: z.boolean().default(true),
+});
+
+export const notificationChannelSchema = z.discriminatedUnion('type', [
+  notificationChannelBaseSchema.extend({ type: z.literal('discord'), config: discordChannelConfigSchema }),
+  notificationChannelBaseSchema.extend({ type: z.literal('slack'), config: slackChannelConfigSchema }),
+  notificationChannelBaseSchema.extend({ type: z.literal('webhook'), config: webhookChannelConfigSchema }),
+  notificationChannelBaseSchema.extend({ type: z.literal('email'), config: emailChannelConfigSchema }),
+]);
+
 // ===== API REQUEST/RESPONSE TYPES =====
 
 export interface LogIngestionRequest {
@@ -118,10 +517,19 @@ export interface LogQueryParams {
   level?: LogLevel;
   fingerprint?: string;
   q?: string; // Message search query
+  query?: string; // Query language, e.g. "level:error source:api.*"
   from?: string; // ISO timestamp  
   to?: string; // ISO timestamp
+  source?: string;
+  env?: string;
+  user_id?: string;
+  request_id?: string;
+  tags?: string; // Comma-separated, all must be present
   limit?: number;
   offset?: number;
+  cursor?: string; // Takes precedence over offset
+  ctx?: Record<string, string>; // Dotted path -> value, "*" or "min..max"
+  group_by?: string;
 }
 
 export interface LogQueryResponse {
@@ -129,6 +537,47 @@ export interface LogQueryResponse {
   total: number;
   limit: number;
   offset: number;
+  next_cursor: string | null; // Older logs
+  prev_cursor: string | null; // Newer logs
+}
+
+export interface LogHistogram {
+  interval: '1m' | '5m' | '1h' | '1d';
+  interval_sec: number;
+  from: string;
+  to: string;
+  total: number;
+  buckets: Array<{
+    ts: string; // Bucket start (UTC)
+    total: number;
+    levels: Record<LogLevel, number>;
+  }>;
+}
+
+export interface Issue {
+  fingerprint: string;
+  first_seen: string; // Earliest known occurrence, even before the range or retention
+  last_seen: string;
+  count: number; // Events in the range
+  users: number; // Distinct user_id values in the range
+  envs: string[];
+  sources: string[];
+  sample: StoredLogEvent | null; // Latest event in the range
+}
+
+export interface LogFacets {
+  from: string;
+  to: string;
+  facets: Partial<Record<FacetField, {
+    values: Array<{ value: string; count: number }>; // Most frequent first
+    truncated: boolean; // More values exist than were returned
+  }>>;
+}
+
+export interface LogGroupResponse {
+  group_by: string;
+  groups: Array<{ value: string | null; count: number }>; // Largest first
+  total: number; // Matching events across all groups
 }
 
 export interface HealthCheckResponse {
@@ -167,6 +616,16 @@ export class ValidationError extends Error {
   }
 }
 
+export class QuerySyntaxError extends ValidationError {
+  constructor(
+    message: string,
+    public position: number // 1-based character offset in the query
+  ) {
+    super(message, 'query', 'INVALID_QUERY_SYNTAX');
+    this.name = 'QuerySyntaxError';
+  }
+}
+
 export class AuthenticationError extends Error {
   constructor(message: string, public code?: string) {
     super(message);
@@ -0,0 +1,122 @@
+// Tests for admin and project authentication on the route plugins
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { createHash, createHmac } from 'crypto';
+import type { FastifyInstance } from 'fastify';
+import { createApp } from '@/app';
+import { executeQuery, executeQuerySingle } from '@/services/database';
+
+vi.mock('@/services/database', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@/services/database')>(),
+  executeQuery: vi.fn(async () => []),
+  executeQuerySingle: vi.fn(async () => null)
+}));
+
+const ADMIN_TOKEN = 'test-admin-token-at-least-32-characters';
+const PROJECT_KEY = 'test-project-key';
+
+let app: FastifyInstance;
+
+function sign(data: string): string {
+  return createHmac('sha256', 'test-hmac-secret-at-least-32-characters').update(data, 'utf8').digest('hex');
+}
+
+beforeAll(async () => {
+  vi.mocked(executeQuerySingle).mockImplementation(async (sql: string, params?: unknown[]) => {
+    const projectKeyHash = createHash('sha256').update(PROJECT_KEY).digest('hex');
+    return sql.includes('FROM projects WHERE api_key_hash') && params?.[0] === projectKeyHash
+      ? { id: 1, slug: 'shop', name: 'Shop', api_key_hash: projectKeyHash } as any
+      : null;
+  });
+
+  app = await createApp({ logger: false });
+  await app.ready();
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+describe('Admin authentication', () => {
+  it('rejects admin routes without a valid token', async () => {
+    const missing = await app.inject({ method: 'GET', url: '/admin/projects/1/alerts' });
+    const invalid = await app.inject({ method: 'GET', url: '/admin/projects', headers: { 'x-admin-token': 'short' } });
+
+    expect(missing.statusCode).toBe(401);
+    expect(missing.json()).toMatchObject({ code: 'ADMIN_TOKEN_MISSING' });
+    expect(invalid.statusCode).toBe(401);
+    expect(invalid.json()).toMatchObject({ code: 'ADMIN_TOKEN_INVALID' });
+  });
+
+  it('serves admin routes with the admin token', async () => {
+    vi.mocked(executeQuery).mockClear();
+    const response = await app.inject({ method: 'GET', url: '/admin/projects', headers: { 'x-admin-token': ADMIN_TOKEN } });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ success: true, projects: [] });
+    expect(executeQuery).toHaveBeenCalled();
+  });
+
+  it('reports malformed alert history dates as 400', async () => {
+    vi.mocked(executeQuery).mockClear();
+    const response = await app.inject({
+      method: 'GET',
+      url: '/admin/alerts/history?from=yesterday',
+      headers: { 'x-admin-token': ADMIN_TOKEN }
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json()).toMatchObject({ error: 'Invalid alert history query', details: { from: expect.any(Array) } });
+    expect(executeQuery).not.toHaveBeenCalled();
+  });
+});
+
+describe('Project authentication', () => {
+  it('rejects project routes without a key or a valid signature', async () => {
+    const missing = await app.inject({ method: 'GET', url: '/api/logs' });
+    const unsigned = await app.inject({ method: 'GET', url: '/api/logs', headers: { 'x-project-key': PROJECT_KEY } });
+    const wrongSignature = await app.inject({
+      method: 'GET',
+      url: '/api/logs?level=error',
+      headers: { 'x-project-key': PROJECT_KEY, 'x-signature': sign('level=warn') }
+    });
+    const unknownKey = await app.inject({
+      method: 'GET',
+      url: '/api/trace/req-1',
+      headers: { 'x-project-key': 'other-key', 'x-signature': sign('') }
+    });
+
+    expect([missing, unsigned, wrongSignature, unknownKey].map(response => response.statusCode)).toEqual([401, 401, 401, 401]);
+    expect(missing.json()).toMatchObject({ code: 'PROJECT_KEY_MISSING' });
+    expect(unsigned.json()).toMatchObject({ code: 'SIGNATURE_MISSING' });
+    expect(wrongSignature.json()).toMatchObject({ code: 'SIGNATURE_INVALID' });
+    expect(unknownKey.json()).toMatchObject({ code: 'PROJECT_NOT_FOUND' });
+  });
+
+  it('serves project routes with a signed query string', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/trace/req-1?limit=50',
+      headers: { 'x-project-key': PROJECT_KEY, 'x-signature': sign('limit=50') }
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({ request_id: 'req-1', events: [] });
+  });
+
+  it('reports invalid parameters on authenticated requests as 400', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/logs?level=loud',
+      headers: { 'x-project-key': PROJECT_KEY, 'x-signature': sign('level=loud') }
+    });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('leaves public routes open', async () => {
+    const response = await app.inject({ method: 'GET', url: '/healthz' });
+
+    expect(response.statusCode).toBe(200);
+  });
+});
@@ -0,0 +1,264 @@
+// Tests for notification channel delivery against local stand-in servers
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer as createHttpServer, type Server as HttpServer } from 'http';
+import { createServer as createNetServer, type Server as NetServer } from 'net';
+import { createHmac } from 'crypto';
+import type { AddressInfo } from 'net';
+import { appConfig } from '@/config';
+import * as channels from '@/services/channels';
+
+interface CapturedRequest {
+  path: string;
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+}
+
+interface CapturedMail {
+  commands: string[];
+  data: string;
+}
+
+let httpServer: HttpServer;
+let smtpServer: NetServer;
+let httpBase: string;
+const requests: CapturedRequest[] = [];
+const mails: CapturedMail[] = [];
+
+const notification = {
+  rule: 'spike' as const,
+  level: 'error' as const,
+  title: '🚨 Spike: 12 × ERROR in 60s',
+  description: 'Payment failed <card declined> & retried',
+  url: 'https://logs.example.com/?tab=search&project_id=1',
+  fields: [
+    { name: 'Project', value: 'Shop', inline: true },
+    { name: 'Count', value: '12 (threshold 5)', inline: true }
+  ],
+  timestamp: '2026-01-01T00:00:00.000Z',
+  project: { id: 1, slug: 'shop', name: 'Shop' }
+};
+
+/**
+ * Minimal SMTP server without STARTTLS: accepts AUTH PLAIN and records each session
+ */
+function startSmtpServer(): Promise<NetServer> {
+  const server = createNetServer(socket => {
+    const mail: CapturedMail = { commands: [], data: '' };
+    mails.push(mail);
+    let inData = false;
+    let buffer = '';
+
+    socket.write('220 localhost ESMTP test\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 2.0.0 Ok: queued as TEST1\r\n');
+          } else {
+            mail.data += `${line}\n`;
+          }
+          continue;
+        }
+
+        mail.commands.push(line);
+        const verb = line.split(' ')[0]?.toUpperCase();
+        if (verb === 'EHLO') {
+          socket.write('250-localhost\r\n250-AUTH PLAIN LOGIN\r\n250 8BITMIME\r\n');
+        } else if (verb === 'AUTH') {
+          socket.write('235 2.7.0 Authentication successful\r\n');
+        } else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 2.0.0 Bye\r\n');
+        } else {
+          socket.write('250 2.1.0 Ok\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+function startHttpServer(): Promise<HttpServer> {
+  const server = createHttpServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      requests.push({ path: req.url ?? '', headers: req.headers, body });
+      if (req.url === '/fail') {
+        res.writeHead(500);
+        res.end('boom');
+        return;
+      }
+      res.writeHead(req.url === '/discord' ? 204 : 200);
+      res.end(req.url === '/slack' ? 'ok' : '');
+    });
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+function lastRequest(): CapturedRequest {
+  const request = requests[requests.length - 1];
+  if (!request) {
+    throw new Error('No request captured');
+  }
+  return request;
+}
+
+beforeAll(async () => {
+  httpServer = await startHttpServer();
+  smtpServer = await startSmtpServer();
+  httpBase = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+
+  Object.assign(appConfig.external.smtp, {
+    host: '127.0.0.1',
+    port: (smtpServer.address() as AddressInfo).port,
+    username: 'alerts',
+    password: 'secret',
+    from: 'Tekno Logger <alerts@example.com>'
+  });
+});
+
+afterAll(async () => {
+  await new Promise(resolve => httpServer.close(resolve));
+  await new Promise(resolve => smtpServer.close(resolve));
+});
+
+describe('Notification channels', () => {
+  it('posts a Discord embed coloured by level', async () => {
+    const result = await channels.sendToChannel({
+      id: 1, name: 'ops', type: 'discord', config: { webhook_url: `${httpBase}/discord` }, min_level: 'warn'
+    }, notification);
+
+    expect(result).toMatchObject({ channel_id: 1, channel: 'ops', type: 'discord', success: true, status: 204, error: null });
+
+    const payload = JSON.parse(lastRequest().body);
+    expect(payload.embeds[0].title).toBe(notification.title);
+    expect(payload.embeds[0].color).toBe(0xe74c3c);
+    expect(payload.embeds[0].footer.text).toBe('tekno-logger');
+    expect(payload.embeds[0].fields.at(-1).value).toContain(notification.url);
+  });
+
+  it('posts Slack blocks with escaped text', async () => {
+    const result = await channels.sendToChannel({
+      id: 2, name: 'slack', type: 'slack', config: { webhook_url: `${httpBase}/slack` }, min_level: 'warn'
+    }, notification);
+
+    expect(result.success).toBe(true);
+
+    const payload = JSON.parse(lastRequest().body);
+    expect(payload.text).toBe(notification.title);
+    expect(payload.blocks[0]).toMatchObject({ type: 'header' });
+    expect(payload.blocks[1].text.text).toBe('Payment failed &lt;card declined&gt; &amp; retried');
+    expect(payload.blocks[2].fields).toHaveLength(2);
+    expect(payload.blocks[3].elements[0].text).toContain(`<${notification.url}|`);
+  });
+
+  it('signs generic webhook bodies with HMAC-SHA256', async () => {
+    const secret = 'webhook-secret-0123456789';
+    const result = await channels.sendToChannel({
+      id: 3,
+      name: 'hook',
+      type: 'webhook',
+      config: { url: `${httpBase}/hook`, secret, headers: { 'X-Team': 'payments' } },
+      min_level: 'error'
+    }, notification);
+
+    expect(result.success).toBe(true);
+
+    const request = lastRequest();
+    const expected = createHmac('sha256', secret).update(request.body, 'utf8').digest('hex');
+    expect(request.headers['x-signature']).toBe(expected);
+    expect(request.headers['x-team']).toBe('payments');
+    expect(request.headers['content-type']).toBe('application/json');
+
+    const payload = JSON.parse(request.body);
+    expect(payload).toMatchObject({ event: 'alert', rule: 'spike', level: 'error', project: { slug: 'shop' } });
+  });
+
+  it('omits the signature when no secret is configured', async () => {
+    await channels.sendToChannel({
+      id: 4, name: 'hook', type: 'webhook', config: { url: `${httpBase}/hook` }, min_level: 'warn'
+    }, notification);
+
+    expect(lastRequest().headers['x-signature']).toBeUndefined();
+  });
+
+  it('reports HTTP failures without throwing', async () => {
+    const result = await channels.sendToChannel({
+      id: 5, name: 'broken', type: 'slack', config: { webhook_url: `${httpBase}/fail` }, min_level: 'warn'
+    }, notification);
+
+    expect(result).toMatchObject({ success: false, status: 500, error: 'HTTP 500: boom' });
+  });
+
+  it('rejects invalid channel config', async () => {
+    const result = await channels.sendToChannel({
+      id: 6, name: 'bad', type: 'email', config: { to: [] }, min_level: 'warn'
+    }, notification);
+
+    expect(result).toMatchObject({ success: false, error: 'Invalid email channel config' });
+  });
+
+  it('sends email through SMTP', async () => {
+    const { username } = appConfig.external.smtp;
+    appConfig.external.smtp.username = undefined;
+
+    const result = await channels.sendToChannel({
+      id: 7, name: 'oncall', type: 'email', config: { to: ['oncall@example.com', 'dev@example.com'] }, min_level: 'error'
+    }, notification).finally(() => {
+      appConfig.external.smtp.username = username;
+    });
+
+    expect(result).toMatchObject({ success: true, error: null });
+    expect(result.response).toContain('250');
+
+    const mail = mails[mails.length - 1];
+    expect(mail).toBeDefined();
+    expect(mail?.commands).toContain('MAIL FROM:<alerts@example.com>');
+    expect(mail?.commands).toContain('RCPT TO:<oncall@example.com>');
+    expect(mail?.commands).toContain('RCPT TO:<dev@example.com>');
+    expect(mail?.data).toContain('Subject: =?UTF-8?B?');
+    expect(mail?.data).toContain('Count: 12 (threshold 5)');
+    expect(mail?.data).toContain(notification.url);
+  });
+
+  it('refuses to send SMTP credentials without TLS', async () => {
+    const result = await channels.sendToChannel({
+      id: 8, name: 'oncall', type: 'email', config: { to: ['oncall@example.com'] }, min_level: 'error'
+    }, notification);
+
+    expect(result).toMatchObject({ success: false, error: expect.stringMatching(/STARTTLS/) });
+    expect(mails[mails.length - 1]?.commands.some(command => command.startsWith('AUTH'))).toBe(false);
+  });
+
+  it('filters by minimum level', () => {
+    expect(channels.meetsMinLevel('error', 'warn')).toBe(true);
+    expect(channels.meetsMinLevel('warn', 'warn')).toBe(true);
+    expect(channels.meetsMinLevel('info', 'warn')).toBe(false);
+    expect(channels.meetsMinLevel('fatal', 'error')).toBe(true);
+  });
+
+  it('masks secrets in channel config', () => {
+    const masked = channels.maskChannelConfig('webhook', {
+      url: 'https://hooks.example.com/services/abcdef123456',
+      secret: 'webhook-secret-0123456789',
+      headers: { Authorization: 'Bearer token' }
+    });
+
+    expect(masked.url).toBe('https://hooks.example.com/…3456');
+    expect(masked.secret).toBe('••••••••');
+    expect(masked.headers).toEqual({ Authorization: '••••' });
+  });
+});
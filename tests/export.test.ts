@@ -0,0 +1,105 @@
+// Tests for NDJSON/CSV log export formatting
+
+import { describe, it, expect, vi } from 'vitest';
+import { PassThrough, Readable } from 'stream';
+import { streamQuery } from '@/services/database';
+import * as exporter from '@/services/export';
+import { RateLimitError } from '@/types';
+
+vi.mock('@/services/database', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@/services/database')>(),
+  streamQuery: vi.fn()
+}));
+
+const row = {
+  id: 7,
+  project_id: 1,
+  ts: new Date('2026-01-15T12:00:00.250Z'),
+  level: 'error',
+  message: 'Charge failed, "card_declined"\nretrying',
+  source: 'payments',
+  env: 'production',
+  ctx_json: { user: { id: 42 }, provider: 'stripe' },
+  user_id: null,
+  request_id: 'req-1',
+  tags: 'billing,stripe',
+  fingerprint: 'abc123',
+  created_at: new Date('2026-01-15T12:00:01Z')
+};
+
+async function render(format: 'ndjson' | 'csv', columns: string[], rows: object[]): Promise<string> {
+  let output = '';
+  for await (const chunk of Readable.from(rows).pipe(exporter.createExportTransform(format, columns))) {
+    output += chunk.toString();
+  }
+  return output;
+}
+
+describe('Log export', () => {
+  it('writes one JSON object per line with decoded ctx', async () => {
+    const output = await render('ndjson', ['ts', 'level', 'ctx', 'ctx.user.id', 'user_id'], [row, row]);
+    const lines = output.trimEnd().split('\n');
+
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0]!)).toEqual({
+      ts: '2026-01-15T12:00:00.250Z',
+      level: 'error',
+      ctx: { user: { id: 42 }, provider: 'stripe' },
+      'ctx.user.id': 42,
+      user_id: null
+    });
+  });
+
+  it('quotes CSV fields and always writes the header', async () => {
+    const output = await render('csv', ['id', 'message', 'tags', 'ctx.provider', 'user_id'], [row]);
+
+    expect(output).toBe(
+      'id,message,tags,ctx.provider,user_id\r\n' +
+      '7,"Charge failed, ""card_declined""\nretrying","billing,stripe",stripe,\r\n'
+    );
+    expect(await render('csv', ['ts', 'level'], [])).toBe('ts,level\r\n');
+  });
+
+  it('validates requested columns', () => {
+    expect(exporter.parseExportColumns(undefined)).toEqual([...exporter.EXPORT_COLUMNS]);
+    expect(exporter.parseExportColumns(' ts, level ,ctx.http.status,ts')).toEqual(['ts', 'level', 'ctx.http.status']);
+    expect(() => exporter.parseExportColumns('ts,ctx_json')).toThrow("Unknown export column 'ctx_json'");
+    expect(() => exporter.parseExportColumns("ctx.a'b")).toThrow('Unknown export column');
+  });
+
+  it('names downloads after the prefix and time', () => {
+    expect(exporter.exportFileName('checkout', 'csv', new Date('2026-01-15T12:00:00.999Z')))
+      .toBe('checkout-logs-20260115T120000Z.csv');
+  });
+
+  it('aborts the download when reading rows fails', async () => {
+    const rows = new PassThrough({ objectMode: true });
+    vi.mocked(streamQuery).mockResolvedValueOnce(rows);
+
+    const output = await exporter.streamLogExport(
+      { where: 'project_id = ?', params: [1] },
+      { format: 'ndjson', columns: ['id'], order: 'desc', scope: 'project:1' }
+    );
+    const failed = new Promise(resolve => output.once('error', resolve));
+    output.resume();
+    rows.write(row);
+    rows.destroy(new Error('Lost connection to MySQL server'));
+
+    await expect(failed).resolves.toMatchObject({ message: 'Lost connection to MySQL server' });
+  });
+
+  it('caps concurrent exports per scope', async () => {
+    vi.mocked(streamQuery).mockImplementation(async () => new PassThrough({ objectMode: true }));
+    const options = { format: 'csv' as const, columns: ['id'], order: 'asc' as const, scope: 'project:2' };
+    const filter = { where: 'project_id = ?', params: [2] };
+
+    const first = await exporter.streamLogExport(filter, options);
+    await exporter.streamLogExport(filter, options);
+    await expect(exporter.streamLogExport(filter, options)).rejects.toBeInstanceOf(RateLimitError);
+    await expect(exporter.streamLogExport(filter, { ...options, scope: 'project:3' })).resolves.toBeDefined();
+
+    first.destroy();
+    await new Promise(resolve => first.once('close', resolve));
+    await expect(exporter.streamLogExport(filter, options)).resolves.toBeDefined();
+  });
+});
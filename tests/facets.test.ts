@@ -0,0 +1,47 @@
+// Tests for search facet counting and options
+
+import { describe, it, expect } from 'vitest';
+import * as facets from '@/services/facets';
+import * as types from '@/types';
+
+describe('Tag facets', () => {
+  it('splits tag lists and totals each tag', () => {
+    const counts = facets.sumTagCounts([
+      { value: 'billing,stripe', count: 5 },
+      { value: 'billing', count: 3 },
+      { value: 'Stripe, retry', count: 1 }
+    ], 10);
+
+    expect(counts).toEqual({
+      values: [
+        { value: 'billing', count: 8 },
+        { value: 'stripe', count: 6 },
+        { value: 'retry', count: 1 }
+      ],
+      truncated: false
+    });
+  });
+
+  it('keeps the most frequent tags within the limit', () => {
+    const counts = facets.sumTagCounts([
+      { value: 'a,b,c', count: 1 },
+      { value: 'c', count: 4 }
+    ], 2);
+
+    expect(counts.values).toEqual([{ value: 'c', count: 5 }, { value: 'a', count: 1 }]);
+    expect(counts.truncated).toBe(true);
+  });
+});
+
+describe('Facet options', () => {
+  it('defaults to every field', () => {
+    const options = types.facetOptionsSchema.parse({});
+
+    expect(options).toEqual({ fields: ['level', 'env', 'source', 'tags', 'user_id'], limit: 10 });
+  });
+
+  it('accepts a field list and rejects unknown fields', () => {
+    expect(types.facetOptionsSchema.parse({ fields: 'env, source', limit: '5' })).toEqual({ fields: ['env', 'source'], limit: 5 });
+    expect(types.facetOptionsSchema.safeParse({ fields: 'message' }).success).toBe(false);
+  });
+});
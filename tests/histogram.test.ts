@@ -0,0 +1,52 @@
+// Tests for histogram bucketing
+
+import { describe, it, expect } from 'vitest';
+import * as histogram from '@/services/histogram';
+import * as types from '@/types';
+
+const range = (hours: number) => {
+  const to = new Date('2026-01-15T12:00:00Z');
+  return { from: new Date(to.getTime() - hours * 3_600_000), to };
+};
+
+describe('Log histograms', () => {
+  it('sizes auto intervals to the range', () => {
+    expect(histogram.resolveInterval('auto', range(1))).toBe('1m');
+    expect(histogram.resolveInterval('auto', range(24))).toBe('1h');
+    expect(histogram.resolveInterval('auto', range(24 * 30))).toBe('1d');
+  });
+
+  it('rejects explicit intervals with too many buckets', () => {
+    expect(histogram.resolveInterval('5m', range(24))).toBe('5m');
+    expect(() => histogram.resolveInterval('1m', range(48))).toThrow('Range too long');
+    expect(() => histogram.resolveInterval('auto', range(24 * 2000))).toThrow('Range too long for 1d buckets');
+  });
+
+  it('defaults to the last day and rejects inverted ranges', () => {
+    const now = new Date('2026-01-15T12:00:00Z');
+    expect(histogram.resolveHistogramRange(undefined, undefined, now)).toEqual(range(24));
+    expect(() => histogram.resolveHistogramRange('2026-01-15T12:00:00Z', '2026-01-15T11:00:00Z')).toThrow('from must be before to');
+    expect(() => histogram.resolveHistogramRange('yesterday', undefined, now)).toThrow(types.ValidationError);
+    expect(() => histogram.resolveHistogramRange(undefined, 'soon', now)).toThrow('Invalid to date');
+  });
+
+  it('zero-fills buckets and splits counts by level', () => {
+    const from = new Date('2026-01-15T10:30:00Z');
+    const to = new Date('2026-01-15T12:10:00Z');
+    const hour = (iso: string) => Date.parse(iso) / 3_600_000;
+
+    const result = histogram.buildHistogram([
+      { bucket: hour('2026-01-15T10:00:00Z'), level: 'info', count: 4 },
+      { bucket: hour('2026-01-15T12:00:00Z'), level: 'error', count: 2 },
+      { bucket: hour('2026-01-15T12:00:00Z'), level: 'info', count: 1 }
+    ], { from, to }, '1h');
+
+    expect(result.buckets.map(bucket => [bucket.ts, bucket.total])).toEqual([
+      ['2026-01-15T10:00:00.000Z', 4],
+      ['2026-01-15T11:00:00.000Z', 0],
+      ['2026-01-15T12:00:00.000Z', 3]
+    ]);
+    expect(result.buckets[2]?.levels).toEqual({ debug: 0, info: 1, warn: 0, error: 2, fatal: 0 });
+    expect(result).toMatchObject({ interval: '1h', interval_sec: 3600, total: 7 });
+  });
+});
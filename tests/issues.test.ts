@@ -0,0 +1,87 @@
+// Tests for issue grouping and sample selection
+
+import { describe, it, expect, vi } from 'vitest';
+import { executeQuery, executeQuerySingle } from '@/services/database';
+import * as issues from '@/services/issues';
+import type { LogRow } from '@/services/search';
+import { issueQuerySchema } from '@/types';
+
+vi.mock('@/services/database', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@/services/database')>(),
+  executeQuery: vi.fn(async () => []),
+  executeQuerySingle: vi.fn(async () => null)
+}));
+
+const at = (minutes: number) => new Date(Date.UTC(2026, 0, 15, 12, minutes));
+
+const group = (fingerprint: string, overrides: Partial<issues.IssueGroupRow> = {}): issues.IssueGroupRow => ({
+  fingerprint,
+  first_seen: at(0),
+  last_seen: at(30),
+  count: 3,
+  users: 1,
+  envs: 'production\nstaging',
+  sources: 'api',
+  ...overrides
+});
+
+const row = (id: number, fingerprint: string, minutes: number): LogRow => ({
+  id,
+  project_id: 1,
+  ts: at(minutes),
+  level: 'error',
+  message: `event ${id}`,
+  source: 'api',
+  env: 'production',
+  ctx_json: null,
+  user_id: null,
+  request_id: null,
+  tags: null,
+  fingerprint,
+  day_id: 20260115,
+  created_at: at(minutes)
+} as unknown as LogRow);
+
+describe('Issues', () => {
+  it('keeps group order and picks the latest sample per fingerprint', () => {
+    const result = issues.buildIssues(
+      [group('b'), group('a', { count: 1 }), group('c')],
+      [{ fingerprint: 'a', first_seen: new Date('2025-12-01T00:00:00Z') }],
+      [row(4, 'a', 30), row(9, 'a', 30), row(5, 'b', 30)]
+    );
+
+    expect(result.map(issue => [issue.fingerprint, issue.sample?.id ?? null])).toEqual([['b', 5], ['a', 9], ['c', null]]);
+    expect(result[1]).toMatchObject({
+      first_seen: '2025-12-01T00:00:00.000Z',
+      last_seen: '2026-01-15T12:30:00.000Z',
+      count: 1,
+      envs: ['production', 'staging']
+    });
+    expect(result[0]!.first_seen).toBe('2026-01-15T12:00:00.000Z');
+  });
+
+  it('selects samples for the page in one query under the search filters', async () => {
+    vi.mocked(executeQuery).mockImplementation(async (sql: string) => {
+      if (sql.includes('GROUP BY fingerprint')) {
+        return [group('a'), group('b')] as any;
+      }
+      if (sql.includes('(fingerprint, ts) IN')) {
+        return [row(7, 'a', 30)] as any;
+      }
+      return [];
+    });
+    vi.mocked(executeQuerySingle).mockResolvedValue({ total: 2 } as any);
+
+    const result = await issues.getIssues(1, issueQuerySchema.parse({ level: 'error', env: 'production' }), at(60));
+
+    const sampleQueries = vi.mocked(executeQuery).mock.calls.filter(([sql]) => sql.includes('(fingerprint, ts) IN'));
+    expect(sampleQueries).toHaveLength(1);
+
+    const [sql, params] = sampleQueries[0]!;
+    expect(sql).toMatch(/level IN \(\?\)|level = \?/);
+    expect(sql).toMatch(/env = \?/);
+    expect(params).toEqual(expect.arrayContaining(['error', 'production', 'a', 'b', at(30)]));
+    expect(result.total).toBe(2);
+    expect(result.issues.map(issue => issue.sample?.id ?? null)).toEqual([7, null]);
+  });
+});
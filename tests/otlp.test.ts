@@ -0,0 +1,271 @@
+// Tests for OTLP log decoding, mapping onto log events and the /v1/logs endpoint
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { createHash } from 'crypto';
+import { gzipSync } from 'zlib';
+import type { FastifyInstance } from 'fastify';
+import { createApp } from '@/app';
+import { ingestLogEvents } from '@/routes/logs';
+import { executeQuerySingle } from '@/services/database';
+import * as otlp from '@/services/otlp';
+
+vi.mock('@/services/database', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@/services/database')>(),
+  executeQuery: vi.fn(async () => []),
+  executeQuerySingle: vi.fn(async () => null)
+}));
+
+vi.mock('@/routes/logs', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@/routes/logs')>(),
+  ingestLogEvents: vi.fn(async (_project: unknown, events: unknown[]) => events.length)
+}));
+
+const PROJECT_KEY = 'test-project-key';
+
+// Minimal protobuf encoding for building fixtures
+function varint(value: number | bigint): Buffer {
+  let remaining = BigInt(value);
+  const bytes: number[] = [];
+  do {
+    let byte = Number(remaining & 0x7fn);
+    remaining >>= 7n;
+    if (remaining > 0n) byte |= 0x80;
+    bytes.push(byte);
+  } while (remaining > 0n);
+  return Buffer.from(bytes);
+}
+
+function message(field: number, payload: Buffer | string): Buffer {
+  const bytes = typeof payload === 'string' ? Buffer.from(payload, 'utf8') : payload;
+  return Buffer.concat([varint((field << 3) | 2), varint(bytes.length), bytes]);
+}
+
+function varintField(field: number, value: number): Buffer {
+  return Buffer.concat([varint(field << 3), varint(value)]);
+}
+
+function fixed64Field(field: number, value: bigint): Buffer {
+  const bytes = Buffer.alloc(8);
+  bytes.writeBigUInt64LE(value);
+  return Buffer.concat([varint((field << 3) | 1), bytes]);
+}
+
+function stringAttribute(key: string, value: string): Buffer {
+  return Buffer.concat([message(1, key), message(2, message(1, value))]);
+}
+
+describe('OTLP mapping', () => {
+  it('maps resource, severity, body and trace context onto a log event', () => {
+    const [event] = otlp.otlpToLogEvents({
+      resourceLogs: [{
+        resource: {
+          attributes: [
+            { key: 'service.name', value: { stringValue: 'checkout' } },
+            { key: 'deployment.environment', value: { stringValue: 'staging' } }
+          ]
+        },
+        scopeLogs: [{
+          scope: { name: 'io.opentelemetry.logback', version: '2.1.0' },
+          logRecords: [{
+            timeUnixNano: '1768478400250000000',
+            severityNumber: 17,
+            severityText: 'ERROR',
+            body: { stringValue: 'Payment failed' },
+            attributes: [
+              { key: 'http.method', value: { stringValue: 'POST' } },
+              { key: 'http.status_code', value: { intValue: '502' } },
+              { key: 'enduser.id', value: { stringValue: 'user-42' } }
+            ],
+            traceId: '5B8EFFF798038103D269B633813FC60C',
+            spanId: 'eee19b7ec3c1b174'
+          }]
+        }]
+      }]
+    });
+
+    expect(event).toEqual({
+      level: 'error',
+      message: 'Payment failed',
+      ts: '2026-01-15T12:00:00.250Z',
+      source: 'checkout',
+      env: 'staging',
+      user_id: 'user-42',
+      request_id: '5b8efff798038103d269b633813fc60c',
+      ctx: {
+        http: { method: 'POST', status_code: 502 },
+        enduser: { id: 'user-42' },
+        trace_id: '5b8efff798038103d269b633813fc60c',
+        span_id: 'eee19b7ec3c1b174',
+        resource: { service: { name: 'checkout' }, deployment: { environment: 'staging' } },
+        scope: { name: 'io.opentelemetry.logback', version: '2.1.0' }
+      }
+    });
+  });
+
+  it('maps severity numbers and falls back to severity text', () => {
+    expect([1, 5, 9, 13, 17, 21].map(number => otlp.severityToLevel(number)))
+      .toEqual(['debug', 'debug', 'info', 'warn', 'error', 'fatal']);
+    expect(otlp.severityToLevel(0, 'Warning')).toBe('warn');
+    expect(otlp.severityToLevel(undefined)).toBe('info');
+  });
+
+  it('serializes structured bodies and names empty ones', () => {
+    const events = otlp.otlpToLogEvents({
+      resourceLogs: [{
+        scopeLogs: [{
+          logRecords: [
+            { body: { kvlistValue: { values: [{ key: 'order', value: { intValue: 7 } }] } } },
+            { eventName: 'session.start' }
+          ]
+        }]
+      }]
+    });
+
+    expect(events.map(event => event.message)).toEqual(['{"order":7}', 'session.start']);
+    expect(events[0]!.ts).toBeUndefined();
+  });
+});
+
+describe('OTLP protobuf', () => {
+  it('decodes an ExportLogsServiceRequest', () => {
+    const record = Buffer.concat([
+      fixed64Field(1, 1768478400250000000n),
+      varintField(2, 13),
+      message(5, message(1, 'Disk almost full')),
+      message(6, stringAttribute('disk.path', '/var')),
+      message(9, Buffer.from('5b8efff798038103d269b633813fc60c', 'hex')),
+      message(10, Buffer.from('eee19b7ec3c1b174', 'hex'))
+    ]);
+    const body = message(1, Buffer.concat([
+      message(1, message(1, stringAttribute('service.name', 'worker'))),
+      message(2, Buffer.concat([message(1, message(1, 'scope')), message(2, record)]))
+    ]));
+
+    const [event] = otlp.otlpToLogEvents(otlp.decodeOtlpLogsProtobuf(body));
+
+    expect(event).toMatchObject({
+      level: 'warn',
+      message: 'Disk almost full',
+      ts: '2026-01-15T12:00:00.250Z',
+      source: 'worker',
+      request_id: '5b8efff798038103d269b633813fc60c',
+      ctx: { disk: { path: '/var' }, span_id: 'eee19b7ec3c1b174', scope: { name: 'scope' } }
+    });
+  });
+
+  it('rejects truncated payloads', () => {
+    expect(() => otlp.decodeOtlpLogsProtobuf(Buffer.from([0x0a, 0x05, 0x01]))).toThrow(/Invalid OTLP protobuf payload/);
+  });
+});
+
+describe('OTLP endpoint', () => {
+  let app: FastifyInstance;
+
+  const record = Buffer.concat([
+    varintField(2, 17),
+    message(5, message(1, 'Payment declined'))
+  ]);
+  const protobufExport = message(1, Buffer.concat([
+    message(1, message(1, stringAttribute('service.name', 'checkout'))),
+    message(2, message(2, record))
+  ]));
+
+  beforeAll(async () => {
+    vi.mocked(executeQuerySingle).mockImplementation(async (sql: string, params?: unknown[]) => {
+      const projectKeyHash = createHash('sha256').update(PROJECT_KEY).digest('hex');
+      return sql.includes('FROM projects WHERE api_key_hash') && params?.[0] === projectKeyHash
+        ? { id: 1, slug: 'shop', name: 'Shop', api_key_hash: projectKeyHash } as any
+        : null;
+    });
+
+    app = await createApp({ logger: false });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('rejects exports without a valid project key', async () => {
+    const missing = await app.inject({ method: 'POST', url: '/v1/logs', payload: {} });
+    const unknown = await app.inject({ method: 'POST', url: '/v1/logs', headers: { 'x-project-key': 'other-key' }, payload: {} });
+
+    expect(missing.statusCode).toBe(401);
+    expect(missing.json()).toMatchObject({ code: 'PROJECT_KEY_MISSING' });
+    expect(unknown.statusCode).toBe(401);
+    expect(unknown.json()).toMatchObject({ code: 'PROJECT_NOT_FOUND' });
+  });
+
+  it('stores a JSON export for the key\'s project', async () => {
+    vi.mocked(ingestLogEvents).mockClear();
+    const response = await app.inject({
+      method: 'POST',
+      url: '/v1/logs',
+      headers: { 'x-project-key': PROJECT_KEY },
+      payload: {
+        resourceLogs: [{
+          resource: { attributes: [{ key: 'service.name', value: { stringValue: 'checkout' } }] },
+          scopeLogs: [{ logRecords: [{ severityText: 'ERROR', body: { stringValue: 'Payment declined' } }] }]
+        }]
+      }
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({});
+    expect(ingestLogEvents).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 1, slug: 'shop' }),
+      [expect.objectContaining({ level: 'error', message: 'Payment declined', source: 'checkout' })],
+      expect.anything()
+    );
+  });
+
+  it('cuts oversized records to the log event limits', async () => {
+    vi.mocked(ingestLogEvents).mockClear();
+    const response = await app.inject({
+      method: 'POST',
+      url: '/v1/logs',
+      headers: { 'x-project-key': PROJECT_KEY },
+      payload: {
+        resourceLogs: [{
+          resource: { attributes: [{ key: 'service.name', value: { stringValue: 's'.repeat(100) } }] },
+          scopeLogs: [{
+            logRecords: [{
+              severityText: 'WARN',
+              body: { stringValue: 'm'.repeat(5000) },
+              attributes: [{ key: 'payload', value: { stringValue: 'x'.repeat(70 * 1024) } }]
+            }]
+          }]
+        }]
+      }
+    });
+
+    expect(response.statusCode).toBe(200);
+    const [event] = vi.mocked(ingestLogEvents).mock.calls[0]![1];
+    expect(event!.message).toHaveLength(1024);
+    expect(event!.source).toHaveLength(64);
+    expect(event!.ctx).toEqual({ ctx_dropped: expect.stringContaining('exceeded the 65536 byte limit') });
+  });
+
+  it('stores a gzip-compressed protobuf export', async () => {
+    vi.mocked(ingestLogEvents).mockClear();
+    const response = await app.inject({
+      method: 'POST',
+      url: '/v1/logs',
+      headers: {
+        'x-project-key': PROJECT_KEY,
+        'content-type': 'application/x-protobuf',
+        'content-encoding': 'gzip'
+      },
+      payload: gzipSync(protobufExport)
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-type']).toContain('application/x-protobuf');
+    expect(response.rawPayload.length).toBe(0);
+    expect(ingestLogEvents).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 1 }),
+      [expect.objectContaining({ level: 'error', message: 'Payment declined', source: 'checkout' })],
+      expect.anything()
+    );
+  });
+});
@@ -0,0 +1,105 @@
+// Tests for the log query language
+
+import { describe, it, expect } from 'vitest';
+import * as lang from '@/services/queryLanguage';
+import * as types from '@/types';
+
+const NOW = Date.UTC(2026, 0, 15, 12, 0, 0);
+
+const syntaxError = (query: string) => {
+  try {
+    lang.parseLogQuery(query);
+  } catch (error) {
+    return error;
+  }
+  throw new Error(`Expected "${query}" to be rejected`);
+};
+
+describe('Log query language', () => {
+  it('ANDs field terms together', () => {
+    expect(lang.compileLogQuery('level:error source:api.* ctx.user.plan:pro')).toEqual({
+      condition: '(level = ? AND source LIKE ? AND JSON_UNQUOTE(JSON_EXTRACT(ctx_json, ?)) = ?)',
+      params: ['error', 'api.%', '$."user"."plan"', 'pro']
+    });
+  });
+
+  it('groups OR with parentheses and negates terms', () => {
+    const compiled = lang.compileLogQuery('(env:prod OR env:staging) AND -source:"worker 1"', { alias: 'l.' });
+
+    expect(compiled.condition).toBe('((l.env = ? OR l.env = ?) AND NOT COALESCE(l.source = ?, FALSE))');
+    expect(compiled.params).toEqual(['prod', 'staging', 'worker 1']);
+  });
+
+  it('compares timestamps, levels and numeric ctx values', () => {
+    const compiled = lang.compileLogQuery('ts>=now-1h ts<2026-01-15T11:30:00Z level>=error ctx.duration_ms>500', { now: NOW });
+
+    expect(compiled.condition).toBe(
+      '(ts >= ? AND ts < ? AND level IN (?, ?) AND JSON_EXTRACT(ctx_json, ?) > ?)'
+    );
+    expect(compiled.params).toEqual([
+      new Date(NOW - 3_600_000),
+      new Date('2026-01-15T11:30:00Z'),
+      'error', 'fatal',
+      '$."duration_ms"', 500
+    ]);
+  });
+
+  it('searches the message with bare words and phrases', () => {
+    const compiled = lang.compileLogQuery('timeout "connection reset" tag:billing');
+
+    expect(compiled.params).toEqual(['+timeout', '+"connection reset"', 'billing']);
+  });
+
+  it('uses promoted ctx columns for text matches', () => {
+    const ctxColumns = new Map([['tenant_id', 'ctx_tenant_id']]);
+    const compiled = lang.compileLogQuery('ctx.tenant_id:acme ctx.tenant_id>10', { alias: 'l.', ctxColumns });
+
+    expect(compiled.condition).toBe('(l.ctx_tenant_id = ? AND JSON_EXTRACT(l.ctx_json, ?) > ?)');
+    expect(compiled.params).toEqual(['acme', '$."tenant_id"', 10]);
+  });
+
+  it('keeps the case of ctx paths', () => {
+    const compiled = lang.compileLogQuery('CTX.userId:42 Source:api');
+
+    expect(compiled.params).toEqual(['$."userId"', '42', 'api']);
+    expect(lang.compileLogQuery('ctx.tenantId>5').params).toEqual(['$."tenantId"', 5]);
+  });
+
+  it('compiles ctx request filters', () => {
+    expect(lang.compileCtxFilter('route', '*')).toEqual({
+      condition: 'JSON_UNQUOTE(JSON_EXTRACT(ctx_json, ?)) IS NOT NULL',
+      params: ['$."route"']
+    });
+    expect(lang.compileCtxFilter('duration_ms', '100..500')).toEqual({
+      condition: 'JSON_EXTRACT(ctx_json, ?) >= ? AND JSON_EXTRACT(ctx_json, ?) <= ?',
+      params: ['$."duration_ms"', 100, '$."duration_ms"', 500]
+    });
+    expect(lang.compileCtxFilter('duration_ms', '..500').params).toEqual(['$."duration_ms"', 500]);
+    expect(() => lang.compileCtxFilter('duration_ms', 'a..b')).toThrow('Invalid range');
+    expect(() => lang.compileCtxFilter("a'b", 'x')).toThrow('Invalid ctx path');
+  });
+
+  it('returns a neutral condition for an empty query', () => {
+    expect(lang.compileLogQuery('   ')).toEqual({ condition: '1=1', params: [] });
+  });
+
+  it('points at the position of syntax errors', () => {
+    const cases: Array<[string, number]> = [
+      ['level:error )', 13],
+      ['(level:error OR env:prod', 1],
+      ['level:error AND', 16],
+      ['source:"api', 8],
+      ['level:loud', 7],
+      ['colour:red', 1],
+      ['ts:2026-01-01', 1],
+      ['ts>yesterday', 4]
+    ];
+
+    for (const [query, position] of cases) {
+      const error = syntaxError(query);
+      expect(error).toBeInstanceOf(types.ValidationError);
+      expect(error).toMatchObject({ position, code: 'INVALID_QUERY_SYNTAX' });
+      expect((error as Error).message).toContain(`position ${position}`);
+    }
+  });
+});
@@ -0,0 +1,85 @@
+// Tests for custom alert rule matching
+
+import { describe, it, expect } from 'vitest';
+import { compileRuleMatch, getContextPath, globToRegExp, type RuleMatchEvent } from '@/services/rules';
+import * as types from '@/types';
+
+const event: RuleMatchEvent = {
+  level: 'fatal',
+  message: 'Charge failed: card_declined',
+  source: 'payments.worker',
+  env: 'production',
+  tags: 'billing, stripe',
+  context: { http: { status: 502 }, provider: 'stripe', retries: [1, 2] }
+};
+
+describe('Alert rule matching', () => {
+  it('matches fatal payments events in production', () => {
+    const matches = compileRuleMatch({ level: ['fatal'], source: 'payments.*', env: 'production' });
+
+    expect(matches(event)).toBe(true);
+    expect(matches({ ...event, env: 'staging' })).toBe(false);
+    expect(matches({ ...event, level: 'error' })).toBe(false);
+    expect(matches({ ...event, source: 'paymentsworker' })).toBe(false);
+  });
+
+  it('requires every listed tag', () => {
+    expect(compileRuleMatch({ tags: ['stripe'] })(event)).toBe(true);
+    expect(compileRuleMatch({ tags: ['stripe', 'billing'] })(event)).toBe(true);
+    expect(compileRuleMatch({ tags: ['stripe', 'paypal'] })(event)).toBe(false);
+    expect(compileRuleMatch({ tags: ['stripe'] })({ ...event, tags: null })).toBe(false);
+  });
+
+  it('matches message regular expressions', () => {
+    expect(compileRuleMatch({ message: 'card_(declined|expired)' })(event)).toBe(true);
+    expect(compileRuleMatch({ message: '^Refund' })(event)).toBe(false);
+  });
+
+  it('compares ctx paths by value', () => {
+    expect(compileRuleMatch({ ctx: { 'http.status': 502, provider: 'stripe' } })(event)).toBe(true);
+    expect(compileRuleMatch({ ctx: { 'http.status': '502' } })(event)).toBe(false);
+    expect(compileRuleMatch({ ctx: { 'http.method': null } })(event)).toBe(false);
+    expect(compileRuleMatch({ ctx: { provider: 'stripe' } })({ ...event, context: null })).toBe(false);
+  });
+
+  it('converts globs to anchored expressions', () => {
+    expect(globToRegExp('payments.*').test('payments.api')).toBe(true);
+    expect(globToRegExp('payments.*').test('legacy.payments.api')).toBe(false);
+    expect(globToRegExp('worker-?').test('worker-1')).toBe(true);
+    expect(globToRegExp('worker-?').test('worker-12')).toBe(false);
+  });
+
+  it('reads nested ctx paths', () => {
+    expect(getContextPath(event.context, 'retries.1')).toBe(2);
+    expect(getContextPath(event.context, 'http.status.code')).toBeUndefined();
+  });
+});
+
+describe('Alert rule validation', () => {
+  it('applies defaults', () => {
+    const rule = types.alertRuleSchema.parse({ name: 'Payments fatal', match: { level: ['fatal'], source: 'payments.*' } });
+
+    expect(rule).toMatchObject({ enabled: true, threshold: 1, window_sec: 60 });
+  });
+
+  it('rejects empty matches and invalid expressions', () => {
+    expect(types.alertRuleSchema.safeParse({ name: 'Everything', match: {} }).success).toBe(false);
+    expect(types.alertRuleSchema.safeParse({ name: 'Broken', match: { message: '(unclosed' } }).success).toBe(false);
+  });
+
+  it('rejects message patterns that can backtrack catastrophically', () => {
+    const accepts = (message: string) => types.alertRuleSchema.safeParse({ name: 'Pattern', match: { message } }).success;
+
+    expect(['(a+)+$', '(\\w+\\s?)*$', '(a|ab)*c', '(?:x*y?){2,}', '(["\']).*\\1'].map(accepts)).toEqual([false, false, false, false, false]);
+    expect(['^Charge failed: \\w+$', 'timeout (after|before) \\d+ms', '(?<code>E\\d{3})+', '[(+*)]+', '(?:ab)?c*'].map(accepts))
+      .toEqual([true, true, true, true, true]);
+  });
+
+  it('takes either a match or a saved search', () => {
+    expect(types.alertRuleSchema.safeParse({ name: 'Checkout errors', saved_search_id: 3 }).success).toBe(true);
+    expect(types.alertRuleSchema.safeParse({ name: 'Nothing' }).success).toBe(false);
+    expect(types.alertRuleSchema.safeParse({
+      name: 'Both', saved_search_id: 3, match: { level: ['fatal'] }
+    }).success).toBe(false);
+  });
+});
@@ -0,0 +1,46 @@
+// Tests for saved search validation and matching
+
+import { describe, it, expect, vi } from 'vitest';
+import { executeQuery } from '@/services/database';
+import * as saved from '@/services/savedSearches';
+import * as types from '@/types';
+
+vi.mock('@/services/database', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@/services/database')>(),
+  executeQuery: vi.fn(async () => []),
+  executeQuerySingle: vi.fn(async () => null)
+}));
+
+describe('Saved searches', () => {
+  it('accepts a relative or an absolute range, not both', () => {
+    const base = { project_id: 1, name: 'Checkout errors', query: 'level>=error source:checkout' };
+
+    expect(types.savedSearchSchema.parse({ ...base, time_range: '24h' })).toMatchObject({ filters: {}, include_in_digest: false });
+    expect(types.savedSearchSchema.safeParse({ ...base, time_range: 'yesterday' }).success).toBe(false);
+    expect(types.savedSearchSchema.safeParse({ ...base, time_range: '1h', from: '2026-01-01T00:00:00Z' }).success).toBe(false);
+    expect(types.savedSearchSchema.safeParse({ ...base, filters: { colour: 'red' } }).success).toBe(false);
+  });
+
+  it('rejects queries that would not run', () => {
+    expect(() => saved.validateSavedSearch(1, { query: 'colour:red', filters: {} })).toThrow('Unknown field');
+    expect(() => saved.validateSavedSearch(1, { query: null, filters: { ctx: { "a'b": 'x' } } })).toThrow('Invalid ctx path');
+  });
+
+  it('matches a stored batch with the search SQL', async () => {
+    vi.mocked(executeQuery).mockImplementation(async (sql: string) => (
+      sql.includes('id IN') ? [{ id: 12 }, { id: 14 }] as any : []
+    ));
+
+    const ids = await saved.matchSavedSearchBatch(
+      1,
+      { query: 'level>=error', filters: { env: 'production', q: 'card_declined' } },
+      [10, 12, 14, 21]
+    );
+
+    const [sql, params] = vi.mocked(executeQuery).mock.calls.find(([query]) => query.includes('id IN'))!;
+    expect(sql).toMatch(/project_id = \? AND .*env = \? .*AND id IN \(\?, \?, \?, \?\)/s);
+    expect(sql).toContain('MATCH(message) AGAINST');
+    expect(params).toEqual([1, '+card_declined', 'production', 'error', 'fatal', 10, 12, 14, 21]);
+    expect([...ids]).toEqual([12, 14]);
+  });
+});
@@ -0,0 +1,140 @@
+// Tests for keyset pagination helpers
+
+import { describe, it, expect } from 'vitest';
+import * as search from '@/services/search';
+import { logContextQuerySchema } from '@/types';
+
+const rows = (ids: number[]) => ids.map(id => ({ id, ts: new Date(Date.UTC(2026, 0, 1, 0, 0, id)) }));
+
+describe('Log search cursors', () => {
+  it('round-trips a cursor', () => {
+    const ts = new Date('2026-01-01T12:34:56.789Z');
+    const cursor = search.decodeCursor(search.encodeCursor('next', { ts, id: 42 }));
+
+    expect(cursor).toEqual({ direction: 'next', ts, id: 42 });
+  });
+
+  it('rejects malformed cursors', () => {
+    expect(() => search.decodeCursor('not-a-cursor')).toThrow('Invalid cursor');
+    expect(() => search.decodeCursor(Buffer.from('n:abc:1').toString('base64url'))).toThrow('Invalid cursor');
+  });
+
+  it('builds keyset conditions for both directions', () => {
+    const ts = new Date();
+    expect(search.keysetClause(null).order).toBe('ts DESC, id DESC');
+    expect(search.keysetClause({ direction: 'next', ts, id: 5 }, 'l.')).toEqual({
+      condition: 'AND (l.ts < ? OR (l.ts = ? AND l.id < ?))',
+      params: [ts, ts, 5],
+      order: 'l.ts DESC, l.id DESC'
+    });
+    expect(search.keysetClause({ direction: 'prev', ts, id: 5 }).order).toBe('ts ASC, id ASC');
+  });
+
+  it('links the first page forwards only', () => {
+    const page = search.paginate(rows([9, 8, 7]), 2, null);
+
+    expect(page.rows.map(row => row.id)).toEqual([9, 8]);
+    expect(page.prev_cursor).toBeNull();
+    expect(search.decodeCursor(page.next_cursor ?? '')).toMatchObject({ direction: 'next', id: 8 });
+  });
+
+  it('ends at the last page', () => {
+    const cursor = search.decodeCursor(search.encodeCursor('next', rows([8])[0]!));
+    const page = search.paginate(rows([7]), 2, cursor);
+
+    expect(page.next_cursor).toBeNull();
+    expect(search.decodeCursor(page.prev_cursor ?? '')).toMatchObject({ direction: 'prev', id: 7 });
+  });
+
+  it('restores newest-first order when paging back', () => {
+    const cursor = search.decodeCursor(search.encodeCursor('prev', rows([5])[0]!));
+    const page = search.paginate(rows([6, 7, 8]), 2, cursor);
+
+    expect(page.rows.map(row => row.id)).toEqual([7, 6]);
+    expect(search.decodeCursor(page.next_cursor ?? '')).toMatchObject({ direction: 'next', id: 6 });
+    expect(search.decodeCursor(page.prev_cursor ?? '')).toMatchObject({ direction: 'prev', id: 7 });
+  });
+
+  it('stops paging back at the newest log', () => {
+    const cursor = search.decodeCursor(search.encodeCursor('prev', rows([5])[0]!));
+    const page = search.paginate(rows([6]), 2, cursor);
+
+    expect(page.prev_cursor).toBeNull();
+    expect(page.next_cursor).not.toBeNull();
+  });
+});
+
+describe('Full-text message search', () => {
+  it('requires every plain term', () => {
+    expect(search.buildMessageMatch('database timeout')).toEqual({
+      condition: '(MATCH(message) AGAINST (? IN BOOLEAN MODE))',
+      params: ['+database +timeout']
+    });
+  });
+
+  it('keeps phrases, prefixes and exclusions', () => {
+    const match = search.buildMessageMatch('"connection refused" time* -healthcheck', 'l.message');
+
+    expect(match.condition).toBe('(MATCH(l.message) AGAINST (? IN BOOLEAN MODE))');
+    expect(match.params).toEqual(['+"connection refused" +time* -healthcheck']);
+  });
+
+  it('quotes punctuated terms so they are not read as operators', () => {
+    expect(search.buildMessageMatch('payment-service').params).toEqual(['+"payment service"']);
+  });
+
+  it('matches unindexed words literally', () => {
+    const match = search.buildMessageMatch('the db 50%_ -at');
+
+    expect(match.condition).toBe('(message LIKE ? AND message LIKE ? AND message LIKE ? AND message NOT LIKE ?)');
+    expect(match.params).toEqual(['%the%', '%db%', '%50\\%\\_%', '%at%']);
+  });
+
+  it('negates the match when only exclusions are given', () => {
+    expect(search.buildMessageMatch('-healthcheck')).toEqual({
+      condition: '(NOT MATCH(message) AGAINST (? IN BOOLEAN MODE))',
+      params: ['healthcheck']
+    });
+    expect(search.buildMessageMatch('" " -')).toEqual({ condition: '1=1', params: [] });
+  });
+
+});
+
+describe('ctx filters and grouping', () => {
+  it('folds ctx.<path> parameters into ctx', () => {
+    expect(search.foldCtxParams({ level: 'error', 'ctx.tenant_id': 'acme', 'ctx.http.route': '/pay' })).toEqual({
+      level: 'error',
+      ctx: { tenant_id: 'acme', 'http.route': '/pay' }
+    });
+  });
+
+  it('adds ctx filters to the log filter', () => {
+    const filter = search.buildLogFilter(1, { ctx: { tenant_id: 'acme' } }, new Map([['tenant_id', 'ctx_tenant_id']]));
+
+    expect(filter).toEqual({ where: 'project_id = ? AND ctx_tenant_id = ?', params: [1, 'acme'] });
+  });
+
+  it('groups by columns and ctx paths', () => {
+    expect(search.groupByExpression('source', { alias: 'l.' })).toEqual({ sql: 'l.source', params: [] });
+    expect(search.groupByExpression('ctx.route')).toEqual({
+      sql: 'JSON_UNQUOTE(JSON_EXTRACT(ctx_json, ?))',
+      params: ['$."route"']
+    });
+    expect(() => search.groupByExpression('message')).toThrow('Invalid group_by');
+    expect(() => search.groupByExpression('ctx.')).toThrow('Invalid group_by');
+  });
+});
+
+describe('Log context query', () => {
+  it('parses the same= field list', () => {
+
+    expect(logContextQuerySchema.parse({ before: '5', same: 'source, request_id' })).toEqual({
+      before: 5,
+      after: 10,
+      same: ['source', 'request_id']
+    });
+    expect(logContextQuerySchema.parse({}).same).toEqual([]);
+    expect(logContextQuerySchema.safeParse({ same: 'message' }).success).toBe(false);
+    expect(logContextQuerySchema.safeParse({ before: '500' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,266 @@
+// Tests for syslog parsing, TCP framing and the UDP/TCP listeners
+
+import { describe, it, expect, vi } from 'vitest';
+import { createSocket } from 'dgram';
+import { connect } from 'net';
+import * as syslog from '@/services/syslog';
+import * as server from '@/syslog';
+
+const silentLogger = { info() {}, warn() {}, error() {} };
+
+describe('Syslog parsing', () => {
+  it('parses RFC 5424 with structured data', () => {
+    const message = syslog.parseSyslogMessage(
+      '<165>1 2026-01-15T12:00:00.003Z mymachine.example.com evntslog 4123 ID47 ' +
+      '[exampleSDID@32473 iut="3" eventSource="Application"][tekno@32473 key="secret-key"] ﻿An application event'
+    );
+
+    expect(message).toMatchObject({
+      format: 'rfc5424',
+      facility: 20,
+      severity: 5,
+      hostname: 'mymachine.example.com',
+      appName: 'evntslog',
+      procId: '4123',
+      msgId: 'ID47',
+      message: 'An application event'
+    });
+    expect(message.ts?.toISOString()).toBe('2026-01-15T12:00:00.003Z');
+    expect(syslog.syslogProjectKey(message)).toBe('secret-key');
+
+    expect(syslog.syslogToLogEvent(message)).toEqual({
+      level: 'info',
+      message: 'An application event',
+      ts: '2026-01-15T12:00:00.003Z',
+      source: 'evntslog',
+      ctx: {
+        'exampleSDID@32473': { iut: '3', eventSource: 'Application' },
+        syslog: { format: 'rfc5424', facility: 'local4', severity: 5, hostname: 'mymachine.example.com', procid: '4123', msgid: 'ID47' }
+      }
+    });
+  });
+
+  it('unescapes structured data values and accepts nil fields', () => {
+    const message = syslog.parseSyslogMessage('<11>1 - - - - - [meta note="a \\"quoted\\" \\] value"]');
+
+    expect(message.structuredData).toEqual({ meta: { note: 'a "quoted" ] value' } });
+    expect(message).toMatchObject({ ts: null, hostname: null, appName: null, message: '' });
+    expect(syslog.syslogToLogEvent(message)).toMatchObject({ level: 'error', message: '(empty syslog message)' });
+  });
+
+  it('parses RFC 3164 messages', () => {
+    const now = new Date(2026, 0, 15, 12, 0, 0);
+    const message = syslog.parseSyslogMessage('<34>Jan  5 22:14:15 mymachine su[230]: \'su root\' failed for lonvick', now);
+
+    expect(message).toMatchObject({
+      format: 'rfc3164',
+      facility: 4,
+      severity: 2,
+      hostname: 'mymachine',
+      appName: 'su',
+      procId: '230',
+      message: '\'su root\' failed for lonvick'
+    });
+    expect(message.ts).toEqual(new Date(2026, 0, 5, 22, 14, 15));
+    expect(syslog.syslogToLogEvent(message).level).toBe('fatal');
+  });
+
+  it('handles 3164 messages without hostname, timestamp or PRI', () => {
+    expect(syslog.parseSyslogMessage('<12>Dec 31 23:59:59 cron[99]: job done', new Date(2026, 0, 1))).toMatchObject({
+      hostname: null,
+      appName: 'cron',
+      ts: new Date(2025, 11, 31, 23, 59, 59) // Last year, not a year ahead
+    });
+    expect(syslog.parseSyslogMessage('plain text')).toMatchObject({ facility: 1, severity: 5, appName: null, message: 'plain text' });
+  });
+});
+
+describe('Syslog TCP framing', () => {
+  it('splits octet-counted and newline-delimited frames across chunks', () => {
+    const frame = syslog.createSyslogFramer();
+
+    expect(frame(Buffer.from('14 <13>hello w'))).toEqual([]);
+    expect(frame(Buffer.from('ahh<13>one\n<13>two\n'))).toEqual(['<13>hello wahh', '<13>one', '<13>two']);
+  });
+
+  it('rejects oversized frames', () => {
+    expect(() => syslog.createSyslogFramer()(Buffer.from('999999 <13>x'))).toThrow(/too large/);
+  });
+});
+
+describe('Syslog listeners', () => {
+  it('routes UDP and TCP messages by listener key or structured-data key', async () => {
+    const projects: Record<string, { id: number; slug: string; name: string }> = {
+      'udp-key': { id: 1, slug: 'appliances', name: 'Appliances' },
+      'sd-key': { id: 2, slug: 'daemons', name: 'Daemons' }
+    };
+    const stored: Array<{ project: number; messages: string[] }> = [];
+    let notify = () => {};
+
+    const listener = await server.startSyslogServer(
+      { host: '127.0.0.1', udp: { port: 0, projectKey: 'udp-key' }, tcp: { port: 0 }, flushIntervalMs: 20 },
+      silentLogger,
+      {
+        resolveProject: async key => projects[key] ?? null,
+        chargeRateLimit: async () => true,
+        ingest: async (project, events) => {
+          stored.push({ project: project.id, messages: events.map(event => event.message) });
+          notify();
+        }
+      }
+    );
+
+    try {
+      const udp = createSocket('udp4');
+      await new Promise<void>(resolve => udp.send('<14>Jan 15 12:00:00 fw01 kernel: link up', listener.udpPort!, '127.0.0.1', () => resolve()));
+      udp.close();
+
+      const tcp = connect(listener.tcpPort!, '127.0.0.1');
+      await new Promise<void>(resolve => tcp.once('connect', () => resolve()));
+      const keyed = '<11>1 - host app - - [tekno@32473 key="sd-key"] disk failed';
+      tcp.write(`${Buffer.byteLength(keyed)} ${keyed}<13>no key, dropped\n`);
+      tcp.end();
+
+      await new Promise<void>(resolve => {
+        notify = () => stored.length >= 2 && resolve();
+        notify();
+      });
+    } finally {
+      await listener.close();
+    }
+
+    expect(stored.sort((a, b) => a.project - b.project)).toEqual([
+      { project: 1, messages: ['link up'] },
+      { project: 2, messages: ['disk failed'] }
+    ]);
+  });
+
+  it('retries a project lookup that failed', async () => {
+    const stored: string[] = [];
+    let lookups = 0;
+    let notify = () => {};
+
+    const listener = await server.startSyslogServer(
+      { host: '127.0.0.1', udp: null, tcp: { port: 0, projectKey: 'tcp-key' }, flushIntervalMs: 20 },
+      silentLogger,
+      {
+        resolveProject: async () => {
+          lookups++;
+          if (lookups === 1) {
+            throw new Error('connection lost');
+          }
+          return { id: 1, slug: 'appliances', name: 'Appliances' };
+        },
+        chargeRateLimit: async () => true,
+        ingest: async (project, events) => {
+          stored.push(...events.map(event => event.message));
+          notify();
+        }
+      }
+    );
+
+    try {
+      const tcp = connect(listener.tcpPort!, '127.0.0.1');
+      await new Promise<void>(resolve => tcp.once('connect', () => resolve()));
+      tcp.write('<14>first, lost with the lookup\n');
+      await new Promise(resolve => setTimeout(resolve, 50));
+      tcp.write('<14>second\n');
+      tcp.end();
+
+      await new Promise<void>(resolve => {
+        notify = () => stored.length >= 1 && resolve();
+        notify();
+      });
+    } finally {
+      await listener.close();
+    }
+
+    expect(lookups).toBe(2);
+    expect(stored).toEqual(['second']);
+  });
+
+  it('drops a project\'s messages for the rest of the minute once it is over its rate limit', async () => {
+    const stored: string[] = [];
+    const warnings: Array<{ projectId?: number; dropped?: number }> = [];
+    let charges = 0;
+
+    const listener = await server.startSyslogServer(
+      { host: '127.0.0.1', udp: null, tcp: { port: 0, projectKey: 'tcp-key' }, flushIntervalMs: 20 },
+      { ...silentLogger, warn: (data: any) => warnings.push(data) },
+      {
+        resolveProject: async () => ({ id: 1, slug: 'appliances', name: 'Appliances' }),
+        chargeRateLimit: async () => ++charges === 1,
+        ingest: async (project, events) => {
+          stored.push(...events.map(event => event.message));
+        }
+      }
+    );
+
+    try {
+      const tcp = connect(listener.tcpPort!, '127.0.0.1');
+      await new Promise<void>(resolve => tcp.once('connect', () => resolve()));
+      tcp.write('<14>within the limit\n');
+      await vi.waitFor(() => expect(stored).toHaveLength(1));
+      tcp.write('<14>over the limit\n');
+      await vi.waitFor(() => expect(charges).toBe(2));
+      tcp.write('<14>still over the limit\n');
+      tcp.end();
+
+      await vi.waitFor(() => {
+        const dropped = warnings.filter(warning => warning.projectId === 1).reduce((sum, warning) => sum + warning.dropped!, 0);
+        expect(dropped).toBe(2);
+      });
+    } finally {
+      await listener.close();
+    }
+
+    expect(charges).toBe(2);
+    expect(stored).toEqual(['within the limit']);
+  });
+
+  it('holds events while inserts are behind and drops them past the limit', async () => {
+    const calls: string[][] = [];
+    const releases: Array<() => void> = [];
+    const warnings: unknown[] = [];
+    let notify = () => {};
+
+    const listener = await server.startSyslogServer(
+      { host: '127.0.0.1', udp: null, tcp: { port: 0, projectKey: 'tcp-key' }, flushIntervalMs: 20, pendingLimit: 2 },
+      { ...silentLogger, warn: (data: unknown) => warnings.push(data) },
+      {
+        resolveProject: async () => ({ id: 1, slug: 'appliances', name: 'Appliances' }),
+        chargeRateLimit: async () => true,
+        ingest: (project, events) => new Promise<void>(resolve => {
+          calls.push(events.map(event => event.message));
+          releases.push(resolve);
+          notify();
+        })
+      }
+    );
+
+    const waitFor = (condition: () => boolean) => new Promise<void>(resolve => {
+      notify = () => condition() && resolve();
+      notify();
+    });
+
+    const tcp = connect(listener.tcpPort!, '127.0.0.1');
+    await new Promise<void>(resolve => tcp.once('connect', () => resolve()));
+
+    // Four batches in flight take every slot
+    for (let i = 1; i <= 4; i++) {
+      tcp.write(`<14>event ${i}\n`);
+      await waitFor(() => calls.length >= i);
+    }
+
+    tcp.write('<14>event 5\n<14>event 6\n<14>event 7\n');
+    await vi.waitFor(() => expect(warnings).toContainEqual({ dropped: 1 }));
+    expect(calls).toHaveLength(4);
+
+    tcp.end();
+    releases.forEach(release => release());
+    notify = () => releases.at(-1)?.();
+    await listener.close();
+
+    expect(calls.flat()).toEqual(['event 1', 'event 2', 'event 3', 'event 4', 'event 5', 'event 6']);
+  });
+});
@@ -0,0 +1,162 @@
+// Tests for live tail filtering, rate capping and SSE formatting
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { executeQuery } from '@/services/database';
+import * as tail from '@/services/tail';
+
+vi.mock('@/services/database', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@/services/database')>(),
+  executeQuery: vi.fn(async () => []),
+  executeQuerySingle: vi.fn(async () => null)
+}));
+
+function event(overrides: Partial<tail.LiveLogEvent> = {}): tail.LiveLogEvent {
+  return {
+    id: 1,
+    project_id: 1,
+    ts: new Date('2026-01-15T12:00:00Z'),
+    level: 'error',
+    message: 'Payment failed for order 42',
+    source: 'checkout',
+    env: 'production',
+    context: { user: { id: 7 } },
+    user_id: null,
+    request_id: 'req-1',
+    tags: null,
+    fingerprint: 'abc123',
+    ...overrides
+  };
+}
+
+function writer(accepting = true) {
+  const chunks: string[] = [];
+  const drainListeners: Array<() => void> = [];
+  return {
+    chunks,
+    accepting,
+    write(chunk: string) {
+      chunks.push(chunk);
+      return this.accepting;
+    },
+    onDrain(listener: () => void) {
+      drainListeners.push(listener);
+    },
+    drain() {
+      this.accepting = true;
+      drainListeners.forEach(listener => listener());
+    },
+    logIds() {
+      return chunks.filter(chunk => chunk.includes('event: log')).map(chunk => Number(/^id: (\d+)/.exec(chunk)![1]));
+    }
+  };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('Tail filters', () => {
+  it('matches project, level, source and env like search', () => {
+    const matches = tail.compileTailFilter({ project_id: 1, level: 'error', source: 'Checkout', env: 'production' });
+
+    expect(matches(event())).toBe(true);
+    expect(matches(event({ project_id: 2 }))).toBe(false);
+    expect(matches(event({ level: 'warn' }))).toBe(false);
+    expect(matches(event({ source: 'billing' }))).toBe(false);
+  });
+
+  it('rejects invalid queries up front', () => {
+    expect(() => tail.compileTailFilter({ query: 'level:(error' })).toThrow();
+  });
+});
+
+describe('Tail sessions', () => {
+  it('streams matching events as SSE messages', async () => {
+    const output = writer();
+    const stop = await tail.startTail(output, { filter: { level: 'error' }, rate: 10 });
+
+    tail.publishLogs([event({ id: 5 }), event({ id: 6, level: 'info' })]);
+    stop();
+    tail.publishLogs([event({ id: 7 })]);
+
+    expect(output.chunks[0]).toBe('retry: 3000\n\n');
+    expect(output.logIds()).toEqual([5]);
+    expect(output.chunks[1]).toMatch(/^id: 5\nevent: log\ndata: \{.*\}\n\n$/);
+    expect(JSON.parse(output.chunks[1]!.split('data: ')[1]!)).toMatchObject({
+      id: 5,
+      ts: '2026-01-15T12:00:00.000Z',
+      ctx: { user: { id: 7 } }
+    });
+  });
+
+  it('runs each distinct query once per batch with the promoted ctx columns', async () => {
+    vi.mocked(executeQuery).mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM ctx_fields')) {
+        return [{ path: 'user.id', column_name: 'ctx_user_id' }] as any;
+      }
+      return sql.includes('id IN') ? [{ id: 6 }] as any : [];
+    });
+    vi.mocked(executeQuery).mockClear();
+    const errors = writer();
+    const everything = writer();
+    const stopErrors = await tail.startTail(errors, { filter: { level: 'error', query: 'payment ctx.user.id:7' }, rate: 10 });
+    const stopEverything = await tail.startTail(everything, { filter: { query: 'payment ctx.user.id:7' }, rate: 10 });
+
+    tail.publishLogs([event({ id: 5 }), event({ id: 9 }), event({ id: 6, level: 'info' })]);
+    await vi.waitFor(() => expect(everything.logIds()).toEqual([6]));
+    stopErrors();
+    stopEverything();
+
+    const lookups = vi.mocked(executeQuery).mock.calls.filter(([sql]) => sql.includes('id IN'));
+    expect(lookups).toHaveLength(1);
+    expect(lookups[0]![0]).toContain('ctx_user_id = ?');
+    expect(lookups[0]![1]?.slice(0, 3)).toEqual([5, 9, 6]);
+    expect(errors.logIds()).toEqual([]);
+  });
+
+  it('drops events over the rate cap and reports how many', async () => {
+    vi.useFakeTimers();
+    const output = writer();
+    const stop = await tail.startTail(output, { filter: {}, rate: 2 });
+
+    tail.publishLogs([1, 2, 3, 4].map(id => event({ id })));
+    vi.advanceTimersByTime(1000);
+    tail.publishLogs([event({ id: 5 })]);
+    stop();
+
+    expect(output.logIds()).toEqual([1, 2, 5]);
+    expect(output.chunks).toContain('event: dropped\ndata: {"count":2}\n\n');
+  });
+
+  it('drops events until a slow client drains', async () => {
+    const output = writer(false);
+    const stop = await tail.startTail(output, { filter: {}, rate: 100 });
+
+    tail.publishLogs([event({ id: 1 }), event({ id: 2 })]);
+    output.drain();
+    tail.publishLogs([event({ id: 3 })]);
+    stop();
+
+    expect(output.logIds()).toEqual([3]);
+    expect(output.chunks).toContain('event: dropped\ndata: {"count":2}\n\n');
+  });
+
+  it('sends heartbeats while idle', async () => {
+    vi.useFakeTimers();
+    const output = writer();
+    const stop = await tail.startTail(output, { filter: {}, rate: 10 });
+
+    vi.advanceTimersByTime(15_000);
+    stop();
+
+    expect(output.chunks).toContain(': heartbeat\n\n');
+  });
+});
+
+describe('Last-Event-ID', () => {
+  it('prefers the header over the parameter', () => {
+    expect(tail.resolveLastEventId('120', 5)).toBe(120);
+    expect(tail.resolveLastEventId('not-an-id', 5)).toBe(5);
+    expect(tail.resolveLastEventId(undefined, undefined)).toBeUndefined();
+  });
+});
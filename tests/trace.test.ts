@@ -0,0 +1,59 @@
+// Tests for request trace assembly
+
+import { describe, it, expect } from 'vitest';
+import * as trace from '@/services/trace';
+
+const at = (ms: number) => new Date(Date.UTC(2026, 0, 1, 12, 0, 0) + ms);
+
+const row = (id: number, ms: number, source: string, projectId: number = 1) => ({
+  id,
+  project_id: projectId,
+  project_slug: projectId === 1 ? 'web' : 'billing',
+  ts: at(ms),
+  level: 'info' as const,
+  message: `event ${id}`,
+  source,
+  env: 'production',
+  ctx_json: '{"step":1}',
+  request_id: 'req-1',
+  fingerprint: 'abc',
+  day_id: 20260101,
+  created_at: at(ms)
+});
+
+describe('Request traces', () => {
+  it('offsets events from the first one and orders sources by first appearance', () => {
+    const result = trace.buildRequestTrace('req-1', [row(1, 0, 'api'), row(2, 40, 'payments', 2), row(3, 250, 'api')], [
+      { project_id: 1, project_slug: 'web', source: 'api', count: 2, errors: 0, first_ts: at(0), last_ts: at(250) },
+      { project_id: 2, project_slug: 'billing', source: 'payments', count: 1, errors: 1, first_ts: at(40), last_ts: at(40) }
+    ]);
+
+    expect(result.events.map(event => event.offset_ms)).toEqual([0, 40, 250]);
+    expect(result.events[1]).toMatchObject({ project_slug: 'billing', ctx: { step: 1 } });
+    expect(result.sources.map(source => [source.source, source.first_offset_ms, source.last_offset_ms])).toEqual([
+      ['api', 0, 250],
+      ['payments', 40, 40]
+    ]);
+    expect(result).toMatchObject({ duration_ms: 250, total: 3, truncated: false, started_at: at(0).toISOString() });
+  });
+
+  it('flags traces cut at the limit', () => {
+    const result = trace.buildRequestTrace('req-1', [row(1, 0, 'api')], [
+      { project_id: 1, project_slug: 'web', source: 'api', count: 5, errors: 0, first_ts: at(0), last_ts: at(90) }
+    ]);
+
+    expect(result).toMatchObject({ total: 5, truncated: true, duration_ms: 90 });
+  });
+
+  it('returns an empty trace for unknown requests', () => {
+    expect(trace.buildRequestTrace('nope', [], [])).toEqual({
+      request_id: 'nope',
+      started_at: null,
+      duration_ms: 0,
+      total: 0,
+      truncated: false,
+      events: [],
+      sources: []
+    });
+  });
+});
@@ -4,6 +4,18 @@ export default defineConfig({
   test: {
     globals: true,
     environment: 'node',
+    // Enough configuration for src/config.ts to load; nothing connects to it
+    env: {
+      PORT: '3000',
+      NODE_ENV: 'development', // vitest sets 'test', which config rejects
+      DB_HOST: 'localhost',
+      DB_NAME: 'test',
+      DB_USER: 'test',
+      DB_PASS: 'test',
+      HMAC_SECRET: 'test-hmac-secret-at-least-32-characters',
+      ADMIN_TOKEN: 'test-admin-token-at-least-32-characters',
+      SERVICE_NAME: 'tekno-logger'
+    },
     coverage: {
       provider: 'v8',
       reporter: ['text', 'json', 'html'],